@@ -8,7 +8,15 @@ import { Button } from '../../components/ui/Button';
 import { useTrips } from '../../hooks/useTrips';
 import { useVehicles } from '../../hooks/useVehicles';
 import { useAlert } from '@/template';
-import { exportToCSV, exportToJSON, shareExportedFile, generateMileageReport } from '../../services/exportService';
+import {
+  exportToCSV,
+  exportToJSON,
+  exportToGPX,
+  exportToKML,
+  loadTripRoutes,
+  shareExportedFile,
+  generateMileageReport,
+} from '../../services/exportService';
 
 export default function ExportScreen() {
   const insets = useSafeAreaInsets();
@@ -63,6 +71,37 @@ export default function ExportScreen() {
     }
   };
 
+  const handleExportRoutes = async (format: 'gpx' | 'kml') => {
+    if (allTrips.length === 0) {
+      showAlert('No Data', 'No trips available to export');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const routes = await loadTripRoutes(allTrips);
+      if (routes.size === 0) {
+        showAlert('No Route Data', 'None of your trips have a recorded GPS route');
+        return;
+      }
+
+      const data = format === 'gpx'
+        ? await exportToGPX(allTrips, vehicles, routes)
+        : await exportToKML(allTrips, vehicles, routes);
+      const success = await shareExportedFile(data, format);
+
+      if (success) {
+        showAlert('Success', `Exported ${routes.size} trip route${routes.size === 1 ? '' : 's'}`);
+      } else {
+        showAlert('Error', 'Failed to share export file');
+      }
+    } catch {
+      showAlert('Error', 'Failed to export trip routes');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleGenerateReport = () => {
     if (allTrips.length === 0) {
       showAlert('No Data', 'No trips available for report');
@@ -119,7 +158,7 @@ export default function ExportScreen() {
           </View>
 
           <Text style={styles.sectionDescription}>
-            Export your trip data in CSV or JSON format for tax purposes, record keeping, or backup.
+            Export your trip data in CSV or JSON format for tax purposes, record keeping, or backup. GPX and KML include the recorded GPS route of each trip.
           </Text>
 
           <View style={styles.exportButtons}>
@@ -148,6 +187,32 @@ export default function ExportScreen() {
             </Pressable>
           </View>
 
+          <View style={[styles.exportButtons, styles.exportButtonsRow]}>
+            <Pressable
+              style={({ pressed }) => [styles.exportOption, pressed && styles.exportOptionPressed]}
+              onPress={() => handleExportRoutes('gpx')}
+              disabled={exporting}
+            >
+              <MaterialIcons name="route" size={48} color={theme.colors.primary} />
+              <Text style={styles.exportOptionTitle}>GPX Format</Text>
+              <Text style={styles.exportOptionDescription}>
+                GPS tracks for mapping and fitness apps
+              </Text>
+            </Pressable>
+
+            <Pressable
+              style={({ pressed }) => [styles.exportOption, pressed && styles.exportOptionPressed]}
+              onPress={() => handleExportRoutes('kml')}
+              disabled={exporting}
+            >
+              <MaterialIcons name="map" size={48} color={theme.colors.primary} />
+              <Text style={styles.exportOptionTitle}>KML Format</Text>
+              <Text style={styles.exportOptionDescription}>
+                Open routes in Google Earth
+              </Text>
+            </Pressable>
+          </View>
+
           {exporting && (
             <View style={styles.exportingIndicator}>
               <ActivityIndicator size="small" color={theme.colors.primary} />
@@ -256,6 +321,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: theme.spacing.md,
   },
+  exportButtonsRow: {
+    marginTop: theme.spacing.md,
+  },
   exportOption: {
     flex: 1,
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -8,21 +8,57 @@ import { Button } from '../../components/ui/Button';
 import { ActiveTripCard } from '../../components/trip/ActiveTripCard';
 import { useTripTracking } from '../../hooks/useTripTracking';
 import { useTrips } from '../../hooks/useTrips';
+import { useAutoStart } from '../../hooks/useAutoStart';
 import { useAuth } from '../../hooks/useAuth';
 import { useAlert } from '@/template';
 import { getAutoStartSettings, getAutoStartState, getBluetoothState } from '../../services/bluetoothService';
+import { showDrivingDetectedNotification } from '../../services/notificationService';
+import { evaluateAutoStartSchedule } from '../../services/autoStartScheduleService';
+import type { Vehicle } from '../../types/trip';
+
+// After "Not Driving", wait this long before watching for a drive again
+const MOTION_SNOOZE = 15 * 60 * 1000; // 15 minutes
 
 export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
   const { isAuthenticated, vehicles, vehiclesLoading, vehicleError, reloadVehicles, updateVehicleOdometerInState } = useAuth();
   const [activeVehicleId, setActiveVehicleId] = useState<string | null>(null);
   const activeVehicle = vehicles.find(v => v.id === activeVehicleId) || vehicles[0] || null;
-  const { activeTrip, isTracking, startTrip, stopTrip } = useTripTracking({ 
+  const {
+    activeTrip,
+    isTracking,
+    startTrip,
+    stopTrip,
+    pauseTrip,
+    resumeTrip,
+    recordAutoStopFallback,
+    isMotionMonitoring,
+    startMotionMonitoring,
+    stopMotionMonitoring,
+  } = useTripTracking({
     activeVehicle,
     onVehicleOdometerUpdated: updateVehicleOdometerInState,
   });
   const { getPendingCount } = useTrips();
   const { showAlert } = useAlert();
+
+  // Bluetooth AutoStart drives the same trip as the Start/Stop buttons
+  const {
+    settings: autoStartSettings,
+    state: autoStartState,
+    refreshSettings: refreshAutoStartSettings,
+    refreshMappings: refreshAutoStartMappings,
+    resolveConflict,
+  } = useAutoStart({
+    onTriggerStart: async (vehicleId, classification) => {
+      const vehicle = vehicles.find(v => v.id === vehicleId);
+      if (!vehicle) throw new Error(`Vehicle ${vehicleId} is not on this account`);
+      const started = await startTrip({ vehicle, isAutoTracked: true, classification });
+      if (!started) throw new Error('GPS tracking could not start');
+    },
+    onTriggerStop: endedAt => stopTrip(endedAt),
+    onBluetoothOff: recordAutoStopFallback,
+  });
   const [showVehicleSelector, setShowVehicleSelector] = useState(false);
   const [retrying, setRetrying] = useState(false);
   const [isStartingTrip, setIsStartingTrip] = useState(false);
@@ -30,6 +66,9 @@ export default function DashboardScreen() {
   const [autoStartPhase, setAutoStartPhase] = useState<string>('idle');
   const [bluetoothState, setBluetoothState] = useState<'on' | 'off' | 'unavailable'>('unavailable');
   const [checkingBluetooth, setCheckingBluetooth] = useState(false);
+  const [motionDetectionEnabled, setMotionDetectionEnabled] = useState(false);
+  const [motionRearmKey, setMotionRearmKey] = useState(0);
+  const motionSnoozeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Check AutoStart status and Bluetooth state
   useEffect(() => {
@@ -39,15 +78,46 @@ export default function DashboardScreen() {
       const { getBluetoothState } = await import('../../services/bluetoothConnectionService');
       const btState = await getBluetoothState();
       setAutoStartEnabled(settings.enabled);
+      setMotionDetectionEnabled(settings.motionDetectionEnabled);
       setAutoStartPhase(state.phase);
       setBluetoothState(btState);
+      // Pick up changes made in Settings (enabled, device mappings)
+      await Promise.all([refreshAutoStartSettings(), refreshAutoStartMappings()]);
     };
     checkAutoStart();
     
     // Refresh every 5 seconds
     const interval = setInterval(checkAutoStart, 5000);
     return () => clearInterval(interval);
-  }, [isAuthenticated]);
+  }, [isAuthenticated, refreshAutoStartSettings, refreshAutoStartMappings]);
+
+  // AutoStart set to ask: devices of several vehicles are connected and it
+  // waits for the user to say which one they're driving
+  const conflictVehicleIds = autoStartSettings?.conflictResolution === 'ask' &&
+    autoStartState?.phase === 'monitoring' && !autoStartState.triggeredVehicleId
+    ? autoStartState.candidateVehicleIds
+    : [];
+  const conflictKey = conflictVehicleIds.join(',');
+  const promptedConflictRef = useRef('');
+
+  // Ask once per conflict, not on every render while it's open
+  useEffect(() => {
+    if (conflictKey === promptedConflictRef.current) return;
+    promptedConflictRef.current = conflictKey;
+    if (!conflictKey) return;
+    const candidates = vehicles.filter(v => conflictKey.split(',').includes(v.id));
+    showAlert('Which Vehicle?', 'Devices of more than one vehicle are connected. Which one are you driving?', [
+      ...candidates.map(vehicle => ({
+        text: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+        onPress: () => {
+          resolveConflict(vehicle.id).catch(error => {
+            console.error('[DashboardScreen] Vehicle choice failed:', error);
+          });
+        },
+      })),
+      { text: 'Not Now', style: 'cancel' as const },
+    ]);
+  }, [conflictKey, vehicles, showAlert, resolveConflict]);
 
   const handleCheckBluetoothStatus = async () => {
     setCheckingBluetooth(true);
@@ -97,6 +167,78 @@ export default function DashboardScreen() {
 
 
 
+  // ── Motion-based auto start (no Bluetooth) ─────────────────────────────────
+
+  const rearmMotionDetection = (delay = 0) => {
+    if (motionSnoozeTimerRef.current) clearTimeout(motionSnoozeTimerRef.current);
+    motionSnoozeTimerRef.current = setTimeout(() => {
+      motionSnoozeTimerRef.current = null;
+      setMotionRearmKey(key => key + 1);
+    }, delay);
+  };
+
+  const startDetectedTrip = async (vehicle: Vehicle) => {
+    const settings = await getAutoStartSettings();
+    const started = await startTrip({
+      vehicle,
+      isAutoTracked: true,
+      classification: evaluateAutoStartSchedule(settings).classification,
+    });
+    if (!started) {
+      console.warn('[DashboardScreen] Could not start motion-detected trip');
+      rearmMotionDetection();
+    }
+  };
+
+  const handleDrivingDetected = async () => {
+    const settings = await getAutoStartSettings();
+    // Motion detection follows the global AutoStart schedule
+    if (!evaluateAutoStartSchedule(settings).allowed) {
+      console.log('[DashboardScreen] Driving detected outside the AutoStart schedule — ignoring');
+      rearmMotionDetection(MOTION_SNOOZE);
+      return;
+    }
+    if (settings.motionVehicle === 'active' || vehicles.length === 1) {
+      if (activeVehicle) await startDetectedTrip(activeVehicle);
+      return;
+    }
+
+    try {
+      await showDrivingDetectedNotification();
+    } catch (e) {
+      console.warn('[DashboardScreen] Notification error (non-fatal):', e);
+    }
+    showAlert('Driving Detected', 'Which vehicle are you driving?', [
+      ...vehicles.map(vehicle => ({
+        text: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+        onPress: () => { startDetectedTrip(vehicle); },
+      })),
+      { text: 'Not Driving', style: 'cancel' as const, onPress: () => rearmMotionDetection(MOTION_SNOOZE) },
+    ]);
+  };
+
+  // Detection outlives renders — always call the latest handler
+  const handleDrivingDetectedRef = useRef(handleDrivingDetected);
+  handleDrivingDetectedRef.current = handleDrivingDetected;
+
+  // Watch for sustained driving whenever no trip is running
+  useEffect(() => {
+    if (!motionDetectionEnabled || isTracking || vehicles.length === 0) return;
+
+    startMotionMonitoring(() => {
+      handleDrivingDetectedRef.current();
+    }).catch(error => {
+      console.error('[DashboardScreen] Motion monitoring failed to start:', error);
+    });
+    return () => stopMotionMonitoring();
+  }, [motionDetectionEnabled, isTracking, vehicles.length, motionRearmKey, startMotionMonitoring, stopMotionMonitoring]);
+
+  useEffect(() => {
+    return () => {
+      if (motionSnoozeTimerRef.current) clearTimeout(motionSnoozeTimerRef.current);
+    };
+  }, []);
+
   const handleRetry = async () => {
     setRetrying(true);
     try {
@@ -146,7 +288,7 @@ export default function DashboardScreen() {
   const handleStopTrip = () => {
     showAlert('Stop Trip?', 'Are you sure you want to end this trip?', [
       { text: 'Cancel', style: 'cancel' },
-      { text: 'Stop Trip', style: 'destructive', onPress: stopTrip },
+      { text: 'Stop Trip', style: 'destructive', onPress: () => stopTrip() },
     ]);
   };
 
@@ -238,6 +380,12 @@ export default function DashboardScreen() {
             </Text>
           </Pressable>
         )}
+        {isMotionMonitoring && !isTracking && (
+          <View style={[styles.pendingBadge, { backgroundColor: `${theme.colors.primary}15` }]}>
+            <MaterialIcons name="directions-car" size={16} color={theme.colors.primary} />
+            <Text style={[styles.pendingText, { color: theme.colors.primary }]}>Motion Detection</Text>
+          </View>
+        )}
       </View>
 
       <ScrollView 
@@ -307,7 +455,12 @@ export default function DashboardScreen() {
         {/* Active Trip or Start Button */}
         {isTracking && activeTrip ? (
           <>
-            <ActiveTripCard trip={activeTrip} vehicle={activeVehicle} />
+            <ActiveTripCard
+              trip={activeTrip}
+              vehicle={activeVehicle}
+              onPause={pauseTrip}
+              onResume={resumeTrip}
+            />
             <Button
               title="Stop Trip"
               onPress={handleStopTrip}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Switch, Pressable, TextInput, ActivityIndicator, AppState, AppStateStatus } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { theme } from '../../constants/theme';
 import { Card } from '../../components/ui/Card';
@@ -31,6 +32,8 @@ import {
 } from '../../services/permissionsService';
 import { BluetoothDevicePickerModal } from '../../components/bluetooth/BluetoothDevicePickerModal';
 import { VehicleAssignBottomSheet } from '../../components/bluetooth/VehicleAssignBottomSheet';
+import { AutoStartScheduleSheet } from '../../components/bluetooth/AutoStartScheduleSheet';
+import { VinMatchSheet } from '../../components/bluetooth/VinMatchSheet';
 import {
   getAutoStartSettings,
   updateAutoStartSettings,
@@ -39,13 +42,76 @@ import {
   removeDeviceMapping,
   updateDeviceMapping,
   createDeviceIdFromName,
+  getKnownDevices,
+  MAPPING_PRIORITY_LOW,
+  MAPPING_PRIORITY_NORMAL,
+  MAPPING_PRIORITY_HIGH,
   type AutoStartSettings,
   type BluetoothDeviceMapping,
   type SpeedThreshold,
   type TripClassification,
+  type MotionVehicleMode,
+  type ConflictResolution,
 } from '../../services/bluetoothService';
+import {
+  getBluetoothScenarios,
+  isBluetoothSimulationActive,
+  startBluetoothScenario,
+  stopBluetoothSimulation,
+} from '../../services/bluetoothSimulationService';
+import { formatScheduleSummary, type AutoStartSchedule } from '../../services/autoStartScheduleService';
+import {
+  getObdSettings,
+  updateObdSettings,
+  testObdConnection,
+  isObdConfigured,
+  type ObdSettings,
+  type ObdVehicleReport,
+} from '../../services/obdService';
+import { kmToMiles } from '../../services/obdPids';
+import {
+  getRouteSettings,
+  updateRouteSettings,
+  type RouteSettings,
+} from '../../services/routeService';
+import { isEncryptionSupported } from '../../services/encryptionService';
+import {
+  getTrashSettings,
+  updateTrashSettings,
+  TRASH_RETENTION_OPTIONS,
+  type TrashSettings,
+} from '../../services/trashService';
+
+const PRIORITY_LABELS: Record<number, string> = {
+  [MAPPING_PRIORITY_LOW]: 'Low',
+  [MAPPING_PRIORITY_NORMAL]: 'Normal',
+  [MAPPING_PRIORITY_HIGH]: 'High',
+};
+
+const CONFLICT_RESOLUTION_HINTS: Record<ConflictResolution, string> = {
+  priority: 'The highest-priority device picks the vehicle — tap a device\'s priority to change it',
+  ask: 'Hold the trip until you choose which vehicle you\'re in',
+  speed: 'Wait until you\'re moving, then use the vehicle whose device is still connected',
+};
+
+function formatObdReport(report: ObdVehicleReport): string {
+  const odometer = report.odometerKm !== null
+    ? `${Math.round(kmToMiles(report.odometerKm)).toLocaleString()} mi`
+    : 'Not reported by this car';
+  const method = report.distanceMethod === 'odometer' ? 'Odometer'
+    : report.distanceMethod === 'speed' ? 'Vehicle speed'
+    : 'Not available — trips stay on GPS';
+  return [
+    `VIN: ${report.vin ?? 'Not reported'}`,
+    `Speed: ${report.speedKmh !== null ? `${Math.round(kmToMiles(report.speedKmh))} mph` : 'Not reported'}`,
+    `RPM: ${report.rpm !== null ? Math.round(report.rpm) : 'Not reported'}`,
+    `Odometer: ${odometer}`,
+    `Trip distance from: ${method}`,
+  ].join('\n');
+}
 
 export default function SettingsScreen() {
+  const router = useRouter();
   const insets = useSafeAreaInsets();
   const { showAlert } = useAlert();
   const { user, logout, vehicles } = useAuth();
@@ -56,12 +122,20 @@ export default function SettingsScreen() {
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [autoStartSettings, setAutoStartSettings] = useState<AutoStartSettings | null>(null);
+  const [bluetoothSimulationActive, setBluetoothSimulationActive] = useState(isBluetoothSimulationActive);
   const [deviceMappings, setDeviceMappings] = useState<BluetoothDeviceMapping[]>([]);
   const [showDevicePicker, setShowDevicePicker] = useState(false);
   const [pendingDevice, setPendingDevice] = useState<{ id: string; name: string } | null>(null);
   const [showVehicleAssign, setShowVehicleAssign] = useState(false);
+  // null = sheet closed; 'global' or the mapping whose own schedule is being edited
+  const [scheduleTarget, setScheduleTarget] = useState<'global' | BluetoothDeviceMapping | null>(null);
+  const [showVinMatch, setShowVinMatch] = useState(false);
   const [permissions, setPermissions] = useState<AppPermission[]>([]);
   const [permissionsLoading, setPermissionsLoading] = useState(false);
+  const [routeSettings, setRouteSettings] = useState<RouteSettings | null>(null);
+  const [trashSettings, setTrashSettings] = useState<TrashSettings | null>(null);
+  const [obdSettings, setObdSettings] = useState<ObdSettings | null>(null);
+  const [isTestingObd, setIsTestingObd] = useState(false);
 
   useEffect(() => {
     loadSettings();
@@ -86,6 +160,9 @@ export default function SettingsScreen() {
     const autoStart = await getAutoStartSettings();
     const mappings = await getDeviceMappings();
     const perms = await checkAllPermissions();
+    const route = await getRouteSettings();
+    const trash = await getTrashSettings();
+    const obd = await getObdSettings();
 
     setSubscription(level);
     setSyncSettings(settings);
@@ -94,6 +171,9 @@ export default function SettingsScreen() {
     setAutoStartSettings(autoStart);
     setDeviceMappings(mappings);
     setPermissions(perms);
+    setRouteSettings(route);
+    setTrashSettings(trash);
+    setObdSettings(obd);
   };
 
   const handleSubscriptionToggle = async () => {
@@ -138,6 +218,105 @@ export default function SettingsScreen() {
     setAutoStartSettings(updated);
   };
 
+  const handleMotionDetectionToggle = async (enabled: boolean) => {
+    if (enabled) {
+      const status = await requestPermission('location_foreground');
+      if (status !== 'granted') {
+        showAlert('Location Required', 'Motion detection needs location access to notice when you start driving');
+        return;
+      }
+    }
+    const updated = await updateAutoStartSettings({ motionDetectionEnabled: enabled });
+    setAutoStartSettings(updated);
+  };
+
+  const handleMotionVehicleChange = async (value: MotionVehicleMode) => {
+    const updated = await updateAutoStartSettings({ motionVehicle: value });
+    setAutoStartSettings(updated);
+  };
+
+  const handleConflictResolutionChange = async (value: ConflictResolution) => {
+    const updated = await updateAutoStartSettings({ conflictResolution: value });
+    setAutoStartSettings(updated);
+  };
+
+  const handleScheduleSaved = async (schedule: AutoStartSchedule | null) => {
+    if (scheduleTarget === 'global') {
+      if (schedule) setAutoStartSettings(await updateAutoStartSettings({ schedule }));
+    } else if (scheduleTarget) {
+      await updateDeviceMapping(scheduleTarget.deviceId, { schedule });
+      setDeviceMappings(await getDeviceMappings());
+    }
+    setScheduleTarget(null);
+  };
+
+  // Low → Normal → High → Low
+  const handleCyclePriority = async (mapping: BluetoothDeviceMapping) => {
+    const next = mapping.priority >= MAPPING_PRIORITY_HIGH ? MAPPING_PRIORITY_LOW : mapping.priority + 1;
+    await updateDeviceMapping(mapping.deviceId, { priority: next });
+    const updated = await getDeviceMappings();
+    setDeviceMappings(updated);
+  };
+
+  // Scenarios play 10x faster than real time
+  const handleBluetoothSimulator = () => {
+    showAlert('Bluetooth Simulator', 'Play a scripted scenario through a fake car stereo. Map "Fake Car Stereo" to a vehicle, then toggle AutoStart off and on.', [
+      ...getBluetoothScenarios().map(scenario => ({
+        text: scenario.description,
+        onPress: () => {
+          startBluetoothScenario(scenario.name, 0.1);
+          setBluetoothSimulationActive(true);
+        },
+      })),
+      ...(bluetoothSimulationActive
+        ? [{
+            text: 'Stop Simulation',
+            style: 'destructive' as const,
+            onPress: () => {
+              stopBluetoothSimulation();
+              setBluetoothSimulationActive(false);
+            },
+          }]
+        : []),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleObdSettingChange = async (partial: Partial<ObdSettings>) => {
+    const updated = await updateObdSettings(partial);
+    setObdSettings(updated);
+  };
+
+  // ELM327 adapters are Classic Bluetooth serial devices, so only paired ones can be used
+  const handleChooseObdAdapter = async () => {
+    const devices = (await getKnownDevices()).filter(device => device.isPaired);
+    if (devices.length === 0) {
+      showAlert('No Paired Adapters', 'Pair your OBD-II adapter in your phone\'s Bluetooth settings first (the PIN is usually 1234 or 0000).');
+      return;
+    }
+    showAlert('Choose OBD-II Adapter', 'Pick the adapter plugged into your car', [
+      ...devices.map(device => ({
+        text: device.name,
+        onPress: () => handleObdSettingChange({ adapterAddress: device.id, adapterName: device.name }),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleTestObd = async () => {
+    setIsTestingObd(true);
+    try {
+      const result = await testObdConnection();
+      if (result.ok) {
+        showAlert(result.report.adapterName, formatObdReport(result.report));
+      } else {
+        showAlert('OBD-II Test Failed', result.reason);
+      }
+    } finally {
+      setIsTestingObd(false);
+    }
+  };
+
   const handleSpeedThresholdChange = async (value: SpeedThreshold) => {
     const updated = await updateAutoStartSettings({ speedThreshold: value });
     setAutoStartSettings(updated);
@@ -158,6 +337,16 @@ export default function SettingsScreen() {
     setAutoStartSettings(updated);
   };
 
+  const handleRouteToleranceChange = async (meters: number) => {
+    const updated = await updateRouteSettings({ simplifyToleranceMeters: meters });
+    setRouteSettings(updated);
+  };
+
+  const handleTrashRetentionChange = async (days: number) => {
+    const updated = await updateTrashSettings({ retentionDays: days });
+    setTrashSettings(updated);
+  };
+
   const handleDeviceSelected = async (device: { id: string; name: string }) => {
     // Add device with no vehicle yet
     await addDeviceMapping({
@@ -455,6 +644,20 @@ export default function SettingsScreen() {
                                   : 'Tap to assign vehicle →'}
                               </Text>
                             </Pressable>
+                            {mapping.vehicleId !== '' && (
+                              <View style={styles.deviceMeta}>
+                                <Pressable onPress={() => handleCyclePriority(mapping)}>
+                                  <Text style={styles.devicePriority}>
+                                    Priority: {PRIORITY_LABELS[mapping.priority] ?? 'Normal'}
+                                  </Text>
+                                </Pressable>
+                                <Pressable onPress={() => setScheduleTarget(mapping)}>
+                                  <Text style={styles.devicePriority}>
+                                    Schedule: {mapping.schedule ? 'Custom' : 'Global'}
+                                  </Text>
+                                </Pressable>
+                              </View>
+                            )}
                           </View>
                         </View>
                         <View style={styles.deviceItemRight}>
@@ -490,6 +693,13 @@ export default function SettingsScreen() {
                   <Text style={styles.addDeviceButtonText}>Add Bluetooth Device</Text>
                 </Pressable>
 
+                <SettingRow
+                  icon="qr-code"
+                  title="Identify Vehicle by VIN"
+                  value="Match the car you're in and link its Bluetooth"
+                  onPress={() => setShowVinMatch(true)}
+                />
+
                 {/* Modals */}
                 <BluetoothDevicePickerModal
                   visible={showDevicePicker}
@@ -508,8 +718,74 @@ export default function SettingsScreen() {
                   onClose={handleVehicleAssignSkipped}
                 />
 
+                <VinMatchSheet
+                  visible={showVinMatch}
+                  obdAvailable={!!obdSettings && isObdConfigured(obdSettings)}
+                  onLinked={async () => setDeviceMappings(await getDeviceMappings())}
+                  onClose={() => setShowVinMatch(false)}
+                />
+
+                {/* Only matters once devices point at more than one vehicle */}
+                {new Set(deviceMappings.filter(m => m.vehicleId).map(m => m.vehicleId)).size > 1 && (
+                  <View style={[styles.tripSettingGroup, styles.conflictGroup]}>
+                    <View style={styles.tripSettingHeader}>
+                      <MaterialIcons name="call-split" size={20} color={theme.colors.primary} />
+                      <View style={styles.tripSettingHeaderText}>
+                        <Text style={styles.tripSettingTitle}>When Two Vehicles Connect</Text>
+                        <Text style={styles.tripSettingSubtitle}>
+                          {CONFLICT_RESOLUTION_HINTS[autoStartSettings.conflictResolution]}
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={styles.optionPills}>
+                      {([
+                        { value: 'priority', label: 'Use Priority' },
+                        { value: 'ask', label: 'Ask Me' },
+                        { value: 'speed', label: 'Wait for Movement' },
+                      ] as { value: ConflictResolution; label: string }[]).map((option) => (
+                        <Pressable
+                          key={option.value}
+                          style={[
+                            styles.optionPill,
+                            autoStartSettings.conflictResolution === option.value && styles.optionPillActive,
+                          ]}
+                          onPress={() => handleConflictResolutionChange(option.value)}
+                        >
+                          <Text style={[
+                            styles.optionPillText,
+                            autoStartSettings.conflictResolution === option.value && styles.optionPillTextActive,
+                          ]}>
+                            {option.label}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
                 <View style={styles.divider} />
 
+                {/* Weekly schedule (devices can override it) */}
+                <SettingRow
+                  icon="schedule"
+                  title="AutoStart Schedule"
+                  value={formatScheduleSummary(autoStartSettings.schedule)}
+                  onPress={() => setScheduleTarget('global')}
+                />
+
+                <AutoStartScheduleSheet
+                  visible={scheduleTarget !== null}
+                  title={scheduleTarget && scheduleTarget !== 'global'
+                    ? `${scheduleTarget.deviceName} Schedule`
+                    : 'AutoStart Schedule'}
+                  schedule={scheduleTarget && scheduleTarget !== 'global'
+                    ? scheduleTarget.schedule ?? null
+                    : autoStartSettings.schedule}
+                  globalSchedule={scheduleTarget && scheduleTarget !== 'global' ? autoStartSettings.schedule : undefined}
+                  onSave={handleScheduleSaved}
+                  onClose={() => setScheduleTarget(null)}
+                />
+
                 {/* Monitoring Notification Toggle */}
                 <SettingRow
                   icon="notifications-none"
@@ -541,6 +817,82 @@ export default function SettingsScreen() {
                 />
               </>
             )}
+
+            <View style={styles.divider} />
+
+            {/* Motion Detection Toggle */}
+            <View style={styles.autoStartHeader}>
+              <View style={styles.autoStartHeaderText}>
+                <View style={styles.autoStartTitleRow}>
+                  <MaterialIcons name="directions-car" size={20} color={theme.colors.primary} />
+                  <Text style={styles.autoStartTitle}>Motion Detection</Text>
+                </View>
+                <Text style={styles.autoStartSubtitle}>
+                  Start a trip when sustained driving speed is detected, for cars without Bluetooth
+                </Text>
+              </View>
+              <Switch
+                value={autoStartSettings.motionDetectionEnabled}
+                onValueChange={handleMotionDetectionToggle}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                thumbColor={theme.colors.text}
+              />
+            </View>
+
+            {autoStartSettings.motionDetectionEnabled && (
+              <View style={styles.tripSettingGroup}>
+                <View style={styles.tripSettingHeader}>
+                  <MaterialIcons name="directions-car-filled" size={20} color={theme.colors.primary} />
+                  <View style={styles.tripSettingHeaderText}>
+                    <Text style={styles.tripSettingTitle}>Detected Trip Vehicle</Text>
+                    <Text style={styles.tripSettingSubtitle}>
+                      Which vehicle a motion-detected trip is logged against
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.optionPills}>
+                  {([
+                    { value: 'active', label: 'Active Vehicle' },
+                    { value: 'ask', label: 'Ask Me' },
+                  ] as { value: MotionVehicleMode; label: string }[]).map((option) => (
+                    <Pressable
+                      key={option.value}
+                      style={[
+                        styles.optionPill,
+                        autoStartSettings.motionVehicle === option.value && styles.optionPillActive,
+                      ]}
+                      onPress={() => handleMotionVehicleChange(option.value)}
+                    >
+                      <Text style={[
+                        styles.optionPillText,
+                        autoStartSettings.motionVehicle === option.value && styles.optionPillTextActive,
+                      ]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.divider} />
+
+            {/* Event Log */}
+            <SettingRow
+              icon="history"
+              title="AutoStart Event Log"
+              value="Connections, phase changes and trip starts"
+              onPress={() => router.push('/autostart-log')}
+            />
+
+            {__DEV__ && (
+              <SettingRow
+                icon="science"
+                title="Bluetooth Simulator"
+                value={bluetoothSimulationActive ? 'Simulated module active' : 'Exercise AutoStart without a car'}
+                onPress={handleBluetoothSimulator}
+              />
+            )}
           </Card>
         )}
 
@@ -689,6 +1041,82 @@ export default function SettingsScreen() {
           </Card>
         )}
 
+        {/* ── OBD-II Section ─────────────────────────────────────────────── */}
+        {obdSettings && (
+          <Card style={styles.section}>
+            <Text style={styles.sectionTitle}>OBD-II</Text>
+
+            <View style={styles.autoStartHeader}>
+              <View style={styles.autoStartHeaderText}>
+                <View style={styles.autoStartTitleRow}>
+                  <MaterialIcons name="settings-input-component" size={20} color={theme.colors.primary} />
+                  <Text style={styles.autoStartTitle}>OBD-II Adapter</Text>
+                </View>
+                <Text style={styles.autoStartSubtitle}>
+                  Read speed, odometer and VIN from an ELM327 Bluetooth adapter plugged into your car
+                </Text>
+              </View>
+              <Switch
+                value={obdSettings.enabled}
+                onValueChange={(enabled) => handleObdSettingChange({ enabled })}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                thumbColor={theme.colors.text}
+              />
+            </View>
+
+            {obdSettings.enabled && (
+              <>
+                <View style={styles.divider} />
+
+                <SettingRow
+                  icon="bluetooth"
+                  title="Adapter"
+                  value={obdSettings.simulated ? 'Simulated ELM327' : obdSettings.adapterName ?? 'Choose a paired adapter'}
+                  onPress={handleChooseObdAdapter}
+                />
+
+                <SettingRow
+                  icon="speed"
+                  title="Measure Trips with OBD-II"
+                  value="Use the car's odometer or speed for trip distance, falling back to GPS"
+                  rightElement={
+                    <Switch
+                      value={obdSettings.useAsDistanceSource}
+                      onValueChange={(useAsDistanceSource) => handleObdSettingChange({ useAsDistanceSource })}
+                      trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                      thumbColor={theme.colors.text}
+                    />
+                  }
+                />
+
+                <SettingRow
+                  icon="network-check"
+                  title="Test Connection"
+                  value="Read VIN, speed and odometer support"
+                  onPress={isTestingObd ? undefined : handleTestObd}
+                  rightElement={isTestingObd ? <ActivityIndicator color={theme.colors.primary} /> : undefined}
+                />
+
+                {__DEV__ && (
+                  <SettingRow
+                    icon="science"
+                    title="Simulated Adapter"
+                    value="Use a simulated ELM327 in a car driving around town"
+                    rightElement={
+                      <Switch
+                        value={obdSettings.simulated}
+                        onValueChange={(simulated) => handleObdSettingChange({ simulated })}
+                        trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                        thumbColor={theme.colors.text}
+                      />
+                    }
+                  />
+                )}
+              </>
+            )}
+          </Card>
+        )}
+
         {/* Sync Section */}
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>Synchronization</Text>
@@ -857,7 +1285,7 @@ export default function SettingsScreen() {
           <SettingRow
             icon="lock"
             title="Encrypted Storage"
-            value="Active"
+            value={isEncryptionSupported() ? 'Active' : 'Not Available'}
           />
         </Card>
 
@@ -883,6 +1311,79 @@ export default function SettingsScreen() {
               />
             }
           />
+
+          {routeSettings && (
+            <View style={styles.tripSettingGroup}>
+              <View style={styles.tripSettingHeader}>
+                <MaterialIcons name="timeline" size={20} color={theme.colors.primary} />
+                <View style={styles.tripSettingHeaderText}>
+                  <Text style={styles.tripSettingTitle}>Stored Route Detail</Text>
+                  <Text style={styles.tripSettingSubtitle}>
+                    Routes are simplified when a trip ends. Points closer than this to the simplified path are dropped.
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.optionPills}>
+                {[0, 2, 5, 10, 25].map((meters) => (
+                  <Pressable
+                    key={meters}
+                    style={[
+                      styles.optionPill,
+                      routeSettings.simplifyToleranceMeters === meters && styles.optionPillActive,
+                    ]}
+                    onPress={() => handleRouteToleranceChange(meters)}
+                  >
+                    <Text style={[
+                      styles.optionPillText,
+                      routeSettings.simplifyToleranceMeters === meters && styles.optionPillTextActive,
+                    ]}>
+                      {meters === 0 ? 'Full' : `${meters} m`}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <SettingRow
+            icon="delete-outline"
+            title="Trash"
+            value="Restore or permanently delete trips"
+            onPress={() => router.push('/trash')}
+          />
+
+          {trashSettings && (
+            <View style={styles.tripSettingGroup}>
+              <View style={styles.tripSettingHeader}>
+                <MaterialIcons name="auto-delete" size={20} color={theme.colors.primary} />
+                <View style={styles.tripSettingHeaderText}>
+                  <Text style={styles.tripSettingTitle}>Keep Deleted Trips</Text>
+                  <Text style={styles.tripSettingSubtitle}>
+                    Trips in the Trash are deleted for good, routes included, once they are older than this.
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.optionPills}>
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <Pressable
+                    key={days}
+                    style={[
+                      styles.optionPill,
+                      trashSettings.retentionDays === days && styles.optionPillActive,
+                    ]}
+                    onPress={() => handleTrashRetentionChange(days)}
+                  >
+                    <Text style={[
+                      styles.optionPillText,
+                      trashSettings.retentionDays === days && styles.optionPillTextActive,
+                    ]}>
+                      {`${days} days`}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
         </Card>
 
         {/* App Info */}
@@ -1145,6 +1646,18 @@ const styles = StyleSheet.create({
     color: theme.colors.textSubtle,
     fontStyle: 'italic',
   },
+  deviceMeta: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+  },
+  devicePriority: {
+    fontSize: theme.typography.labelSmall,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  conflictGroup: {
+    marginTop: theme.spacing.md,
+  },
   deviceItemRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, FlatList, Pressable, RefreshControl, ActivityIndicator } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -6,25 +6,57 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { theme } from '../../constants/theme';
 import { TripListItem } from '../../components/trip/TripListItem';
 import { EmptyTrips } from '../../components/trip/EmptyTrips';
+import { ImportTripsSheet } from '../../components/trip/ImportTripsSheet';
 import { Button } from '../../components/ui/Button';
+import { Snackbar } from '../../components/ui/Snackbar';
 import { useTrips } from '../../hooks/useTrips';
 import { useVehicles } from '../../hooks/useVehicles';
-import { syncTrips } from '../../services/tripService';
+import { syncTrips, restoreTrip } from '../../services/tripService';
+import { onTripTrashed } from '../../services/trashService';
 import { forceUpdateOdometerOnServer, acceptServerOdometer } from '../../services/vehicleService';
 import { useAuth } from '../../hooks/useAuth';
 import { useAlert } from '@/template';
-import { TripStatus } from '../../types/trip';
+import { pickGpxFile, importGpxTracks, type GpxFile } from '../../services/gpxImportService';
+import { Trip, TripStatus, Vehicle } from '../../types/trip';
 
 export default function TripsScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { trips, allTrips, loading, filters, setFilters, refreshTrips, getPendingCount } = useTrips();
-  const { vehicles, refreshVehicles } = useVehicles();
+  const { trips, allTrips, loading, error, filters, setFilters, refreshTrips, getPendingCount } = useTrips();
+  const { vehicles, activeVehicle, refreshVehicles } = useVehicles();
   const { reloadVehicles } = useAuth();
   const { showAlert } = useAlert();
   const [refreshing, setRefreshing] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const [importFile, setImportFile] = useState<GpxFile | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [trashedTrip, setTrashedTrip] = useState<Trip | null>(null);
+
+  // Deletions usually happen on the trip details screen; offer undo here
+  const refreshAfterTrashRef = useRef<() => Promise<void>>(async () => {});
+  refreshAfterTrashRef.current = async () => {
+    await refreshTrips();
+    await reloadVehicles(); // the vehicle's odometer may have rolled back
+  };
+
+  useEffect(() => {
+    return onTripTrashed(trip => {
+      setTrashedTrip(trip);
+      refreshAfterTrashRef.current();
+    });
+  }, []);
+
+  const handleUndoDelete = async () => {
+    if (!trashedTrip) return;
+    try {
+      await restoreTrip(trashedTrip.id);
+      await refreshAfterTrashRef.current();
+    } catch (error) {
+      console.error('[TripsScreen] Failed to restore trip:', error);
+      showAlert('Restore Failed', 'The trip is still in the Trash and can be restored from there.');
+    }
+  };
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -111,6 +143,45 @@ export default function TripsScreen() {
     }
   };
 
+  const handlePickGpx = async () => {
+    try {
+      const file = await pickGpxFile();
+      if (file) {
+        setImportFile(file);
+      }
+    } catch (error: any) {
+      console.error('[TripsScreen] GPX pick error:', error);
+      showAlert('Import Failed', error?.message || 'Unable to read the selected file.');
+    }
+  };
+
+  const handleImportToVehicle = async (vehicle: Vehicle) => {
+    if (!importFile) return;
+
+    setImporting(true);
+    try {
+      const result = await importGpxTracks(importFile, vehicle);
+      setImportFile(null);
+
+      const importedCount = result.tracks.filter(t => t.status === 'imported').length;
+      const lines = [
+        `${importedCount} trip${importedCount !== 1 ? 's' : ''} imported for ${vehicle.year} ${vehicle.make} ${vehicle.model}.`,
+        ...result.tracks.flatMap(t =>
+          t.status === 'imported' ? [] : [`${t.status === 'skipped' ? 'Skipped' : 'Not saved'} "${t.name}": ${t.reason}`]
+        ),
+      ];
+      showAlert(importedCount > 0 ? 'Import Complete' : 'Nothing Imported', lines.join('\n\n'));
+
+      await refreshTrips();
+      await refreshVehicles();
+    } catch (error: any) {
+      console.error('[TripsScreen] GPX import error:', error);
+      showAlert('Import Failed', error?.message || 'An unexpected error occurred during import.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleFilterByStatus = (status: TripStatus | 'all' | 'pending') => {
     setFilters({ ...filters, status });
     setShowFilters(false);
@@ -127,15 +198,36 @@ export default function TripsScreen() {
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Trip History</Text>
-        {pendingCount > 0 && (
-          <Button
-            title={syncing ? 'Syncing...' : `Sync ${pendingCount}`}
-            onPress={handleSync}
-            size="small"
-            loading={syncing}
-            disabled={syncing}
-          />
-        )}
+        <View style={styles.headerActions}>
+          <Pressable
+            style={({ pressed }) => [styles.headerIconButton, pressed && { opacity: 0.7 }]}
+            onPress={() => router.push('/log-trip')}
+          >
+            <MaterialIcons name="add" size={22} color={theme.colors.primary} />
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.headerIconButton, pressed && { opacity: 0.7 }]}
+            onPress={() => router.push('/trash')}
+          >
+            <MaterialIcons name="delete-outline" size={22} color={theme.colors.primary} />
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.headerIconButton, pressed && { opacity: 0.7 }]}
+            onPress={handlePickGpx}
+            disabled={importing}
+          >
+            <MaterialIcons name="file-upload" size={22} color={theme.colors.primary} />
+          </Pressable>
+          {pendingCount > 0 && (
+            <Button
+              title={syncing ? 'Syncing...' : `Sync ${pendingCount}`}
+              onPress={handleSync}
+              size="small"
+              loading={syncing}
+              disabled={syncing}
+            />
+          )}
+        </View>
       </View>
 
       {/* Filter Bar */}
@@ -193,6 +285,12 @@ export default function TripsScreen() {
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={theme.colors.primary} />
         </View>
+      ) : error ? (
+        <View style={styles.loadingContainer}>
+          <MaterialIcons name="error-outline" size={48} color={theme.colors.textSubtle} />
+          <Text style={styles.errorText}>{error}</Text>
+          <Button title="Try Again" onPress={refreshTrips} variant="secondary" size="small" />
+        </View>
       ) : trips.length === 0 ? (
         <EmptyTrips />
       ) : (
@@ -217,6 +315,24 @@ export default function TripsScreen() {
           }
         />
       )}
+
+      <ImportTripsSheet
+        visible={importFile !== null}
+        file={importFile}
+        vehicles={vehicles}
+        currentVehicleId={activeVehicle?.id}
+        importing={importing}
+        onSelectVehicle={handleImportToVehicle}
+        onClose={() => setImportFile(null)}
+      />
+
+      <Snackbar
+        visible={trashedTrip !== null}
+        message="Trip moved to Trash"
+        actionLabel="Undo"
+        onAction={handleUndoDelete}
+        onDismiss={() => setTrashedTrip(null)}
+      />
     </View>
   );
 }
@@ -233,6 +349,21 @@ const styles = StyleSheet.create({
     paddingHorizontal: theme.spacing.md,
     paddingBottom: theme.spacing.md,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  headerIconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
   headerTitle: {
     fontSize: theme.typography.headlineLarge,
     fontWeight: theme.typography.weightBold,
@@ -295,4 +426,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  errorText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.textSecondary,
+    marginVertical: theme.spacing.md,
+  },
 });
\ No newline at end of file
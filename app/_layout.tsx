@@ -4,9 +4,11 @@ import { StatusBar } from 'expo-status-bar';
 import { AlertProvider } from '@/template';
 import { useEffect } from 'react';
 import { initializeStorage } from '../services/tripService';
+import { purgeExpiredTrash } from '../services/trashService';
 import * as TaskManager from 'expo-task-manager';
 import * as Location from 'expo-location';
-import { LOCATION_TASK_NAME_EXPORT } from '../services/locationService';
+import { LOCATION_TASK_NAME_EXPORT, toLocationPoint } from '../services/locationService';
+import { accumulateLocations, isForegroundAccumulating } from '../services/tripAccumulatorService';
 import { AuthProvider } from '../contexts/AuthContext';
 import { useAuth } from '../hooks/useAuth';
 
@@ -18,13 +20,24 @@ TaskManager.defineTask(LOCATION_TASK_NAME_EXPORT, async ({ data, error }: any) =
   }
 
   if (data) {
-    const { locations } = data;
-    // Location updates are handled in the active trip hook
-    // This task ensures tracking continues when app is backgrounded
+    const { locations } = data as { locations?: Location.LocationObject[] };
     console.log('Background location update:', locations?.length || 0, 'points');
+
+    // While the app is in the foreground the trip hook accumulates distance itself;
+    // otherwise the headless accumulator persists it so no miles are lost
+    if (!locations || locations.length === 0 || isForegroundAccumulating()) return;
+
+    try {
+      await accumulateLocations(locations.map(toLocationPoint));
+    } catch (accumulateError) {
+      console.error('Background trip accumulation failed:', accumulateError);
+    }
   }
 });
 
+// Screens outside the tabs that a signed-in user opens from them
+const SIGNED_IN_STACK_ROUTES = new Set(['trip-details', 'log-trip', 'autostart-log', 'trash']);
+
 // Protected route wrapper
 function RootLayoutNav() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -39,7 +52,7 @@ function RootLayoutNav() {
     if (!isAuthenticated && inAuthGroup) {
       // Redirect to welcome if not authenticated
       router.replace('/welcome');
-    } else if (isAuthenticated && !inAuthGroup && segments[0] !== 'trip-details') {
+    } else if (isAuthenticated && !inAuthGroup && !SIGNED_IN_STACK_ROUTES.has(segments[0])) {
       // Redirect to app if authenticated
       router.replace('/(tabs)');
     }
@@ -64,18 +77,47 @@ function RootLayoutNav() {
           headerTitle: 'Trip Details',
         }} 
       />
+      <Stack.Screen 
+        name="log-trip" 
+        options={{ 
+          headerShown: true,
+          headerStyle: { backgroundColor: '#0a0a0a' },
+          headerTintColor: '#FFD700',
+          headerTitle: 'Log a Trip',
+        }} 
+      />
+      <Stack.Screen 
+        name="autostart-log" 
+        options={{ 
+          headerShown: true,
+          headerStyle: { backgroundColor: '#0a0a0a' },
+          headerTintColor: '#FFD700',
+          headerTitle: 'AutoStart Log',
+        }} 
+      />
+      <Stack.Screen 
+        name="trash" 
+        options={{ 
+          headerShown: true,
+          headerStyle: { backgroundColor: '#0a0a0a' },
+          headerTintColor: '#FFD700',
+          headerTitle: 'Trash',
+        }} 
+      />
     </Stack>
   );
 }
 
 export default function RootLayout() {
   useEffect(() => {
-    initializeStorage();
+    // Trips left in the trash past the retention period are deleted for good
+    initializeStorage().then(() => purgeExpiredTrash());
     
     // Request notification permissions
     (async () => {
-      const { requestNotificationPermissions } = await import('../services/notificationService');
+      const { requestNotificationPermissions, registerTripNotificationCategories } = await import('../services/notificationService');
       await requestNotificationPermissions();
+      await registerTripNotificationCategories();
     })();
 
     // Start native Bluetooth connection listener for AutoStart
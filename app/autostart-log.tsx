@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { theme } from '../constants/theme';
+import { Button } from '../components/ui/Button';
+import { useAlert } from '@/template';
+import {
+  getAutoStartLog,
+  clearAutoStartLog,
+  shareAutoStartLog,
+  type AutoStartEventType,
+  type AutoStartLogEntry,
+} from '../services/autoStartLogService';
+
+const EVENT_STYLES: Record<AutoStartEventType, { icon: keyof typeof MaterialIcons.glyphMap; color: string }> = {
+  device_connected: { icon: 'bluetooth-connected', color: theme.colors.success },
+  device_disconnected: { icon: 'bluetooth-disabled', color: theme.colors.textSecondary },
+  phase_change: { icon: 'swap-horiz', color: theme.colors.primary },
+  monitoring_mode: { icon: 'settings-bluetooth', color: theme.colors.info },
+  bluetooth_state: { icon: 'bluetooth', color: theme.colors.info },
+  trip_start: { icon: 'play-circle-outline', color: theme.colors.success },
+  trip_stop: { icon: 'stop-circle', color: theme.colors.warning },
+  error: { icon: 'error-outline', color: theme.colors.error },
+};
+
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}`;
+}
+
+export default function AutoStartLogScreen() {
+  const insets = useSafeAreaInsets();
+  const { showAlert } = useAlert();
+  const [entries, setEntries] = useState<AutoStartLogEntry[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const loadLog = useCallback(async () => {
+    const log = await getAutoStartLog();
+    setEntries([...log].reverse()); // newest first
+  }, []);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadLog();
+    setRefreshing(false);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const shared = await shareAutoStartLog();
+      if (!shared) {
+        showAlert('Export Failed', 'Sharing is not available on this device');
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleClear = () => {
+    showAlert('Clear Event Log?', 'All recorded AutoStart events will be deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          if (await clearAutoStartLog()) {
+            setEntries([]);
+          } else {
+            showAlert('Clear Failed', 'Unable to clear the event log. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: AutoStartLogEntry }) => {
+    const eventStyle = EVENT_STYLES[item.type];
+    const details = item.details
+      ? Object.entries(item.details)
+          .filter(([, value]) => value !== null)
+          .map(([key, value]) => `${key}: ${value}`)
+          .join(' · ')
+      : '';
+
+    return (
+      <View style={styles.entry}>
+        <View style={[styles.entryIcon, { backgroundColor: `${eventStyle.color}20` }]}>
+          <MaterialIcons name={eventStyle.icon} size={18} color={eventStyle.color} />
+        </View>
+        <View style={styles.entryContent}>
+          <Text style={styles.entryMessage}>{item.message}</Text>
+          {details !== '' && <Text style={styles.entryDetails}>{details}</Text>}
+          <Text style={styles.entryTime}>{formatTimestamp(item.timestamp)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.actions}>
+        <Button
+          title="Export"
+          onPress={handleExport}
+          loading={exporting}
+          disabled={exporting || entries.length === 0}
+          variant="secondary"
+          size="small"
+          style={styles.actionButton}
+        />
+        <Button
+          title="Clear"
+          onPress={handleClear}
+          disabled={entries.length === 0}
+          variant="ghost"
+          size="small"
+          style={styles.actionButton}
+        />
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={item => item.id}
+        renderItem={renderEntry}
+        contentContainerStyle={entries.length === 0 ? styles.emptyContent : styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MaterialIcons name="history" size={48} color={theme.colors.textSubtle} />
+            <Text style={styles.emptyTitle}>No AutoStart Events</Text>
+            <Text style={styles.emptyText}>
+              Bluetooth connections, phase changes and trip starts will appear here
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+  },
+  emptyContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: theme.spacing.md,
+  },
+  entry: {
+    flexDirection: 'row',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderSubtle,
+  },
+  entryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: theme.borderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing.md,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryMessage: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.text,
+  },
+  entryDetails: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  entryTime: {
+    fontSize: theme.typography.labelSmall,
+    color: theme.colors.textSubtle,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+  },
+  emptyTitle: {
+    fontSize: theme.typography.headlineSmall,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptyText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+});
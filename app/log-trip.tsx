@@ -0,0 +1,474 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, Pressable, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { theme } from '../constants/theme';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { useTrips } from '../hooks/useTrips';
+import { useVehicles } from '../hooks/useVehicles';
+import { useAuth } from '../hooks/useAuth';
+import { useAlert } from '@/template';
+import { TripClassification } from '../types/trip';
+import { logManualTrip, previewManualTrip, type ManualTripInput } from '../services/manualTripService';
+
+type DistanceMode = 'distance' | 'odometer';
+type PickerTarget = 'date' | 'start' | 'end';
+
+const CLASSIFICATIONS: { value: TripClassification; label: string }[] = [
+  { value: 'business', label: 'Business' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'unclassified', label: 'Unclassified' },
+];
+
+function roundToMinute(date: Date): Date {
+  const rounded = new Date(date);
+  rounded.setSeconds(0, 0);
+  return rounded;
+}
+
+// Apply a time of day to a calendar date
+function atTimeOf(day: Date, time: Date): Date {
+  const combined = new Date(day);
+  combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return combined;
+}
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export default function LogTripScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { allTrips } = useTrips();
+  const { vehicles, activeVehicle } = useVehicles();
+  const { reloadVehicles } = useAuth();
+  const { showAlert } = useAlert();
+
+  const [vehicleId, setVehicleId] = useState<string | null>(null);
+  const [day, setDay] = useState(() => roundToMinute(new Date()));
+  const [startClock, setStartClock] = useState(() => roundToMinute(new Date(Date.now() - 60 * 60 * 1000)));
+  const [endClock, setEndClock] = useState(() => roundToMinute(new Date()));
+  const [picker, setPicker] = useState<PickerTarget | null>(null);
+  const [mode, setMode] = useState<DistanceMode>('distance');
+  const [distance, setDistance] = useState('');
+  const [startOdometer, setStartOdometer] = useState('');
+  const [endOdometer, setEndOdometer] = useState('');
+  const [classification, setClassification] = useState<TripClassification>('unclassified');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!vehicleId && (activeVehicle || vehicles.length > 0)) {
+      setVehicleId(activeVehicle?.id ?? vehicles[0].id);
+    }
+  }, [vehicleId, activeVehicle, vehicles]);
+
+  const vehicle = vehicles.find(v => v.id === vehicleId) ?? null;
+
+  const startTime = atTimeOf(day, startClock);
+  let endTime = atTimeOf(day, endClock);
+  // An end time earlier than the start means the drive crossed midnight
+  if (endTime.getTime() <= startTime.getTime()) {
+    endTime = new Date(endTime.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  const input: ManualTripInput | null = vehicle
+    ? {
+        vehicle,
+        startTime,
+        endTime,
+        distance: mode === 'distance' ? parseNumber(distance) : undefined,
+        startOdometer: mode === 'odometer' ? parseNumber(startOdometer) : undefined,
+        endOdometer: mode === 'odometer' ? parseNumber(endOdometer) : undefined,
+        classification,
+        notes,
+      }
+    : null;
+
+  const preview = input ? previewManualTrip(input, allTrips) : null;
+
+  const handlePickerChange = (event: DateTimePickerEvent, selected?: Date) => {
+    const target = picker;
+    // Android shows a dialog that closes itself; iOS stays inline until Done
+    if (Platform.OS === 'android') {
+      setPicker(null);
+    }
+    if (event.type !== 'set' || !selected) return;
+
+    if (target === 'date') setDay(selected);
+    if (target === 'start') setStartClock(selected);
+    if (target === 'end') setEndClock(selected);
+  };
+
+  const handleSave = async () => {
+    if (!input) {
+      showAlert('No Vehicle', 'Select a vehicle for this trip');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await logManualTrip(input);
+      if (!result.ok) {
+        showAlert('Cannot Log Trip', result.reason);
+        return;
+      }
+
+      try {
+        await reloadVehicles();
+      } catch (e) {
+        console.warn('[LogTrip] Failed to reload vehicles after logging trip:', e);
+      }
+
+      showAlert('Trip Logged', `${result.trip.calculatedDistance.toFixed(1)} mi added to your trip history`);
+      router.back();
+    } catch (error) {
+      console.error('[LogTrip] Failed to log trip:', error);
+      showAlert('Error', 'Failed to save trip');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatClock = (date: Date) =>
+    date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const pickerValue = picker === 'date' ? day : picker === 'start' ? startClock : endClock;
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Vehicle */}
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="directions-car" size={24} color={theme.colors.primary} />
+            <Text style={styles.sectionTitle}>Vehicle</Text>
+          </View>
+          {vehicles.length === 0 ? (
+            <Text style={styles.hintText}>No vehicles found. Add a vehicle in your GarageMinder account first.</Text>
+          ) : (
+            <View style={styles.optionPills}>
+              {vehicles.map(v => (
+                <Pressable
+                  key={v.id}
+                  style={[styles.optionPill, v.id === vehicleId && styles.optionPillActive]}
+                  onPress={() => setVehicleId(v.id)}
+                >
+                  <Text style={[styles.optionPillText, v.id === vehicleId && styles.optionPillTextActive]}>
+                    {v.year} {v.make} {v.model}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </Card>
+
+        {/* Time */}
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="schedule" size={24} color={theme.colors.primary} />
+            <Text style={styles.sectionTitle}>When</Text>
+          </View>
+
+          <View style={styles.timeFields}>
+            <Pressable style={styles.timeField} onPress={() => setPicker('date')}>
+              <Text style={styles.inputLabel}>Date</Text>
+              <Text style={styles.timeFieldValue}>{day.toLocaleDateString()}</Text>
+            </Pressable>
+            <Pressable style={styles.timeField} onPress={() => setPicker('start')}>
+              <Text style={styles.inputLabel}>Start</Text>
+              <Text style={styles.timeFieldValue}>{formatClock(startClock)}</Text>
+            </Pressable>
+            <Pressable style={styles.timeField} onPress={() => setPicker('end')}>
+              <Text style={styles.inputLabel}>End</Text>
+              <Text style={styles.timeFieldValue}>{formatClock(endClock)}</Text>
+            </Pressable>
+          </View>
+
+          {picker && (
+            <>
+              <DateTimePicker
+                value={pickerValue}
+                mode={picker === 'date' ? 'date' : 'time'}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                maximumDate={picker === 'date' ? new Date() : undefined}
+                onChange={handlePickerChange}
+                themeVariant="dark"
+              />
+              {Platform.OS === 'ios' && (
+                <Button title="Done" onPress={() => setPicker(null)} variant="ghost" size="small" />
+              )}
+            </>
+          )}
+        </Card>
+
+        {/* Distance */}
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="straighten" size={24} color={theme.colors.primary} />
+            <Text style={styles.sectionTitle}>Distance</Text>
+          </View>
+
+          <View style={[styles.optionPills, styles.modePills]}>
+            {(['distance', 'odometer'] as DistanceMode[]).map(option => (
+              <Pressable
+                key={option}
+                style={[styles.optionPill, mode === option && styles.optionPillActive]}
+                onPress={() => setMode(option)}
+              >
+                <Text style={[styles.optionPillText, mode === option && styles.optionPillTextActive]}>
+                  {option === 'distance' ? 'Miles Driven' : 'Odometer Readings'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {mode === 'distance' ? (
+            <View>
+              <Text style={styles.inputLabel}>Distance (miles)</Text>
+              <TextInput
+                style={styles.input}
+                value={distance}
+                onChangeText={setDistance}
+                placeholder="0.0"
+                placeholderTextColor={theme.colors.textSubtle}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          ) : (
+            <View style={styles.odometerInputs}>
+              <View style={styles.odometerInput}>
+                <Text style={styles.inputLabel}>Start Odometer</Text>
+                <TextInput
+                  style={styles.input}
+                  value={startOdometer}
+                  onChangeText={setStartOdometer}
+                  placeholder={vehicle ? Math.round(vehicle.currentOdometer).toString() : '0'}
+                  placeholderTextColor={theme.colors.textSubtle}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.odometerInput}>
+                <Text style={styles.inputLabel}>End Odometer</Text>
+                <TextInput
+                  style={styles.input}
+                  value={endOdometer}
+                  onChangeText={setEndOdometer}
+                  placeholder={vehicle ? Math.round(vehicle.currentOdometer).toString() : '0'}
+                  placeholderTextColor={theme.colors.textSubtle}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+          )}
+
+          {preview && (
+            preview.ok ? (
+              <View style={styles.previewBanner}>
+                <MaterialIcons name="speed" size={16} color={theme.colors.primary} />
+                <Text style={styles.previewText}>
+                  Odometer {preview.slot.startOdometer.toFixed(1)} → {preview.slot.endOdometer.toFixed(1)} mi
+                  {preview.slot.nextTrip ? ' (before your next logged trip)' : ''}
+                </Text>
+              </View>
+            ) : (
+              <View style={[styles.previewBanner, styles.previewBannerWarning]}>
+                <MaterialIcons name="info" size={16} color={theme.colors.warning} />
+                <Text style={[styles.previewText, { color: theme.colors.warning }]}>{preview.reason}</Text>
+              </View>
+            )
+          )}
+        </Card>
+
+        {/* Classification */}
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="label" size={24} color={theme.colors.primary} />
+            <Text style={styles.sectionTitle}>Classification</Text>
+          </View>
+          <View style={styles.optionPills}>
+            {CLASSIFICATIONS.map(option => (
+              <Pressable
+                key={option.value}
+                style={[styles.optionPill, classification === option.value && styles.optionPillActive]}
+                onPress={() => setClassification(option.value)}
+              >
+                <Text style={[styles.optionPillText, classification === option.value && styles.optionPillTextActive]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </Card>
+
+        {/* Notes */}
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="notes" size={24} color={theme.colors.primary} />
+            <Text style={styles.sectionTitle}>Notes</Text>
+          </View>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Where did you go?"
+            placeholderTextColor={theme.colors.textSubtle}
+            multiline
+            numberOfLines={4}
+            textAlignVertical="top"
+          />
+        </Card>
+
+        <Button
+          title="Save Trip"
+          onPress={handleSave}
+          loading={saving}
+          disabled={saving || !preview?.ok}
+          style={styles.saveButton}
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: theme.spacing.md,
+  },
+  section: {
+    marginBottom: theme.spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.bodyLarge,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.sm,
+    includeFontPadding: false,
+  },
+  hintText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.textSecondary,
+  },
+  optionPills: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  modePills: {
+    marginBottom: theme.spacing.md,
+  },
+  optionPill: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionPillActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  optionPillText: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    fontWeight: theme.typography.weightMedium,
+  },
+  optionPillTextActive: {
+    color: theme.colors.textInverse,
+  },
+  timeFields: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  timeField: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  timeFieldValue: {
+    fontSize: theme.typography.bodyMedium,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    includeFontPadding: false,
+  },
+  inputLabel: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+    includeFontPadding: false,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  odometerInputs: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  odometerInput: {
+    flex: 1,
+  },
+  previewBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: `${theme.colors.primary}15`,
+  },
+  previewBannerWarning: {
+    backgroundColor: `${theme.colors.warning}20`,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.text,
+  },
+  notesInput: {
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    minHeight: 100,
+  },
+  saveButton: {
+    width: '100%',
+    marginTop: theme.spacing.sm,
+  },
+});
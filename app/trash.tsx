@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { theme } from '../constants/theme';
+import { Button } from '../components/ui/Button';
+import { TripListItem } from '../components/trip/TripListItem';
+import { useVehicles } from '../hooks/useVehicles';
+import { useAuth } from '../hooks/useAuth';
+import { useAlert } from '@/template';
+import { restoreTrip, getTrashedTrips, purgeTrips } from '../services/tripService';
+import {
+  getTrashSettings,
+  getDaysUntilPurge,
+  purgeExpiredTrash,
+  emptyTrash,
+  type TrashSettings,
+} from '../services/trashService';
+import type { TrashedTrip } from '../services/tripRecords';
+
+function formatPurgeCountdown(days: number): string {
+  if (days === 0) return 'Deleted for good today';
+  return `Deleted for good in ${days} day${days !== 1 ? 's' : ''}`;
+}
+
+export default function TrashScreen() {
+  const insets = useSafeAreaInsets();
+  const { showAlert } = useAlert();
+  const { vehicles } = useVehicles();
+  const { reloadVehicles } = useAuth();
+  const [entries, setEntries] = useState<TrashedTrip[]>([]);
+  const [settings, setSettings] = useState<TrashSettings | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    await purgeExpiredTrash();
+    const [trash, trashSettings] = await Promise.all([getTrashedTrips(), getTrashSettings()]);
+    setEntries(trash);
+    setSettings(trashSettings);
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadTrash();
+    setRefreshing(false);
+  };
+
+  const handleRestore = async (entry: TrashedTrip) => {
+    try {
+      await restoreTrip(entry.trip.id);
+      await reloadVehicles(); // the vehicle's odometer may have moved forward again
+      await loadTrash();
+    } catch (error) {
+      console.error('[TrashScreen] Failed to restore trip:', error);
+      showAlert('Restore Failed', 'Unable to restore this trip. Please try again.');
+    }
+  };
+
+  const handleTripPress = (entry: TrashedTrip) => {
+    showAlert('Deleted Trip', `Deleted ${new Date(entry.deletedAt).toLocaleDateString()}`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete Forever',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await purgeTrips([entry.trip.id]);
+            await loadTrash();
+          } catch (error) {
+            console.error('[TrashScreen] Failed to delete trip:', error);
+            showAlert('Delete Failed', 'Unable to delete this trip. Please try again.');
+          }
+        },
+      },
+      { text: 'Restore', onPress: () => handleRestore(entry) },
+    ]);
+  };
+
+  const handleEmpty = () => {
+    showAlert('Empty Trash?', 'All trips in the Trash will be deleted for good, routes included.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Empty',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await emptyTrash();
+            setEntries([]);
+          } catch (error) {
+            console.error('[TrashScreen] Failed to empty the trash:', error);
+            showAlert('Empty Failed', 'Unable to empty the Trash. Please try again.');
+            await loadTrash().catch(() => {});
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: TrashedTrip }) => (
+    <View style={styles.entry}>
+      <TripListItem
+        trip={item.trip}
+        vehicle={vehicles.find(v => v.id === item.trip.vehicleId) || null}
+        onPress={() => handleTripPress(item)}
+      />
+      {settings && (
+        <View style={styles.purgeRow}>
+          <MaterialIcons name="schedule" size={14} color={theme.colors.textSubtle} />
+          <Text style={styles.purgeText}>{formatPurgeCountdown(getDaysUntilPurge(item, settings))}</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.actions}>
+        <Text style={styles.hint}>
+          {settings
+            ? `Deleted trips are kept for ${settings.retentionDays} days. Tap one to restore it.`
+            : ' '}
+        </Text>
+        <Button
+          title="Empty"
+          onPress={handleEmpty}
+          disabled={entries.length === 0}
+          variant="ghost"
+          size="small"
+        />
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={item => item.trip.id}
+        renderItem={renderEntry}
+        contentContainerStyle={entries.length === 0 ? styles.emptyContent : styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MaterialIcons name="delete-outline" size={48} color={theme.colors.textSubtle} />
+            <Text style={styles.emptyTitle}>Trash Is Empty</Text>
+            <Text style={styles.emptyText}>
+              Deleted trips stay here for a while so you can restore them
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  hint: {
+    flex: 1,
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+  },
+  emptyContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: theme.spacing.md,
+  },
+  entry: {
+    marginBottom: theme.spacing.sm,
+  },
+  purgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  purgeText: {
+    fontSize: theme.typography.labelSmall,
+    color: theme.colors.textSubtle,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+  },
+  emptyTitle: {
+    fontSize: theme.typography.headlineSmall,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptyText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+});
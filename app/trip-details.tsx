@@ -12,12 +12,20 @@ import { useVehicles } from '../hooks/useVehicles';
 import { useAuth } from '../hooks/useAuth';
 import { useAlert } from '@/template';
 import { Trip } from '../types/trip';
+import { getRouteSummary, summarizeRoute, type RouteSummary } from '../services/routeService';
+import {
+  detectTripStops,
+  findMergeCandidates,
+  splitTripAtStops,
+  mergeTrips,
+  type TripStop,
+} from '../services/tripSegmentationService';
 
 export default function TripDetailsScreen() {
   const { tripId } = useLocalSearchParams();
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { allTrips, updateTrip, deleteTrip } = useTrips();
+  const { allTrips, updateTrip, deleteTrip, refreshTrips } = useTrips();
   const { vehicles } = useVehicles();
   const { reloadVehicles } = useAuth();
   const { showAlert } = useAlert();
@@ -26,6 +34,8 @@ export default function TripDetailsScreen() {
   const [adjustedDistance, setAdjustedDistance] = useState('');
   const [notes, setNotes] = useState('');
   const [isEditing, setIsEditing] = useState(false);
+  const [routeSummary, setRouteSummary] = useState<RouteSummary>(() => summarizeRoute([]));
+  const [stops, setStops] = useState<TripStop[]>([]);
 
   useEffect(() => {
     const foundTrip = allTrips.find(t => t.id === tripId);
@@ -36,6 +46,13 @@ export default function TripDetailsScreen() {
     }
   }, [tripId, allTrips]);
 
+  // Reload when the trip list changes — a split or merge rewrites the route
+  useEffect(() => {
+    if (typeof tripId !== 'string') return;
+    getRouteSummary(tripId).then(setRouteSummary);
+    detectTripStops(tripId).then(setStops);
+  }, [tripId, allTrips]);
+
   if (!trip) {
     return (
       <View style={styles.container}>
@@ -51,6 +68,22 @@ export default function TripDetailsScreen() {
     ? Math.abs(trip.adjustedDistance! - trip.calculatedDistance)
     : 0;
 
+  const pauses = trip.pauses ?? [];
+  const totalPausedMs = pauses.reduce((sum, pause) => sum + ((pause.endedAt ?? pause.startedAt) - pause.startedAt), 0);
+
+  const mergeCandidate = trip.status !== 'active'
+    ? findMergeCandidates(allTrips).find(c => c.first.id === trip.id || c.second.id === trip.id) ?? null
+    : null;
+  const canSplit = trip.status !== 'active' && stops.length > 0;
+
+  const trackingGaps = trip.trackingGaps ?? [];
+  const obdDistance = trip.distanceSource === 'obd' ? trip.obdDistance : undefined;
+  const distanceLabel = trip.source === 'imported' ? 'From GPX Track'
+    : trip.source === 'manual' ? 'Entered'
+    : obdDistance ? (obdDistance.method === 'odometer' ? 'OBD-II Odometer' : 'OBD-II Speed')
+    : 'GPS Calculated';
+  const totalGapMs = trackingGaps.reduce((sum, gap) => sum + (gap.endedAt - gap.startedAt), 0);
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       weekday: 'long',
@@ -98,15 +131,66 @@ export default function TripDetailsScreen() {
     setIsEditing(false);
   };
 
+  const handleSplit = () => {
+    showAlert(
+      'Split Trip?',
+      `This trip will be split into ${stops.length + 1} trips at the detected stops. Distance and odometer readings are shared out by route length.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Split',
+          onPress: async () => {
+            const result = await splitTripAtStops(trip.id, stops);
+            if (!result.ok) {
+              showAlert('Cannot Split Trip', result.reason);
+              return;
+            }
+            await refreshTrips();
+            showAlert('Trip Split', `Created ${result.trips.length} trips`);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleMerge = () => {
+    if (!mergeCandidate) return;
+    const other = mergeCandidate.first.id === trip.id ? mergeCandidate.second : mergeCandidate.first;
+
+    showAlert(
+      'Merge Trips?',
+      `Combine this trip with the one ${other === mergeCandidate.second ? 'after' : 'before'} it into a single trip.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            const result = await mergeTrips(mergeCandidate.first.id, mergeCandidate.second.id);
+            if (!result.ok) {
+              showAlert('Cannot Merge Trips', result.reason);
+              return;
+            }
+            await refreshTrips();
+            // The merged trip keeps the first trip's id
+            if (trip.id !== result.trips[0].id) {
+              router.replace({ pathname: '/trip-details', params: { tripId: result.trips[0].id } });
+            }
+            showAlert('Trips Merged', 'The two trips are now one');
+          },
+        },
+      ]
+    );
+  };
+
   const handleDelete = () => {
-    showAlert('Delete Trip?', 'This action cannot be undone', [
+    showAlert('Delete Trip?', 'The trip moves to the Trash, where you can restore it until it is deleted for good.', [
       { text: 'Cancel', style: 'cancel' },
       { 
         text: 'Delete', 
         style: 'destructive', 
         onPress: async () => {
+          // The trips screen shows an undo snackbar
           await deleteTrip(trip.id);
-          showAlert('Deleted', 'Trip has been deleted');
           router.back();
         }
       },
@@ -126,6 +210,18 @@ export default function TripDetailsScreen() {
             status={trip.status === 'completed' ? 'pending' : trip.status} 
             label={trip.status === 'completed' ? 'Pending Sync' : trip.status} 
           />
+          {trip.source === 'imported' && (
+            <View style={styles.sourceTag}>
+              <MaterialIcons name="file-upload" size={14} color={theme.colors.textSecondary} />
+              <Text style={styles.sourceTagText}>Imported from GPX</Text>
+            </View>
+          )}
+          {trip.source === 'manual' && (
+            <View style={styles.sourceTag}>
+              <MaterialIcons name="edit-note" size={14} color={theme.colors.textSecondary} />
+              <Text style={styles.sourceTagText}>Entered manually</Text>
+            </View>
+          )}
         </View>
 
         {/* Vehicle Card */}
@@ -148,7 +244,7 @@ export default function TripDetailsScreen() {
           
           <View style={styles.distanceRow}>
             <View style={styles.distanceItem}>
-              <Text style={styles.distanceLabel}>GPS Calculated</Text>
+              <Text style={styles.distanceLabel}>{distanceLabel}</Text>
               <Text style={styles.distanceValue}>{trip.calculatedDistance.toFixed(2)} mi</Text>
             </View>
             
@@ -174,6 +270,17 @@ export default function TripDetailsScreen() {
             </View>
           )}
 
+          {obdDistance?.lostAt && (
+            <View style={styles.discrepancyBanner}>
+              <MaterialIcons name="gps-fixed" size={16} color={theme.colors.warning} />
+              <Text style={styles.discrepancyText}>
+                {obdDistance.adapterName} stopped answering at{' '}
+                {new Date(obdDistance.lostAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {' '}after {(obdDistance.milesAtLoss ?? 0).toFixed(2)} mi — GPS measured the rest
+              </Text>
+            </View>
+          )}
+
           {isEditing && (
             <View style={styles.editField}>
               <Text style={styles.inputLabel}>Adjust Distance (miles)</Text>
@@ -213,9 +320,144 @@ export default function TripDetailsScreen() {
               <Text style={styles.timeLabel}>Duration</Text>
               <Text style={styles.timeValue}>{formatDuration(trip.duration)}</Text>
             </View>
+
+            {pauses.length > 0 && (
+              <>
+                <View style={styles.timeItem}>
+                  <Text style={styles.timeLabel}>Moving Time</Text>
+                  <Text style={styles.timeValue}>{formatDuration(trip.movingDuration ?? trip.duration - totalPausedMs)}</Text>
+                </View>
+                <View style={styles.timeItem}>
+                  <Text style={styles.timeLabel}>Paused</Text>
+                  <Text style={styles.timeValue}>
+                    {formatDuration(totalPausedMs)} ({pauses.length} stop{pauses.length === 1 ? '' : 's'})
+                  </Text>
+                </View>
+              </>
+            )}
           </View>
+
+          {trackingGaps.length > 0 && (
+            <View style={styles.discrepancyBanner}>
+              <MaterialIcons name="gps-off" size={16} color={theme.colors.warning} />
+              <Text style={styles.discrepancyText}>
+                No GPS for {formatDuration(totalGapMs)} across {trackingGaps.length} gap{trackingGaps.length === 1 ? '' : 's'}
+                {' '}({trackingGaps.map(gap => new Date(gap.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })).join(', ')})
+              </Text>
+            </View>
+          )}
+
+          {trip.autoStopFallback && (
+            <View style={styles.discrepancyBanner}>
+              <MaterialIcons name="bluetooth-disabled" size={16} color={theme.colors.warning} />
+              <Text style={styles.discrepancyText}>
+                Bluetooth was switched off at{' '}
+                {new Date(trip.autoStopFallback.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {' '}— from then on the trip was set to end once the car stopped moving, not on disconnect
+              </Text>
+            </View>
+          )}
         </Card>
 
+        {/* Route Card */}
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="route" size={24} color={theme.colors.primary} />
+            <Text style={styles.sectionTitle}>GPS Route</Text>
+          </View>
+
+          {routeSummary.pointCount === 0 ? (
+            <Text style={[styles.notesText, { fontStyle: 'italic' }]}>No GPS route recorded</Text>
+          ) : (
+            <View style={styles.timeRow}>
+              <View style={styles.timeItem}>
+                <Text style={styles.timeLabel}>Recorded Points</Text>
+                <Text style={styles.timeValue}>
+                  {routeSummary.pointCount.toLocaleString()}
+                  {routeSummary.storedPointCount < routeSummary.pointCount
+                    ? ` (${routeSummary.storedPointCount.toLocaleString()} kept after simplification)`
+                    : ''}
+                </Text>
+              </View>
+
+              {routeSummary.firstFixAt !== null && routeSummary.lastFixAt !== null && (
+                <View style={styles.timeItem}>
+                  <Text style={styles.timeLabel}>First / Last Fix</Text>
+                  <Text style={styles.timeValue}>
+                    {new Date(routeSummary.firstFixAt).toLocaleTimeString()} – {new Date(routeSummary.lastFixAt).toLocaleTimeString()}
+                  </Text>
+                </View>
+              )}
+
+              {routeSummary.maxSpeedMph !== null && (
+                <View style={styles.timeItem}>
+                  <Text style={styles.timeLabel}>Max Speed</Text>
+                  <Text style={styles.timeValue}>{routeSummary.maxSpeedMph.toFixed(0)} mph</Text>
+                </View>
+              )}
+
+              {(trip.rejectedPointCount ?? 0) > 0 && (
+                <View style={styles.timeItem}>
+                  <Text style={styles.timeLabel}>Filtered Out (noisy fixes)</Text>
+                  <Text style={styles.timeValue}>{trip.rejectedPointCount!.toLocaleString()}</Text>
+                </View>
+              )}
+
+              {routeSummary.averageAccuracy !== null && (
+                <View style={styles.timeItem}>
+                  <Text style={styles.timeLabel}>Average Accuracy</Text>
+                  <Text style={styles.timeValue}>±{routeSummary.averageAccuracy.toFixed(0)} m</Text>
+                </View>
+              )}
+            </View>
+          )}
+        </Card>
+
+        {/* Segments Card */}
+        {(canSplit || mergeCandidate) && (
+          <Card style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="call-split" size={24} color={theme.colors.primary} />
+              <Text style={styles.sectionTitle}>Stops & Segments</Text>
+            </View>
+
+            {canSplit && (
+              <View style={styles.segmentItem}>
+                <Text style={styles.notesText}>
+                  {stops.length} stop{stops.length === 1 ? '' : 's'} detected:{' '}
+                  {stops.map(stop =>
+                    `${new Date(stop.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} (${formatDuration(stop.endedAt - stop.startedAt)})`
+                  ).join(', ')}
+                </Text>
+                <Button
+                  title={`Split into ${stops.length + 1} Trips`}
+                  onPress={handleSplit}
+                  variant="secondary"
+                  size="small"
+                  style={styles.segmentButton}
+                />
+              </View>
+            )}
+
+            {mergeCandidate && (
+              <View style={styles.segmentItem}>
+                <Text style={styles.notesText}>
+                  {mergeCandidate.first.id === trip.id
+                    ? `The next trip started ${formatDuration(mergeCandidate.gapMs)} after this one ended.`
+                    : `This trip started ${formatDuration(mergeCandidate.gapMs)} after the previous one ended.`}
+                </Text>
+                <Button
+                  title={mergeCandidate.first.id === trip.id ? 'Merge with Next Trip' : 'Merge with Previous Trip'}
+                  onPress={handleMerge}
+                  variant="secondary"
+                  size="small"
+                  style={styles.segmentButton}
+                />
+              </View>
+            )}
+          </Card>
+        )}
+
         {/* Odometer Card */}
         <Card style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -326,9 +568,25 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing.xl,
   },
   statusRow: {
-    alignItems: 'flex-start',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
     marginBottom: theme.spacing.md,
   },
+  sourceTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 4,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.surface,
+  },
+  sourceTagText: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    includeFontPadding: false,
+  },
   section: {
     marginBottom: theme.spacing.md,
   },
@@ -371,6 +629,13 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     includeFontPadding: false,
   },
+  segmentItem: {
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  segmentButton: {
+    alignSelf: 'flex-start',
+  },
   discrepancyBanner: {
     flexDirection: 'row',
     alignItems: 'center',
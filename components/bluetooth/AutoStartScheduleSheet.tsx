@@ -0,0 +1,399 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Switch,
+  TextInput,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { theme } from '../../constants/theme';
+import { Button } from '../ui/Button';
+import {
+  DEFAULT_AUTOSTART_SCHEDULE,
+  formatScheduleSummary,
+  formatScheduleTime,
+  getDayLabel,
+  parseScheduleTime,
+  type AutoStartSchedule,
+  type AutoStartScheduleWindow,
+} from '../../services/autoStartScheduleService';
+
+interface AutoStartScheduleSheetProps {
+  visible: boolean;
+  title: string;
+  schedule: AutoStartSchedule | null;    // null = the device follows the global schedule
+  globalSchedule?: AutoStartSchedule;    // pass for a device to offer "Use global schedule"
+  onSave: (schedule: AutoStartSchedule | null) => void;
+  onClose: () => void;
+}
+
+// Times are edited as text and only parsed on save
+interface WindowDraft {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+const DAYS = [1, 2, 3, 4, 5, 6, 0]; // Monday first
+
+function toDrafts(schedule: AutoStartSchedule): WindowDraft[] {
+  return schedule.windows.map(window => ({
+    days: window.days,
+    start: formatScheduleTime(window.startMinutes),
+    end: formatScheduleTime(window.endMinutes),
+  }));
+}
+
+export function AutoStartScheduleSheet({
+  visible,
+  title,
+  schedule,
+  globalSchedule,
+  onSave,
+  onClose,
+}: AutoStartScheduleSheetProps) {
+  const insets = useSafeAreaInsets();
+  const isDevice = globalSchedule !== undefined;
+  const [useGlobal, setUseGlobal] = useState(false);
+  const [onlyInsideWindows, setOnlyInsideWindows] = useState(false);
+  const [classifyAsBusiness, setClassifyAsBusiness] = useState(false);
+  const [windows, setWindows] = useState<WindowDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start every opening from the saved schedule
+  useEffect(() => {
+    if (!visible) return;
+    const initial = schedule ?? globalSchedule ?? DEFAULT_AUTOSTART_SCHEDULE;
+    setUseGlobal(isDevice && schedule === null);
+    setOnlyInsideWindows(initial.onlyInsideWindows);
+    setClassifyAsBusiness(initial.classifyAsBusiness);
+    setWindows(toDrafts(initial));
+    setError(null);
+  }, [visible, schedule, globalSchedule, isDevice]);
+
+  const updateWindow = (index: number, partial: Partial<WindowDraft>) => {
+    setWindows(current => current.map((w, i) => (i === index ? { ...w, ...partial } : w)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  const handleAddWindow = () => {
+    setWindows(current => [...current, ...toDrafts(DEFAULT_AUTOSTART_SCHEDULE)]);
+  };
+
+  const handleSave = () => {
+    if (useGlobal) {
+      onSave(null);
+      return;
+    }
+
+    const parsed: AutoStartScheduleWindow[] = [];
+    for (const [index, window] of windows.entries()) {
+      const startMinutes = parseScheduleTime(window.start);
+      const endMinutes = parseScheduleTime(window.end);
+      if (startMinutes === null || endMinutes === null) {
+        setError(`Window ${index + 1}: enter times as HH:MM, e.g. 08:00`);
+        return;
+      }
+      if (window.days.length === 0) {
+        setError(`Window ${index + 1}: pick at least one day`);
+        return;
+      }
+      if (startMinutes === endMinutes) {
+        setError(`Window ${index + 1}: start and end can't be the same time`);
+        return;
+      }
+      parsed.push({ days: [...window.days].sort((a, b) => a - b), startMinutes, endMinutes });
+    }
+
+    onSave({ windows: parsed, onlyInsideWindows, classifyAsBusiness });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.subtitle}>
+          Limit AutoStart to certain hours, or mark trips in those hours as business
+        </Text>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          {isDevice && (
+            <View style={styles.toggleRow}>
+              <View style={styles.toggleText}>
+                <Text style={styles.toggleTitle}>Use Global Schedule</Text>
+                <Text style={styles.toggleHint}>{formatScheduleSummary(globalSchedule)}</Text>
+              </View>
+              <Switch
+                value={useGlobal}
+                onValueChange={setUseGlobal}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                thumbColor={theme.colors.text}
+              />
+            </View>
+          )}
+
+          {!useGlobal && (
+            <>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleText}>
+                  <Text style={styles.toggleTitle}>Only Inside These Hours</Text>
+                  <Text style={styles.toggleHint}>Skip AutoStart outside the windows below</Text>
+                </View>
+                <Switch
+                  value={onlyInsideWindows}
+                  onValueChange={setOnlyInsideWindows}
+                  trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                  thumbColor={theme.colors.text}
+                />
+              </View>
+
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleText}>
+                  <Text style={styles.toggleTitle}>Mark as Business</Text>
+                  <Text style={styles.toggleHint}>Trips that start inside a window are classified as business</Text>
+                </View>
+                <Switch
+                  value={classifyAsBusiness}
+                  onValueChange={setClassifyAsBusiness}
+                  trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                  thumbColor={theme.colors.text}
+                />
+              </View>
+
+              {windows.map((window, index) => (
+                <View key={index} style={styles.windowCard}>
+                  <View style={styles.dayRow}>
+                    {DAYS.map(day => {
+                      const selected = window.days.includes(day);
+                      return (
+                        <Pressable
+                          key={day}
+                          style={[styles.dayChip, selected && styles.dayChipActive]}
+                          onPress={() => toggleDay(index, day)}
+                        >
+                          <Text style={[styles.dayChipText, selected && styles.dayChipTextActive]}>
+                            {getDayLabel(day).charAt(0)}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                  <View style={styles.timeRow}>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={window.start}
+                      onChangeText={start => updateWindow(index, { start })}
+                      placeholder="08:00"
+                      placeholderTextColor={theme.colors.textSubtle}
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                    />
+                    <Text style={styles.timeSeparator}>to</Text>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={window.end}
+                      onChangeText={end => updateWindow(index, { end })}
+                      placeholder="18:00"
+                      placeholderTextColor={theme.colors.textSubtle}
+                      keyboardType="numbers-and-punctuation"
+                      maxLength={5}
+                    />
+                    <Pressable
+                      style={styles.removeButton}
+                      onPress={() => setWindows(current => current.filter((_, i) => i !== index))}
+                    >
+                      <MaterialIcons name="delete-outline" size={20} color={theme.colors.error} />
+                    </Pressable>
+                  </View>
+                </View>
+              ))}
+
+              <Pressable style={styles.addWindowButton} onPress={handleAddWindow}>
+                <MaterialIcons name="add" size={18} color={theme.colors.primary} />
+                <Text style={styles.addWindowText}>Add Window</Text>
+              </Pressable>
+
+              <Text style={styles.windowHint}>
+                An end time earlier than the start runs past midnight
+              </Text>
+            </>
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+        </ScrollView>
+
+        <View style={styles.actions}>
+          <Button title="Cancel" onPress={onClose} variant="ghost" style={styles.actionButton} />
+          <Button title="Save" onPress={handleSave} style={styles.actionButton} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: theme.spacing.lg,
+    maxHeight: '85%',
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: theme.colors.border,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  title: {
+    fontSize: theme.typography.bodyLarge,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+    lineHeight: theme.typography.bodySmall * 1.4,
+  },
+  content: {
+    flexGrow: 0,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+  },
+  toggleText: {
+    flex: 1,
+  },
+  toggleTitle: {
+    fontSize: theme.typography.bodyMedium,
+    fontWeight: theme.typography.weightMedium,
+    color: theme.colors.text,
+  },
+  toggleHint: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  windowCard: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.spacing.md,
+    marginTop: theme.spacing.md,
+    gap: theme.spacing.md,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dayChip: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  dayChipText: {
+    fontSize: theme.typography.bodySmall,
+    fontWeight: theme.typography.weightMedium,
+    color: theme.colors.textSecondary,
+  },
+  dayChipTextActive: {
+    color: theme.colors.textInverse,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  timeInput: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.text,
+    textAlign: 'center',
+  },
+  timeSeparator: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+  },
+  removeButton: {
+    padding: theme.spacing.xs,
+  },
+  addWindowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    borderStyle: 'dashed',
+    marginTop: theme.spacing.md,
+  },
+  addWindowText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weightMedium,
+  },
+  windowHint: {
+    fontSize: theme.typography.labelSmall,
+    color: theme.colors.textSubtle,
+    marginTop: theme.spacing.sm,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.error,
+    marginTop: theme.spacing.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,434 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { theme } from '../../constants/theme';
+import { Button } from '../ui/Button';
+import { formatDecodedVin, type VinMatchConfidence } from '../../services/vinService';
+import {
+  lookupVin,
+  readVinFromObd,
+  autoLinkVinMatch,
+  getDeviceMappingSuggestions,
+  linkDeviceToVehicle,
+  type VinLookup,
+  type DeviceMappingSuggestion,
+} from '../../services/vinMatchService';
+
+interface VinMatchSheetProps {
+  visible: boolean;
+  obdAvailable: boolean;          // offer "Read from OBD-II"
+  onLinked: () => void;           // a device mapping was created or changed
+  onClose: () => void;
+}
+
+const CONFIDENCE_LABELS: Record<VinMatchConfidence, string> = {
+  exact: 'VIN match',
+  likely: 'Likely',
+  possible: 'Possible',
+};
+
+export function VinMatchSheet({ visible, obdAvailable, onLinked, onClose }: VinMatchSheetProps) {
+  const insets = useSafeAreaInsets();
+  const [vinInput, setVinInput] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lookup, setLookup] = useState<VinLookup | null>(null);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<DeviceMappingSuggestion[]>([]);
+  const [linkedMessage, setLinkedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setVinInput('');
+    setError(null);
+    setLookup(null);
+    setSelectedVehicleId(null);
+    setSuggestions([]);
+    setLinkedMessage(null);
+  }, [visible]);
+
+  // Devices to offer follow the selected vehicle
+  useEffect(() => {
+    if (!selectedVehicleId) {
+      setSuggestions([]);
+      return;
+    }
+    getDeviceMappingSuggestions(selectedVehicleId)
+      .then(setSuggestions)
+      .catch(err => {
+        console.error('[VinMatchSheet] Failed to list connected devices:', err);
+        setSuggestions([]);
+        setError('Unable to list connected Bluetooth devices');
+      });
+  }, [selectedVehicleId]);
+
+  const selectedMatch = lookup?.matches.find(m => m.vehicle.id === selectedVehicleId) ?? null;
+
+  const runLookup = async (vin: string) => {
+    setError(null);
+    setLinkedMessage(null);
+    const result = await lookupVin(vin);
+    if (!result.ok) {
+      setLookup(null);
+      setError(result.reason);
+      return;
+    }
+
+    setLookup(result.lookup);
+    setSelectedVehicleId(result.lookup.match?.vehicle.id ?? result.lookup.matches[0]?.vehicle.id ?? null);
+
+    try {
+      const linked = await autoLinkVinMatch(result.lookup);
+      if (linked && result.lookup.match) {
+        const vehicle = result.lookup.match.vehicle;
+        setLinkedMessage(`Linked ${linked.device.name} to ${vehicle.year} ${vehicle.make} ${vehicle.model} — AutoStart will use it from now on`);
+        setSuggestions([]);
+        onLinked();
+      }
+    } catch (err) {
+      console.error('[VinMatchSheet] Automatic link failed:', err);
+      setError('Unable to link the connected device automatically. Pick it below to try again.');
+    }
+  };
+
+  const handleDecode = async () => {
+    setIsBusy(true);
+    try {
+      await runLookup(vinInput);
+    } catch (err) {
+      console.error('[VinMatchSheet] VIN lookup failed:', err);
+      setError('Unable to look up this VIN. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReadFromObd = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await readVinFromObd();
+      if (!result.ok) {
+        setError(result.reason);
+        return;
+      }
+      setVinInput(result.vin);
+      await runLookup(result.vin);
+    } catch (err) {
+      console.error('[VinMatchSheet] Reading the VIN from OBD-II failed:', err);
+      setError('Unable to read the VIN from the adapter. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLink = async (suggestion: DeviceMappingSuggestion) => {
+    if (!selectedMatch) return;
+    const vehicle = selectedMatch.vehicle;
+    setError(null);
+    try {
+      await linkDeviceToVehicle(suggestion, vehicle);
+    } catch (err) {
+      console.error('[VinMatchSheet] Failed to link device:', err);
+      setError(`Unable to link ${suggestion.device.name}. Please try again.`);
+      return;
+    }
+    setLinkedMessage(`Linked ${suggestion.device.name} to ${vehicle.year} ${vehicle.make} ${vehicle.model}`);
+    onLinked();
+    try {
+      setSuggestions(await getDeviceMappingSuggestions(vehicle.id));
+    } catch (err) {
+      console.error('[VinMatchSheet] Failed to list connected devices:', err);
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        <Text style={styles.title}>Identify Vehicle by VIN</Text>
+        <Text style={styles.subtitle}>
+          Match the car you&apos;re in to one of your vehicles, then link its Bluetooth for AutoStart
+        </Text>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <TextInput
+            style={styles.vinInput}
+            value={vinInput}
+            onChangeText={setVinInput}
+            placeholder="17-character VIN"
+            placeholderTextColor={theme.colors.textSubtle}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={20}
+          />
+
+          <View style={styles.actions}>
+            {obdAvailable && (
+              <Button
+                title="Read from OBD-II"
+                variant="secondary"
+                onPress={handleReadFromObd}
+                disabled={isBusy}
+                style={styles.actionButton}
+              />
+            )}
+            <Button
+              title="Decode"
+              onPress={handleDecode}
+              loading={isBusy}
+              disabled={vinInput.trim().length === 0}
+              style={styles.actionButton}
+            />
+          </View>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {lookup && (
+            <View style={styles.decodedCard}>
+              <Text style={styles.decodedVin}>{lookup.decoded.vin}</Text>
+              <Text style={styles.decodedSummary}>{formatDecodedVin(lookup.decoded)}</Text>
+              {lookup.decoded.checkDigitValid === false && (
+                <Text style={styles.warningText}>
+                  The check digit doesn&apos;t add up — double-check the VIN for a mistyped character.
+                  Nothing is linked automatically; pick a device below if the vehicle is right.
+                </Text>
+              )}
+            </View>
+          )}
+
+          {lookup && lookup.matches.length === 0 && (
+            <Text style={styles.hintText}>No vehicle in your account matches this VIN</Text>
+          )}
+
+          {lookup?.matches.map(match => {
+            const selected = match.vehicle.id === selectedVehicleId;
+            return (
+              <Pressable
+                key={match.vehicle.id}
+                style={[styles.matchRow, selected && styles.matchRowSelected]}
+                onPress={() => setSelectedVehicleId(match.vehicle.id)}
+              >
+                <MaterialIcons
+                  name={selected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={20}
+                  color={selected ? theme.colors.primary : theme.colors.textSubtle}
+                />
+                <View style={styles.matchText}>
+                  <Text style={styles.matchName}>
+                    {match.vehicle.year} {match.vehicle.make} {match.vehicle.model}
+                  </Text>
+                  <Text style={styles.matchReason}>{match.reason}</Text>
+                </View>
+                <Text style={styles.matchConfidence}>{CONFIDENCE_LABELS[match.confidence]}</Text>
+              </Pressable>
+            );
+          })}
+
+          {linkedMessage && (
+            <View style={styles.linkedBanner}>
+              <MaterialIcons name="check-circle" size={16} color={theme.colors.success} />
+              <Text style={styles.linkedText}>{linkedMessage}</Text>
+            </View>
+          )}
+
+          {selectedMatch && suggestions.map(suggestion => (
+            <Pressable
+              key={suggestion.device.id}
+              style={({ pressed }) => [styles.deviceRow, pressed && styles.deviceRowPressed]}
+              onPress={() => handleLink(suggestion)}
+            >
+              <MaterialIcons name="bluetooth-connected" size={20} color={theme.colors.primary} />
+              <View style={styles.matchText}>
+                <Text style={styles.matchName}>Link {suggestion.device.name}</Text>
+                <Text style={styles.matchReason}>
+                  {suggestion.mapping?.vehicleId
+                    ? `Currently starts trips for ${suggestion.mapping.vehicleName}`
+                    : 'Connected now — start trips for this vehicle when it connects'}
+                </Text>
+              </View>
+            </Pressable>
+          ))}
+
+          {selectedMatch && suggestions.length === 0 && !linkedMessage && (
+            <Text style={styles.hintText}>
+              Connect your phone to the car&apos;s Bluetooth to link it here, or add it under Bluetooth Devices
+            </Text>
+          )}
+        </ScrollView>
+
+        <Button title="Done" variant="ghost" onPress={onClose} style={styles.doneButton} />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: theme.spacing.lg,
+    maxHeight: '85%',
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: theme.colors.border,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  title: {
+    fontSize: theme.typography.bodyLarge,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+    lineHeight: theme.typography.bodySmall * 1.4,
+  },
+  content: {
+    flexGrow: 0,
+  },
+  vinInput: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.text,
+    letterSpacing: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  errorText: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.error,
+    marginTop: theme.spacing.md,
+  },
+  decodedCard: {
+    backgroundColor: `${theme.colors.primary}10`,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  decodedVin: {
+    fontSize: theme.typography.bodyMedium,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    letterSpacing: 1,
+  },
+  decodedSummary: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  warningText: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.warning,
+    marginTop: theme.spacing.sm,
+  },
+  hintText: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSubtle,
+    marginTop: theme.spacing.md,
+    textAlign: 'center',
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  matchRowSelected: {
+    borderColor: theme.colors.primary,
+  },
+  matchText: {
+    flex: 1,
+  },
+  matchName: {
+    fontSize: theme.typography.bodyMedium,
+    fontWeight: theme.typography.weightMedium,
+    color: theme.colors.text,
+  },
+  matchReason: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  matchConfidence: {
+    fontSize: theme.typography.labelSmall,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weightMedium,
+  },
+  linkedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: `${theme.colors.success}20`,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.sm,
+    marginTop: theme.spacing.md,
+  },
+  linkedText: {
+    flex: 1,
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.text,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    borderStyle: 'dashed',
+  },
+  deviceRowPressed: {
+    opacity: 0.8,
+  },
+  doneButton: {
+    marginTop: theme.spacing.md,
+  },
+});
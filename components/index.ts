@@ -1,8 +1,12 @@
 export { Button } from './ui/Button';
 export { Card } from './ui/Card';
 export { Badge } from './ui/Badge';
+export { Snackbar } from './ui/Snackbar';
 export { ActiveTripCard } from './trip/ActiveTripCard';
 export { TripListItem } from './trip/TripListItem';
 export { EmptyTrips } from './trip/EmptyTrips';
+export { ImportTripsSheet } from './trip/ImportTripsSheet';
 export { BluetoothDevicePickerModal } from './bluetooth/BluetoothDevicePickerModal';
 export { VehicleAssignBottomSheet } from './bluetooth/VehicleAssignBottomSheet';
+export { AutoStartScheduleSheet } from './bluetooth/AutoStartScheduleSheet';
+export { VinMatchSheet } from './bluetooth/VinMatchSheet';
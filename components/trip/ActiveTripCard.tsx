@@ -1,16 +1,22 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { theme } from '../../constants/theme';
 import { Card } from '../ui/Card';
 import { Trip, Vehicle } from '../../types/trip';
+import { isTripPaused } from '../../services/tripService';
 
 interface ActiveTripCardProps {
   trip: Trip;
   vehicle: Vehicle | null;
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
-export function ActiveTripCard({ trip, vehicle }: ActiveTripCardProps) {
+export function ActiveTripCard({ trip, vehicle, onPause, onResume }: ActiveTripCardProps) {
+  const paused = isTripPaused(trip);
+  const movingDuration = trip.movingDuration ?? trip.duration;
+
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -27,8 +33,8 @@ export function ActiveTripCard({ trip, vehicle }: ActiveTripCardProps) {
   };
 
   const calculateSpeed = () => {
-    if (trip.duration === 0) return '0';
-    const hours = trip.duration / (1000 * 60 * 60);
+    if (movingDuration === 0) return '0';
+    const hours = movingDuration / (1000 * 60 * 60);
     const speed = trip.calculatedDistance / hours;
     return speed.toFixed(0);
   };
@@ -46,9 +52,9 @@ export function ActiveTripCard({ trip, vehicle }: ActiveTripCardProps) {
             Started {new Date(trip.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </Text>
         </View>
-        <View style={styles.activeBadge}>
-          <View style={styles.pulsingDot} />
-          <Text style={styles.activeText}>ACTIVE</Text>
+        <View style={[styles.activeBadge, paused && styles.pausedBadge]}>
+          <View style={[styles.pulsingDot, paused && styles.pausedDot]} />
+          <Text style={[styles.activeText, paused && styles.pausedText]}>{paused ? 'PAUSED' : 'ACTIVE'}</Text>
         </View>
       </View>
 
@@ -64,8 +70,8 @@ export function ActiveTripCard({ trip, vehicle }: ActiveTripCardProps) {
 
         <View style={styles.metricItem}>
           <MaterialIcons name="schedule" size={28} color={theme.colors.primary} />
-          <Text style={styles.metricValue}>{formatDuration(trip.duration)}</Text>
-          <Text style={styles.metricLabel}>Duration</Text>
+          <Text style={styles.metricValue}>{formatDuration(movingDuration)}</Text>
+          <Text style={styles.metricLabel}>Moving Time</Text>
         </View>
 
         <View style={styles.divider} />
@@ -91,6 +97,21 @@ export function ActiveTripCard({ trip, vehicle }: ActiveTripCardProps) {
           </Text>
         </View>
       </View>
+
+      {/* Pause / Resume */}
+      {(paused ? onResume : onPause) && (
+        <Pressable
+          style={({ pressed }) => [styles.pauseButton, pressed && styles.pauseButtonPressed]}
+          onPress={paused ? onResume : onPause}
+        >
+          <MaterialIcons
+            name={paused ? 'play-arrow' : 'pause'}
+            size={20}
+            color={theme.colors.primary}
+          />
+          <Text style={styles.pauseButtonText}>{paused ? 'Resume Trip' : 'Pause Trip'}</Text>
+        </Pressable>
+      )}
     </Card>
   );
 }
@@ -141,6 +162,15 @@ const styles = StyleSheet.create({
     color: theme.colors.active,
     includeFontPadding: false,
   },
+  pausedBadge: {
+    backgroundColor: `${theme.colors.warning}20`,
+  },
+  pausedDot: {
+    backgroundColor: theme.colors.warning,
+  },
+  pausedText: {
+    color: theme.colors.warning,
+  },
   metricsGrid: {
     flexDirection: 'row',
     backgroundColor: theme.colors.background,
@@ -194,4 +224,24 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     includeFontPadding: false,
   },
-});
+  pauseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  pauseButtonPressed: {
+    opacity: 0.7,
+  },
+  pauseButtonText: {
+    fontSize: theme.typography.bodyMedium,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.primary,
+    includeFontPadding: false,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,251 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { theme } from '../../constants/theme';
+import { Vehicle } from '../../types/trip';
+import { getTrackDistance, type GpxFile } from '../../services/gpxImportService';
+
+interface ImportTripsSheetProps {
+  visible: boolean;
+  file: GpxFile | null;
+  vehicles: Vehicle[];
+  currentVehicleId?: string;
+  importing: boolean;
+  onSelectVehicle: (vehicle: Vehicle) => void;
+  onClose: () => void;
+}
+
+export function ImportTripsSheet({
+  visible,
+  file,
+  vehicles,
+  currentVehicleId,
+  importing,
+  onSelectVehicle,
+  onClose,
+}: ImportTripsSheetProps) {
+  const insets = useSafeAreaInsets();
+
+  const trackCount = file?.tracks.length ?? 0;
+  const totalMiles = file?.tracks.reduce((sum, track) => sum + getTrackDistance(track.points), 0) ?? 0;
+
+  const renderVehicle = ({ item }: { item: Vehicle }) => {
+    const isCurrent = item.id === currentVehicleId;
+    return (
+      <Pressable
+        style={({ pressed }) => [
+          styles.vehicleRow,
+          isCurrent && styles.vehicleRowCurrent,
+          pressed && styles.vehicleRowPressed,
+        ]}
+        onPress={() => onSelectVehicle(item)}
+        disabled={importing}
+      >
+        <View style={styles.vehicleIcon}>
+          <MaterialIcons name="directions-car" size={22} color={theme.colors.primary} />
+        </View>
+        <View style={styles.vehicleInfo}>
+          <Text style={styles.vehicleName}>
+            {item.year} {item.make} {item.model}
+          </Text>
+          <Text style={styles.vehicleOdo}>
+            {item.currentOdometer.toLocaleString()} mi
+          </Text>
+        </View>
+        <MaterialIcons name="chevron-right" size={22} color={theme.colors.textSubtle} />
+      </Pressable>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={importing ? undefined : onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        {/* Handle */}
+        <View style={styles.handle} />
+
+        {/* File info */}
+        <View style={styles.fileInfo}>
+          <View style={styles.fileIconCircle}>
+            <MaterialIcons name="route" size={24} color={theme.colors.primary} />
+          </View>
+          <View style={styles.fileText}>
+            <Text style={styles.fileName} numberOfLines={1}>{file?.fileName}</Text>
+            <Text style={styles.fileSummary}>
+              {trackCount} track{trackCount === 1 ? '' : 's'} · {totalMiles.toFixed(1)} mi
+            </Text>
+          </View>
+        </View>
+
+        <Text style={styles.assignTitle}>Which vehicle were these trips in?</Text>
+        <Text style={styles.assignSubtitle}>
+          Imported trips are placed in the vehicle&apos;s odometer history. Tracks that overlap
+          existing trips or don&apos;t fit between odometer readings are skipped.
+        </Text>
+
+        {importing ? (
+          <View style={styles.importing}>
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+            <Text style={styles.importingText}>Importing trips...</Text>
+          </View>
+        ) : vehicles.length === 0 ? (
+          <View style={styles.importing}>
+            <Text style={styles.importingText}>No vehicles found. Add a vehicle in your GarageMinder account first.</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={vehicles}
+            renderItem={renderVehicle}
+            keyExtractor={item => item.id}
+            style={styles.vehicleList}
+            scrollEnabled={vehicles.length > 4}
+          />
+        )}
+
+        <Pressable style={styles.cancelButton} onPress={onClose} disabled={importing}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: theme.spacing.lg,
+    maxHeight: '80%',
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: theme.colors.border,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  fileInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    backgroundColor: `${theme.colors.primary}10`,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+  },
+  fileIconCircle: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: `${theme.colors.primary}20`,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fileText: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: theme.typography.bodyLarge,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+  },
+  fileSummary: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.primary,
+    fontWeight: theme.typography.weightMedium,
+  },
+  assignTitle: {
+    fontSize: theme.typography.bodyLarge,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  assignSubtitle: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.lg,
+    lineHeight: theme.typography.bodySmall * 1.4,
+  },
+  vehicleList: {
+    maxHeight: 280,
+    marginBottom: theme.spacing.md,
+  },
+  vehicleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  vehicleRowCurrent: {
+    borderColor: theme.colors.primary,
+  },
+  vehicleRowPressed: {
+    opacity: 0.8,
+  },
+  vehicleIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: `${theme.colors.primary}15`,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  vehicleInfo: {
+    flex: 1,
+  },
+  vehicleName: {
+    fontSize: theme.typography.bodyMedium,
+    fontWeight: theme.typography.weightMedium,
+    color: theme.colors.text,
+  },
+  vehicleOdo: {
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  importing: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.lg,
+  },
+  importingText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+  cancelButtonText: {
+    fontSize: theme.typography.bodyMedium,
+    color: theme.colors.textSubtle,
+  },
+});
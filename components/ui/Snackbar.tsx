@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { theme } from '../../constants/theme';
+
+interface SnackbarProps {
+  visible: boolean;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms before it hides itself
+}
+
+export function Snackbar({
+  visible,
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 5000,
+}: SnackbarProps) {
+  // Keep the latest callback without restarting the timer on every render
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  useEffect(() => {
+    if (!visible) return;
+    const timer = setTimeout(() => onDismissRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [visible, message, duration]);
+
+  if (!visible) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.snackbar}>
+        <Text style={styles.message} numberOfLines={2}>{message}</Text>
+        {actionLabel && onAction && (
+          <Pressable
+            onPress={() => {
+              onAction();
+              onDismissRef.current();
+            }}
+            style={({ pressed }) => [styles.action, pressed && styles.pressed]}
+            hitSlop={8}
+          >
+            <Text style={styles.actionText}>{actionLabel}</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: theme.spacing.md,
+  },
+  snackbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surfaceElevated,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    ...theme.shadows.medium,
+  },
+  message: {
+    flex: 1,
+    fontSize: theme.typography.bodySmall,
+    color: theme.colors.text,
+  },
+  action: {
+    marginLeft: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  actionText: {
+    fontSize: theme.typography.labelMedium,
+    fontWeight: theme.typography.weightSemiBold,
+    color: theme.colors.primary,
+  },
+});
@@ -2,6 +2,7 @@ import React, { createContext, useState, useEffect, ReactNode } from 'react';
 import { User } from '../services/authService';
 import * as authService from '../services/authService';
 import { fetchVehiclesFromAPI, clearVehicleCache } from '../services/vehicleService';
+import { rotateStorageKey } from '../services/tripService';
 import { Vehicle } from '../types/trip';
 
 interface AuthContextType {
@@ -153,6 +154,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
     
     // Clear vehicle cache
     await clearVehicleCache();
+
+    // Re-encrypt local data under a fresh key; a failed rotation resumes on next launch
+    try {
+      await rotateStorageKey();
+    } catch (error) {
+      console.error('[AuthContext] Failed to rotate the storage key:', error);
+    }
     
     setUser(null);
     setIsAuthenticated(false);
@@ -7,14 +7,38 @@
  * Uses the native ExpoBluetoothClassic module for real-time
  * Classic Bluetooth connection events (ACL_CONNECTED/DISCONNECTED).
  * Falls back to BLE polling if native module is unavailable.
+ *
+ * A connection alone does not start a trip: MONITORING watches location
+ * speed until the configured threshold is exceeded, and gives up after the
+ * detection window so an idling car does not record a zero-mile trip.
+ * The AutoStart schedule gets the last word before a trip starts: outside
+ * its windows the trip is skipped, inside them it may be marked business.
+ *
+ * STOPPING is driven by the persisted stopTimerStartedAt rather than the
+ * in-memory timer alone, so a grace period interrupted by the app being
+ * killed is resumed (or completed) on the next launch.
+ *
+ * A vehicle can have several mapped devices (stereo, hands-free, dash cam),
+ * and every connected one is kept in connectedDeviceIds: a trip only stops
+ * once the last device of its vehicle drops. When devices of different
+ * vehicles are connected together the configured ConflictResolution picks
+ * one — by mapping priority, by asking, or by waiting for driving speed.
+ *
+ * Switching the phone's Bluetooth off mid-trip drops every connection, which
+ * looks exactly like leaving the car. Adapter-off is told apart from a real
+ * disconnect: the trip keeps tracking on GPS, is ended by the stationary
+ * auto-stop, and the trip records why (autoStopFallback).
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
 import {
   startMonitoring,
   getBluetoothState,
   isNativeBluetoothAvailable,
+  type AdapterState,
 } from '../services/bluetoothConnectionService';
 import {
   getAutoStartSettings,
@@ -23,25 +47,75 @@ import {
   getAutoStartState,
   setAutoStartState,
   resetAutoStartState,
+  rankDeviceMappings,
   AutoStartSettings,
   BluetoothDeviceMapping,
   AutoStartState,
 } from '../services/bluetoothService';
+import {
+  getPointSpeed,
+  metersPerSecondToMph,
+  toLocationPoint,
+  type LocationPoint,
+} from '../services/locationService';
+import { logAutoStartEvent } from '../services/autoStartLogService';
+import { getActiveTrip } from '../services/tripService';
+import { evaluateAutoStartSchedule } from '../services/autoStartScheduleService';
+import type { AutoStopFallback, Trip } from '../types/trip';
+import { showVehicleConflictNotification, getChosenVehicleId } from '../services/notificationService';
 
 interface UseAutoStartOptions {
-  onTriggerStart: (vehicleId: string) => Promise<void>;
-  onTriggerStop: () => Promise<void>;
+  onTriggerStart: (vehicleId: string, classification: Trip['classification']) => Promise<void>;
+  onTriggerStop: (endedAt: number) => Promise<boolean>; // endedAt = when the device disconnected; false if no trip was stopped
+  onBluetoothOff?: (fallback: AutoStopFallback) => Promise<void>; // record the GPS fallback on the trip
 }
 
+type DeviceEvent = Pick<BluetoothDeviceMapping, 'deviceId' | 'deviceName'>;
+
 const DEFAULT_RESET_STATE: AutoStartState = {
   phase: 'idle',
   connectedDeviceId: null,
+  connectedDeviceIds: [],
   monitoringStartedAt: null,
   stopTimerStartedAt: null,
   triggeredVehicleId: null,
+  candidateVehicleIds: [],
+  resolvedBy: null,
+  bluetoothOffAt: null,
 };
 
-export function useAutoStart({ onTriggerStart, onTriggerStop }: UseAutoStartOptions) {
+const SIMULATED_DEVICE_ID = 'simulated';
+
+// Speed-resolved conflicts need real movement even with an instant threshold
+const CONFLICT_SPEED_MPH = 5;
+
+// Devices of one car (or two cars) tend to connect within seconds of each other
+const CONNECT_SETTLE_MS = 10 * 1000;
+
+// Links can drop just before the adapter reports it is turning off
+const ADAPTER_OFF_DISCONNECT_WINDOW = 10 * 1000;
+
+// Mapped, enabled devices among the connected IDs, best pick first
+function getConnectedMappings(
+  deviceIds: string[],
+  mappings: BluetoothDeviceMapping[]
+): BluetoothDeviceMapping[] {
+  return rankDeviceMappings(
+    mappings.filter(m => deviceIds.includes(m.deviceId) && m.enabled && m.vehicleId)
+  );
+}
+
+// For timers and watchers, which have nobody to hand a failure to
+function logStateEventError(error: unknown) {
+  console.error('[AutoStart] State update failed:', error);
+  logAutoStartEvent('error', `State update failed: ${String(error)}`);
+}
+
+function getVehicleIds(mappings: BluetoothDeviceMapping[]): string[] {
+  return [...new Set(mappings.map(m => m.vehicleId))];
+}
+
+export function useAutoStart({ onTriggerStart, onTriggerStop, onBluetoothOff }: UseAutoStartOptions) {
   const [settings, setSettings] = useState<AutoStartSettings | null>(null);
   const [mappings, setMappings] = useState<BluetoothDeviceMapping[]>([]);
   const [state, setState] = useState<AutoStartState | null>(null);
@@ -51,33 +125,568 @@ export function useAutoStart({ onTriggerStart, onTriggerStop }: UseAutoStartOpti
   const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const cleanupRef = useRef<(() => void) | null>(null);
 
-  // ── Load settings on mount ──────────────────────────────────────────────────
-  useEffect(() => {
-    loadAll();
-    setIsNativeAvailable(isNativeBluetoothAvailable());
+  // Device events, timers and user picks each read the persisted state, change
+  // it and save it back. Devices of one car often connect (or drop) together,
+  // so they take turns or one would save over the other's connectedDeviceIds.
+  const stateEventsRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Movement detection during the monitoring phase
+  const detectionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const speedSubscriptionRef = useRef<Location.LocationSubscription | null>(null);
+  const lastFixRef = useRef<LocationPoint | null>(null);
+  const isDetectingRef = useRef(false);
+
+  // Detection callbacks outlive renders — read the latest handlers from refs
+  const onTriggerStartRef = useRef(onTriggerStart);
+  onTriggerStartRef.current = onTriggerStart;
+  const onTriggerStopRef = useRef(onTriggerStop);
+  onTriggerStopRef.current = onTriggerStop;
+  const onBluetoothOffRef = useRef(onBluetoothOff);
+  onBluetoothOffRef.current = onBluetoothOff;
+
+  // ── Internal state transitions ─────────────────────────────────────────────
+
+  // Only for entry points: a queued task that queued another would wait for itself
+  const queueStateEvent = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const run = stateEventsRef.current.then(task);
+    stateEventsRef.current = run.catch(() => {});
+    return run;
   }, []);
 
-  // ── Re-check when app comes to foreground ──────────────────────────────────
-  useEffect(() => {
-    const subscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
-      if (nextState === 'active') {
-        loadAll();
-      }
+  // Device bookkeeping that doesn't change the phase isn't worth a log entry
+  const saveState = useCallback(async (next: AutoStartState) => {
+    await setAutoStartState(next);
+    setState(next);
+  }, []);
+
+  // Persist the phase and record the transition in the event log
+  const transitionTo = useCallback(async (next: AutoStartState, reason: string) => {
+    await saveState(next);
+    logAutoStartEvent('phase_change', `${next.phase}: ${reason}`, {
+      phase: next.phase,
+      vehicleId: next.triggeredVehicleId,
+      resolvedBy: next.resolvedBy,
+      devices: next.connectedDeviceIds.length,
     });
-    return () => subscription.remove();
+  }, [saveState]);
+
+  const resetToIdle = useCallback(async (reason: string) => {
+    await resetAutoStartState();
+    setState({ ...DEFAULT_RESET_STATE });
+    logAutoStartEvent('phase_change', `idle: ${reason}`, { phase: 'idle' });
   }, []);
 
-  const loadAll = async () => {
-    const [s, m, st] = await Promise.all([
+  // The stationary auto-stop ends a fallback trip without AutoStart being
+  // told — once the trip is gone, free the state machine for the next drive
+  const clearFinishedFallbackTrip = useCallback(async (currentState: AutoStartState): Promise<AutoStartState> => {
+    if (currentState.phase !== 'tracking' || currentState.bluetoothOffAt === null) return currentState;
+    if (await getActiveTrip()) return currentState;
+
+    await resetToIdle('Trip ended by the stationary auto-stop');
+    return { ...DEFAULT_RESET_STATE };
+  }, [resetToIdle]);
+
+  const handleStartTracking = useCallback(async (vehicleId: string, currentState: AutoStartState, reason: string) => {
+    // The schedule of the device that picked the vehicle, else the global one
+    const [currentSettings, allMappings] = await Promise.all([
+      getAutoStartSettings(),
+      getDeviceMappings(),
+    ]);
+    const mapping = allMappings.find(m => m.deviceId === currentState.connectedDeviceId) ?? null;
+    const decision = evaluateAutoStartSchedule(currentSettings, mapping);
+    if (!decision.allowed) {
+      console.log('[AutoStart] Outside the AutoStart schedule — not starting a trip');
+      logAutoStartEvent('trip_start', 'Skipped — outside the AutoStart schedule', { vehicleId, ok: false });
+      await resetToIdle('Outside the AutoStart schedule');
+      return;
+    }
+
+    const newState: AutoStartState = {
+      ...currentState,
+      phase: 'tracking',
+    };
+    await transitionTo(newState, reason);
+
+    try {
+      await onTriggerStartRef.current(vehicleId, decision.classification);
+      logAutoStartEvent('trip_start', 'Trip started', {
+        vehicleId,
+        classification: decision.classification,
+        insideSchedule: decision.insideWindow,
+      });
+    } catch (error) {
+      console.error('[AutoStart] Failed to start trip:', error);
+      logAutoStartEvent('trip_start', `Failed to start trip: ${String(error)}`, { vehicleId, ok: false });
+      await resetToIdle('Trip failed to start');
+    }
+  }, [transitionTo, resetToIdle]);
+
+  // ── Movement detection (monitoring phase) ──────────────────────────────────
+
+  const stopDetection = useCallback(() => {
+    isDetectingRef.current = false;
+    lastFixRef.current = null;
+    if (detectionTimerRef.current) {
+      clearTimeout(detectionTimerRef.current);
+      detectionTimerRef.current = null;
+    }
+    if (speedSubscriptionRef.current) {
+      speedSubscriptionRef.current.remove();
+      speedSubscriptionRef.current = null;
+    }
+  }, []);
+
+  const handleDetectionTimeout = useCallback(async () => {
+    stopDetection();
+
+    const currentState = await getAutoStartState();
+    if (currentState.phase !== 'monitoring') return;
+
+    console.log('[AutoStart] Detection window expired without movement — back to idle');
+    await resetToIdle('Detection window expired without movement');
+  }, [stopDetection, resetToIdle]);
+
+  // Starts the trip for the chosen vehicle. An open speed conflict is settled
+  // here by priority among the devices still connected at driving speed.
+  const startResolvedTrip = useCallback(async (currentState: AutoStartState, reason: string) => {
+    if (currentState.triggeredVehicleId) {
+      await handleStartTracking(currentState.triggeredVehicleId, currentState, reason);
+      return;
+    }
+
+    const connected = getConnectedMappings(currentState.connectedDeviceIds, await getDeviceMappings());
+    if (connected.length === 0) return;
+
+    const chosen = connected[0];
+    const resolvedState: AutoStartState = {
+      ...currentState,
+      connectedDeviceId: chosen.deviceId,
+      triggeredVehicleId: chosen.vehicleId,
+      resolvedBy: 'speed',
+    };
+    await handleStartTracking(chosen.vehicleId, resolvedState, `${reason} — ${chosen.vehicleName} still connected`);
+  }, [handleStartTracking]);
+
+  const handleDetectionFix = useCallback(async (threshold: number, point: LocationPoint) => {
+    if (!isDetectingRef.current) return;
+
+    const speed = getPointSpeed(point, lastFixRef.current);
+    lastFixRef.current = point;
+    if (speed === null) return;
+
+    const speedMph = metersPerSecondToMph(speed);
+    if (speedMph < threshold) return;
+
+    console.log(`[AutoStart] Moving at ${speedMph.toFixed(1)} mph — starting trip`);
+    stopDetection();
+
+    // A disconnect or timeout may have landed between fixes
+    const currentState = await getAutoStartState();
+    if (currentState.phase !== 'monitoring') return;
+    await startResolvedTrip(currentState, `Moving at ${speedMph.toFixed(1)} mph`);
+  }, [startResolvedTrip, stopDetection]);
+
+  const beginDetection = useCallback(async (
+    monitoringState: AutoStartState,
+    currentSettings: AutoStartSettings
+  ) => {
+    const vehicleId = monitoringState.triggeredVehicleId;
+    const startedAt = monitoringState.monitoringStartedAt ?? Date.now();
+
+    if (vehicleId && currentSettings.speedThreshold === 'immediate') {
+      // Give a second car's device the chance to connect before committing
+      const settleRemaining = startedAt + CONNECT_SETTLE_MS - Date.now();
+      if (settleRemaining <= 0) {
+        await startResolvedTrip(monitoringState, 'Speed threshold set to instant');
+        return;
+      }
+
+      stopDetection();
+      isDetectingRef.current = true;
+      detectionTimerRef.current = setTimeout(() => {
+        stopDetection();
+        queueStateEvent(async () => {
+          const currentState = await getAutoStartState();
+          if (currentState.phase !== 'monitoring') return;
+          await startResolvedTrip(currentState, 'Speed threshold set to instant');
+        }).catch(logStateEventError);
+      }, settleRemaining);
+      return;
+    }
+
+    const threshold = currentSettings.speedThreshold === 'immediate'
+      ? CONFLICT_SPEED_MPH
+      : currentSettings.speedThreshold;
+    const remaining = startedAt + currentSettings.detectionWindowMinutes * 60 * 1000 - Date.now();
+    if (remaining <= 0) {
+      await handleDetectionTimeout();
+      return;
+    }
+
+    stopDetection();
+    isDetectingRef.current = true;
+
+    detectionTimerRef.current = setTimeout(() => {
+      queueStateEvent(handleDetectionTimeout).catch(logStateEventError);
+    }, remaining);
+
+    // Nothing to watch until the user picks — resolveConflict() restarts detection
+    if (!vehicleId && currentSettings.conflictResolution === 'ask') {
+      console.log(`[AutoStart] Waiting up to ${Math.ceil(remaining / 60000)}min for a vehicle choice`);
+      return;
+    }
+
+    console.log(
+      `[AutoStart] Waiting up to ${Math.ceil(remaining / 60000)}min for ${threshold} mph`
+    );
+
+    try {
+      const subscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          timeInterval: 2000,
+          distanceInterval: 0,
+        },
+        (location) => {
+          queueStateEvent(() => handleDetectionFix(threshold, toLocationPoint(location))).catch(logStateEventError);
+        }
+      );
+
+      // Detection may have ended while the watcher was starting
+      if (isDetectingRef.current) {
+        speedSubscriptionRef.current = subscription;
+      } else {
+        subscription.remove();
+      }
+    } catch (error) {
+      // Without location there is no way to confirm movement — fall back to
+      // starting on connect rather than silently missing the drive
+      console.error('[AutoStart] Speed monitoring unavailable, starting trip on connect:', error);
+      logAutoStartEvent('error', `Speed monitoring unavailable: ${String(error)}`);
+      stopDetection();
+      await startResolvedTrip(monitoringState, 'Speed monitoring unavailable');
+    }
+  }, [handleDetectionFix, startResolvedTrip, handleDetectionTimeout, stopDetection, queueStateEvent]);
+
+  // Picks the vehicle to watch from every connected device. Deterministic:
+  // the same set of connected devices always resolves the same way.
+  const resolveVehicle = useCallback(async (candidateState: AutoStartState, reason: string) => {
+    const [currentSettings, allMappings] = await Promise.all([
+      getAutoStartSettings(),
+      getDeviceMappings(),
+    ]);
+    const connected = getConnectedMappings(candidateState.connectedDeviceIds, allMappings);
+
+    if (connected.length === 0) {
+      stopDetection();
+      console.log('[AutoStart] No mapped device connected — back to idle');
+      await resetToIdle(candidateState.phase === 'monitoring' ? `${reason} before moving` : reason);
+      return;
+    }
+
+    const vehicleIds = getVehicleIds(connected);
+    const baseState: AutoStartState = {
+      ...candidateState,
+      phase: 'monitoring',
+      monitoringStartedAt: candidateState.phase === 'monitoring'
+        ? candidateState.monitoringStartedAt
+        : Date.now(),
+      stopTimerStartedAt: null,
+      candidateVehicleIds: vehicleIds.length > 1 ? vehicleIds : [],
+    };
+    const pick = (resolvedBy: 'single' | 'priority'): AutoStartState => ({
+      ...baseState,
+      connectedDeviceId: connected[0].deviceId,
+      triggeredVehicleId: connected[0].vehicleId,
+      resolvedBy,
+    });
+
+    let nextState: AutoStartState;
+    let detail = '';
+    const keepsUserChoice = candidateState.resolvedBy === 'user' &&
+      candidateState.triggeredVehicleId !== null &&
+      vehicleIds.includes(candidateState.triggeredVehicleId);
+
+    if (vehicleIds.length === 1) {
+      nextState = pick('single');
+    } else if (keepsUserChoice) {
+      nextState = baseState;
+    } else if (currentSettings.conflictResolution === 'priority') {
+      nextState = pick('priority');
+      detail = ` — ${connected[0].vehicleName} wins on priority`;
+    } else {
+      nextState = { ...baseState, connectedDeviceId: null, triggeredVehicleId: null, resolvedBy: null };
+      detail = currentSettings.conflictResolution === 'ask'
+        ? ' — waiting for a vehicle choice'
+        : ' — waiting for driving speed to pick a vehicle';
+    }
+
+    // Same vehicle (or the same open conflict) as before — keep detecting
+    if (
+      candidateState.phase === 'monitoring' &&
+      isDetectingRef.current &&
+      nextState.triggeredVehicleId === candidateState.triggeredVehicleId
+    ) {
+      await saveState(nextState);
+      return;
+    }
+
+    await transitionTo(nextState, `${reason}${detail}`);
+
+    if (nextState.triggeredVehicleId === null && currentSettings.conflictResolution === 'ask') {
+      const vehicles = vehicleIds.map(id => ({ id, name: connected.find(m => m.vehicleId === id)!.vehicleName }));
+      showVehicleConflictNotification(vehicles).catch(error => {
+        console.error('[AutoStart] Failed to show conflict notification:', error);
+      });
+    }
+
+    await beginDetection(nextState, currentSettings);
+  }, [beginDetection, stopDetection, transitionTo, saveState, resetToIdle]);
+
+  // ── Stopping ───────────────────────────────────────────────────────────────
+
+  // The trip ends when the device disconnected, not when the grace ran out
+  const finalizeStop = useCallback(async (disconnectedAt: number) => {
+    // A reconnect may have cancelled the stop while the timer was pending
+    const currentState = await getAutoStartState();
+    if (currentState.phase !== 'stopping') return;
+
+    console.log('[AutoStart] Grace period expired — stopping trip at', new Date(disconnectedAt).toISOString());
+    let stopped = false;
+    try {
+      stopped = await onTriggerStopRef.current(disconnectedAt);
+    } catch (error) {
+      console.error('[AutoStart] Failed to stop trip:', error);
+      logAutoStartEvent('trip_stop', `Failed to stop trip: ${String(error)}`, { ok: false });
+    }
+
+    if (stopped) {
+      logAutoStartEvent('trip_stop', 'Trip stopped', { endedAt: new Date(disconnectedAt).toISOString() });
+    } else if (await getActiveTrip()) {
+      // Stay in STOPPING: the next launch or return to the foreground retries
+      console.warn('[AutoStart] Trip is still active — will retry the stop');
+      return;
+    } else {
+      logAutoStartEvent('trip_stop', 'No trip to stop — it had already ended', { ok: false });
+    }
+
+    // Another car's device connected during the grace period — watch for that drive
+    const stillConnected = getConnectedMappings(currentState.connectedDeviceIds, await getDeviceMappings());
+    if (stillConnected.length > 0) {
+      await resolveVehicle(
+        { ...DEFAULT_RESET_STATE, connectedDeviceIds: currentState.connectedDeviceIds },
+        'Trip ended with another vehicle connected'
+      );
+      return;
+    }
+    await resetToIdle('Grace period expired');
+  }, [resolveVehicle, resetToIdle]);
+
+  // Arms the grace timer for whatever is left of the persisted grace period
+  const scheduleStop = useCallback(async (stopState: AutoStartState, stopTimeoutMinutes: number) => {
+    const disconnectedAt = stopState.stopTimerStartedAt ?? Date.now();
+    const remaining = disconnectedAt + stopTimeoutMinutes * 60 * 1000 - Date.now();
+
+    if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+    stopTimerRef.current = null;
+
+    if (remaining <= 0) {
+      await finalizeStop(disconnectedAt);
+      return;
+    }
+
+    stopTimerRef.current = setTimeout(() => {
+      stopTimerRef.current = null;
+      queueStateEvent(() => finalizeStop(disconnectedAt)).catch(logStateEventError);
+    }, remaining);
+  }, [finalizeStop, queueStateEvent]);
+
+  // The last device of the tracked vehicle dropped
+  const handleBluetoothDisconnect = useCallback(async (currentState: AutoStartState) => {
+    const currentSettings = await getAutoStartSettings();
+    const stopState: AutoStartState = {
+      ...currentState,
+      phase: 'stopping',
+      stopTimerStartedAt: Date.now(),
+    };
+    await transitionTo(stopState, `Disconnected — ${currentSettings.stopTimeoutMinutes}min grace period`);
+
+    console.log(`[AutoStart] Starting ${currentSettings.stopTimeoutMinutes}min stop grace period`);
+    await scheduleStop(stopState, currentSettings.stopTimeoutMinutes);
+  }, [transitionTo, scheduleStop]);
+
+  const cancelStop = useCallback(async (currentState: AutoStartState) => {
+    if (stopTimerRef.current) {
+      clearTimeout(stopTimerRef.current);
+      stopTimerRef.current = null;
+    }
+    const resumeState: AutoStartState = {
+      ...currentState,
+      phase: 'tracking',
+      stopTimerStartedAt: null,
+    };
+    await transitionTo(resumeState, 'Reconnected during grace period');
+  }, [transitionTo]);
+
+  // ── Adapter state ──────────────────────────────────────────────────────────
+
+  // Keeps the trip running without Bluetooth; the stationary auto-stop ends it
+  const fallBackToGps = useCallback(async (currentState: AutoStartState, offAt: number) => {
+    console.log('[AutoStart] Bluetooth switched off mid-trip — continuing on GPS');
+    const fallbackState: AutoStartState = {
+      ...currentState,
+      phase: 'tracking',
+      connectedDeviceIds: [],
+      stopTimerStartedAt: null,
+      bluetoothOffAt: offAt,
+    };
+    await transitionTo(fallbackState, 'Bluetooth switched off — trip continues until the car stops moving');
+
+    try {
+      await onBluetoothOffRef.current?.({ at: offAt, reason: 'bluetooth_off' });
+    } catch (error) {
+      console.error('[AutoStart] Failed to record auto-stop fallback:', error);
+      logAutoStartEvent('error', `Failed to record auto-stop fallback: ${String(error)}`);
+    }
+  }, [transitionTo]);
+
+  const handleAdapterStateChange = useCallback(async (adapterState: AdapterState) => {
+    const currentState = await getAutoStartState();
+
+    if (adapterState === 'on') {
+      await clearFinishedFallbackTrip(currentState);
+      return;
+    }
+    if (adapterState !== 'off' && adapterState !== 'turning_off') return;
+    if (currentState.bluetoothOffAt) return;
+
+    if (currentState.phase === 'tracking') {
+      await fallBackToGps(currentState, Date.now());
+      return;
+    }
+
+    // The disconnect that started the grace period was the adapter going down
+    const disconnectedAt = currentState.stopTimerStartedAt;
+    if (
+      currentState.phase === 'stopping' &&
+      disconnectedAt !== null &&
+      Date.now() - disconnectedAt <= ADAPTER_OFF_DISCONNECT_WINDOW
+    ) {
+      if (stopTimerRef.current) {
+        clearTimeout(stopTimerRef.current);
+        stopTimerRef.current = null;
+      }
+      await fallBackToGps(currentState, disconnectedAt);
+    }
+  }, [fallBackToGps, clearFinishedFallbackTrip]);
+
+  // ── Device events ──────────────────────────────────────────────────────────
+
+  const handleDeviceConnected = useCallback(async (mapping: BluetoothDeviceMapping) => {
+    const currentState = await clearFinishedFallbackTrip(await getAutoStartState());
+    const connectedState: AutoStartState = {
+      ...currentState,
+      connectedDeviceIds: currentState.connectedDeviceIds.includes(mapping.deviceId)
+        ? currentState.connectedDeviceIds
+        : [...currentState.connectedDeviceIds, mapping.deviceId],
+    };
+
+    // Already driving — a second device of this (or another) car changes nothing
+    if (currentState.phase === 'tracking') {
+      await saveState(connectedState);
+      return;
+    }
+
+    if (currentState.phase === 'stopping') {
+      if (mapping.vehicleId === currentState.triggeredVehicleId) {
+        console.log('[AutoStart] Reconnected during stop grace period — cancelling stop');
+        await cancelStop(connectedState);
+      } else {
+        // Another car's device: the current trip still ends on schedule
+        await saveState(connectedState);
+      }
+      return;
+    }
+
+    await resolveVehicle(connectedState, `${mapping.deviceName} connected`);
+  }, [clearFinishedFallbackTrip, resolveVehicle, saveState, cancelStop]);
+
+  const handleDeviceDisconnected = useCallback(async (device: DeviceEvent) => {
+    const currentState = await getAutoStartState();
+    const remainingState: AutoStartState = {
+      ...currentState,
+      connectedDeviceIds: currentState.connectedDeviceIds.filter(id => id !== device.deviceId),
+    };
+
+    // Left the car before it moved, or the other car's device dropped out
+    if (currentState.phase === 'monitoring') {
+      await resolveVehicle(remainingState, `${device.deviceName} disconnected`);
+      return;
+    }
+
+    if (currentState.phase === 'stopping') {
+      await saveState(remainingState);
+      return;
+    }
+
+    if (currentState.phase !== 'tracking') return;
+
+    // The trip already ends on GPS — disconnects no longer mean anything
+    if (currentState.bluetoothOffAt) {
+      await saveState(remainingState);
+      return;
+    }
+
+    // e.g. the dash cam powered down but the stereo is still connected
+    const remaining = getConnectedMappings(remainingState.connectedDeviceIds, await getDeviceMappings());
+    if (remaining.some(m => m.vehicleId === currentState.triggeredVehicleId)) {
+      console.log('[AutoStart] Another device of this vehicle is still connected — trip continues');
+      await saveState(remainingState);
+      return;
+    }
+
+    await handleBluetoothDisconnect(remainingState);
+  }, [resolveVehicle, saveState, handleBluetoothDisconnect]);
+
+  const loadAll = useCallback(() => queueStateEvent(async () => {
+    const [s, m, persisted] = await Promise.all([
       getAutoStartSettings(),
       getDeviceMappings(),
       getAutoStartState(),
     ]);
+    const st = await clearFinishedFallbackTrip(persisted);
     setSettings(s);
     setMappings(m);
     setState(st);
     setIsLoaded(true);
-  };
+
+    // The app was closed mid-detection — pick up where the window left off
+    if (st.phase === 'monitoring' && !isDetectingRef.current) {
+      await beginDetection(st, s);
+    }
+
+    // Likewise for a stop grace period: finish it now if it already ran out
+    if (st.phase === 'stopping' && !stopTimerRef.current) {
+      console.log('[AutoStart] Recovering stop grace period after restart');
+      await scheduleStop(st, s.stopTimeoutMinutes);
+    }
+  }), [queueStateEvent, clearFinishedFallbackTrip, beginDetection, scheduleStop]);
+
+  // ── Load settings on mount ─────────────────────────────────────────────────
+  useEffect(() => {
+    loadAll().catch(logStateEventError);
+    setIsNativeAvailable(isNativeBluetoothAvailable());
+  }, [loadAll]);
+
+  // ── Re-check when app comes to foreground ──────────────────────────────────
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        loadAll().catch(logStateEventError);
+      }
+    });
+    return () => subscription.remove();
+  }, [loadAll]);
 
   const refreshSettings = useCallback(async () => {
     const s = await getAutoStartSettings();
@@ -87,7 +696,8 @@ export function useAutoStart({ onTriggerStart, onTriggerStop }: UseAutoStartOpti
 
   const refreshMappings = useCallback(async () => {
     const m = await getDeviceMappings();
-    setMappings(m);
+    // Unchanged mappings keep the same array, so monitoring isn't restarted
+    setMappings(current => (JSON.stringify(current) === JSON.stringify(m) ? current : m));
     return m;
   }, []);
 
@@ -119,36 +729,16 @@ export function useAutoStart({ onTriggerStart, onTriggerStop }: UseAutoStartOpti
       // On device connected
       async (mapping) => {
         console.log('[AutoStart] Device connected:', mapping.deviceName, '→', mapping.vehicleName);
-        const currentState = await getAutoStartState();
-
-        // If already tracking, ignore
-        if (currentState.phase === 'tracking') return;
-
-        // If in stopping phase (grace period), cancel the stop timer
-        if (currentState.phase === 'stopping') {
-          console.log('[AutoStart] Reconnected during stop grace period — cancelling stop');
-          await cancelStop();
-          return;
-        }
-
-        // Transition to monitoring → tracking
-        const newState: AutoStartState = {
-          phase: 'monitoring',
-          connectedDeviceId: mapping.deviceId,
-          monitoringStartedAt: Date.now(),
-          stopTimerStartedAt: null,
-          triggeredVehicleId: mapping.vehicleId,
-        };
-        await setAutoStartState(newState);
-        setState(newState);
-
-        // Start tracking (speed threshold handled in trip tracking)
-        await handleStartTracking(mapping.vehicleId, newState);
+        await queueStateEvent(() => handleDeviceConnected(mapping));
       },
       // On device disconnected
       async (mapping) => {
         console.log('[AutoStart] Device disconnected:', mapping.deviceName);
-        await handleBluetoothDisconnect();
+        await queueStateEvent(() => handleDeviceDisconnected(mapping));
+      },
+      // On adapter state change (native events only)
+      async (adapterState) => {
+        await queueStateEvent(() => handleAdapterStateChange(adapterState));
       }
     );
 
@@ -159,101 +749,73 @@ export function useAutoStart({ onTriggerStart, onTriggerStop }: UseAutoStartOpti
       cleanup();
       cleanupRef.current = null;
     };
-  }, [isLoaded, settings?.enabled, mappings]);
+  }, [isLoaded, settings?.enabled, mappings, isNativeAvailable, queueStateEvent, handleDeviceConnected, handleDeviceDisconnected, handleAdapterStateChange]);
 
-  // Clean up stop timer on unmount
+  // Clean up timers and the speed watcher on unmount
   useEffect(() => {
     return () => {
       if (stopTimerRef.current) {
         clearTimeout(stopTimerRef.current);
       }
+      stopDetection();
     };
-  }, []);
+  }, [stopDetection]);
 
   // ── Manually trigger start (for testing AutoStart without BT) ──────────────
   const simulateBluetoothConnect = useCallback(async (vehicleId: string) => {
     const newState: AutoStartState = {
       phase: 'monitoring',
-      connectedDeviceId: 'simulated',
+      connectedDeviceId: SIMULATED_DEVICE_ID,
+      connectedDeviceIds: [SIMULATED_DEVICE_ID],
       monitoringStartedAt: Date.now(),
       stopTimerStartedAt: null,
       triggeredVehicleId: vehicleId,
+      candidateVehicleIds: [],
+      resolvedBy: 'single',
+      bluetoothOffAt: null,
     };
-    await setAutoStartState(newState);
-    setState(newState);
-    await handleStartTracking(vehicleId, newState);
-  }, [onTriggerStart]);
+    await queueStateEvent(async () => {
+      await transitionTo(newState, 'Simulated connection');
+      await beginDetection(newState, await getAutoStartSettings());
+    });
+  }, [queueStateEvent, transitionTo, beginDetection]);
 
   const simulateBluetoothDisconnect = useCallback(async () => {
-    await handleBluetoothDisconnect();
-  }, []);
-
-  // ── Internal state transitions ─────────────────────────────────────────────
-
-  const handleStartTracking = async (vehicleId: string, currentState: AutoStartState) => {
-    const newState: AutoStartState = {
-      ...currentState,
-      phase: 'tracking',
-    };
-    await setAutoStartState(newState);
-    setState(newState);
-
-    try {
-      await onTriggerStart(vehicleId);
-    } catch (error) {
-      console.error('[AutoStart] Failed to start trip:', error);
-      await resetAutoStartState();
-      setState({ ...DEFAULT_RESET_STATE });
-    }
-  };
+    await queueStateEvent(() =>
+      handleDeviceDisconnected({ deviceId: SIMULATED_DEVICE_ID, deviceName: 'Simulated device' })
+    );
+  }, [queueStateEvent, handleDeviceDisconnected]);
 
-  const handleBluetoothDisconnect = async () => {
+  // ── Conflict resolution (user pick) ────────────────────────────────────────
+  // Also overrides a priority or speed decision while still monitoring
+  const resolveConflict = useCallback((vehicleId: string) => queueStateEvent(async () => {
     const currentState = await getAutoStartState();
-    if (currentState.phase !== 'tracking') return;
+    if (currentState.phase !== 'monitoring' || !currentState.candidateVehicleIds.includes(vehicleId)) return;
 
-    const currentSettings = await getAutoStartSettings();
-    const stopState: AutoStartState = {
+    const connected = getConnectedMappings(currentState.connectedDeviceIds, await getDeviceMappings());
+    const device = connected.find(m => m.vehicleId === vehicleId);
+    const resolvedState: AutoStartState = {
       ...currentState,
-      phase: 'stopping',
-      stopTimerStartedAt: Date.now(),
+      connectedDeviceId: device?.deviceId ?? null,
+      triggeredVehicleId: vehicleId,
+      resolvedBy: 'user',
     };
-    await setAutoStartState(stopState);
-    setState(stopState);
-
-    console.log(`[AutoStart] Starting ${currentSettings.stopTimeoutMinutes}min stop grace period`);
+    await transitionTo(resolvedState, `${device?.vehicleName ?? 'Vehicle'} chosen`);
+    await beginDetection(resolvedState, await getAutoStartSettings());
+  }), [queueStateEvent, transitionTo, beginDetection]);
 
-    // Start the stop grace period timer
-    if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
-    stopTimerRef.current = setTimeout(async () => {
-      await finalizeStop();
-    }, currentSettings.stopTimeoutMinutes * 60 * 1000);
-  };
-
-  const finalizeStop = async () => {
-    console.log('[AutoStart] Grace period expired — stopping trip');
-    try {
-      await onTriggerStop();
-    } catch (error) {
-      console.error('[AutoStart] Failed to stop trip:', error);
-    }
-    await resetAutoStartState();
-    setState({ ...DEFAULT_RESET_STATE });
-  };
-
-  const cancelStop = async () => {
-    if (stopTimerRef.current) {
-      clearTimeout(stopTimerRef.current);
-      stopTimerRef.current = null;
-    }
-    const currentState = await getAutoStartState();
-    const resumeState: AutoStartState = {
-      ...currentState,
-      phase: 'tracking',
-      stopTimerStartedAt: null,
-    };
-    await setAutoStartState(resumeState);
-    setState(resumeState);
-  };
+  // The vehicle buttons on the conflict notification
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const vehicleId = getChosenVehicleId(response.actionIdentifier);
+      if (!vehicleId) return;
+      Notifications.dismissNotificationAsync(response.notification.request.identifier).catch(() => {});
+      resolveConflict(vehicleId).catch(error => {
+        console.error('[AutoStart] Vehicle choice from notification failed:', error);
+      });
+    });
+    return () => subscription.remove();
+  }, [resolveConflict]);
 
   return {
     settings,
@@ -266,5 +828,6 @@ export function useAutoStart({ onTriggerStart, onTriggerStop }: UseAutoStartOpti
     refreshMappings,
     simulateBluetoothConnect,
     simulateBluetoothDisconnect,
+    resolveConflict,
   };
 }
@@ -9,26 +9,49 @@ import {
   metersToMiles,
   isMoving,
   isStationaryTimeout,
+  getPointSpeed,
+  hasLocationPermissions,
+  toLocationPoint,
+  createLocationFilterState,
+  filterLocation,
   type LocationPoint,
+  type LocationFilterState,
+  type LocationRejectReason,
 } from '../services/locationService';
-import { showTripStartedNotification, showTripCompletedNotification } from '../services/notificationService';
+import { isForegroundAccumulating } from '../services/tripAccumulatorService';
+import {
+  showTripStartedNotification,
+  showTripResumedNotification,
+  showTripCompletedNotification,
+} from '../services/notificationService';
 
 const START_GRACE_PERIOD = 30000; // 30 seconds
 const STOP_GRACE_PERIOD = 300000; // 5 minutes
+const DRIVING_SPEED = 6.7; // m/s (~15 mph) — faster than walking or cycling
+
+export interface ResumeTrackingState {
+  startTime: number;
+  totalMeters: number;
+  lastLocation: LocationPoint | null;
+  rejectedCount: number;
+}
 
 interface UseLocationTrackingProps {
   onLocationUpdate?: (location: LocationPoint, distance: number) => void;
+  onPointRejected?: (rejectedCount: number, reason: LocationRejectReason) => void;
   onTripComplete?: (totalDistance: number, duration: number) => void;
 }
 
 export function useLocationTracking({
   onLocationUpdate,
+  onPointRejected,
   onTripComplete,
 }: UseLocationTrackingProps = {}) {
   const [isTracking, setIsTracking] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<LocationPoint | null>(null);
   const [totalDistance, setTotalDistance] = useState(0);
   const [startTime, setStartTime] = useState<number | null>(null);
+  const [isMotionMonitoring, setIsMotionMonitoring] = useState(false);
   
   // --- FIX: Use refs for all values read inside stopTracking/callbacks
   // to avoid stale closure bugs. React state is async and closures capture
@@ -38,17 +61,27 @@ export function useLocationTracking({
   const startTimeRef = useRef<number | null>(null);
   const onTripCompleteRef = useRef(onTripComplete);
   const onLocationUpdateRef = useRef(onLocationUpdate);
+  const onPointRejectedRef = useRef(onPointRejected);
 
   // Keep callback refs in sync
   useEffect(() => { onTripCompleteRef.current = onTripComplete; }, [onTripComplete]);
   useEffect(() => { onLocationUpdateRef.current = onLocationUpdate; }, [onLocationUpdate]);
+  useEffect(() => { onPointRejectedRef.current = onPointRejected; }, [onPointRejected]);
 
+  const isPausedRef = useRef(false);
   const previousLocationRef = useRef<LocationPoint | null>(null);
+  const filterStateRef = useRef<LocationFilterState>(createLocationFilterState());
   const lastMovementTimeRef = useRef<number>(Date.now());
   const startGraceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const stopGraceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const locationSubscriptionRef = useRef<Location.LocationSubscription | null>(null);
 
+  // Motion monitoring (no trip running yet)
+  const isMotionMonitoringRef = useRef(false);
+  const motionSubscriptionRef = useRef<Location.LocationSubscription | null>(null);
+  const lastMotionFixRef = useRef<LocationPoint | null>(null);
+  const onDrivingDetectedRef = useRef<(() => void) | null>(null);
+
   // Sync state → refs whenever state changes
   useEffect(() => { isTrackingRef.current = isTracking; }, [isTracking]);
   useEffect(() => { totalDistanceRef.current = totalDistance; }, [totalDistance]);
@@ -105,6 +138,7 @@ export function useLocationTracking({
     previousLocationRef.current = null;
     totalDistanceRef.current = 0;
     startTimeRef.current = null;
+    isPausedRef.current = false;
 
     // Notify completion — use ref to avoid stale closure
     if (!silent) {
@@ -112,65 +146,113 @@ export function useLocationTracking({
     }
   }, []); // stable — reads everything from refs
 
-  // Start tracking
-  const startTracking = useCallback(async (vehicleName: string) => {
-    const { status } = await Location.requestForegroundPermissionsAsync();
-    
-    if (status !== 'granted') {
-      return false;
+  // ── Motion monitoring ──────────────────────────────────────────────────────
+  // Low-power watcher used before a trip exists. Driving speed has to hold for
+  // START_GRACE_PERIOD before onDrivingDetected fires, so a short burst (a
+  // bus, a jog to the car) does not start a trip. Once the trip is running,
+  // the normal stop grace period ends it.
+
+  const stopMotionMonitoring = useCallback(() => {
+    isMotionMonitoringRef.current = false;
+    setIsMotionMonitoring(false);
+    lastMotionFixRef.current = null;
+    onDrivingDetectedRef.current = null;
+
+    if (motionSubscriptionRef.current) {
+      motionSubscriptionRef.current.remove();
+      motionSubscriptionRef.current = null;
     }
+    if (startGraceTimerRef.current) {
+      clearTimeout(startGraceTimerRef.current);
+      startGraceTimerRef.current = null;
+    }
+  }, []);
 
-    const now = Date.now();
-    isTrackingRef.current = true;
-    totalDistanceRef.current = 0;
-    startTimeRef.current = now;
+  const handleMotionFix = useCallback((point: LocationPoint) => {
+    if (!isMotionMonitoringRef.current) return;
 
-    setIsTracking(true);
-    setTotalDistance(0);
-    setStartTime(now);
-    previousLocationRef.current = null;
-    lastMovementTimeRef.current = now;
+    const speed = getPointSpeed(point, lastMotionFixRef.current);
+    lastMotionFixRef.current = point;
 
-    // Show notification
-    await showTripStartedNotification(vehicleName);
+    if (speed === null || speed < DRIVING_SPEED) {
+      // Slowed down before the grace period ran out — not a drive (yet)
+      if (startGraceTimerRef.current) {
+        clearTimeout(startGraceTimerRef.current);
+        startGraceTimerRef.current = null;
+      }
+      return;
+    }
 
-    // Get initial location
-    const initialLocation = await getCurrentLocation();
-    if (initialLocation) {
-      setCurrentLocation(initialLocation);
-      previousLocationRef.current = initialLocation;
+    if (startGraceTimerRef.current) return;
+    startGraceTimerRef.current = setTimeout(() => {
+      startGraceTimerRef.current = null;
+
+      // The watcher only reports after moving, so a stale fix means we stopped
+      const lastFix = lastMotionFixRef.current;
+      if (!isMotionMonitoringRef.current || !lastFix || Date.now() - lastFix.timestamp > START_GRACE_PERIOD) {
+        return;
+      }
+
+      console.log('[useLocationTracking] Sustained driving speed detected');
+      const onDrivingDetected = onDrivingDetectedRef.current;
+      stopMotionMonitoring();
+      onDrivingDetected?.();
+    }, START_GRACE_PERIOD);
+  }, [stopMotionMonitoring]);
+
+  const startMotionMonitoring = useCallback(async (onDrivingDetected: () => void) => {
+    if (isTrackingRef.current) return false;
+
+    stopMotionMonitoring();
+    isMotionMonitoringRef.current = true;
+    onDrivingDetectedRef.current = onDrivingDetected;
+
+    // Never prompt from here — monitoring is started without user interaction
+    if (!(await hasLocationPermissions())) {
+      console.warn('[useLocationTracking] Motion monitoring needs location permission');
+      stopMotionMonitoring();
+      return false;
     }
+    if (!isMotionMonitoringRef.current) return false;
+    setIsMotionMonitoring(true);
 
-    // Start foreground tracking
     const subscription = await Location.watchPositionAsync(
       {
-        accuracy: Location.Accuracy.High,
-        timeInterval: 5000,
-        distanceInterval: 10,
+        accuracy: Location.Accuracy.Balanced,
+        timeInterval: 15000,
+        distanceInterval: 50,
       },
       (location) => {
-        const point: LocationPoint = {
-          latitude: location.coords.latitude,
-          longitude: location.coords.longitude,
-          altitude: location.coords.altitude,
-          accuracy: location.coords.accuracy,
-          speed: location.coords.speed,
-          timestamp: location.timestamp,
-        };
-        handleLocationUpdate(point);
+        handleMotionFix(toLocationPoint(location));
       }
     );
 
-    locationSubscriptionRef.current = subscription;
-
-    // Start background tracking for when app goes to background
-    await startBackgroundLocationTracking();
-
+    // Monitoring may have been stopped while the watcher was starting
+    if (isMotionMonitoringRef.current) {
+      motionSubscriptionRef.current = subscription;
+    } else {
+      subscription.remove();
+    }
     return true;
-  }, []);
+  }, [handleMotionFix, stopMotionMonitoring]);
 
   // Handle location updates — reads from refs to avoid stale closures
-  const handleLocationUpdate = useCallback((location: LocationPoint) => {
+  const handleLocationUpdate = useCallback((raw: LocationPoint) => {
+    // Paused by the user: no distance, no auto-stop
+    if (isPausedRef.current) return;
+
+    // Backgrounded: the headless accumulator owns distance until we resume
+    if (!isForegroundAccumulating()) return;
+
+    // Noise filter: drop inaccurate fixes and impossible jumps, smooth the rest
+    const filtered = filterLocation(filterStateRef.current, raw);
+    filterStateRef.current = filtered.state;
+    if (!filtered.point) {
+      onPointRejectedRef.current?.(filtered.state.rejectedCount, filtered.rejectReason!);
+      return;
+    }
+    const location = filtered.point;
+
     setCurrentLocation(location);
 
     const previous = previousLocationRef.current;
@@ -211,6 +293,161 @@ export function useLocationTracking({
     previousLocationRef.current = location;
   }, [stopTrackingInternal]);
 
+  // Foreground watcher + background task shared by start and resume
+  const attachLocationWatchers = useCallback(async () => {
+    if (locationSubscriptionRef.current) {
+      locationSubscriptionRef.current.remove();
+      locationSubscriptionRef.current = null;
+    }
+
+    // Start foreground tracking
+    const subscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: 5000,
+        distanceInterval: 10,
+      },
+      (location) => {
+        handleLocationUpdate(toLocationPoint(location));
+      }
+    );
+
+    locationSubscriptionRef.current = subscription;
+
+    // Start background tracking for when app goes to background
+    await startBackgroundLocationTracking();
+  }, [handleLocationUpdate]);
+
+  // Start tracking
+  const startTracking = useCallback(async (vehicleName: string) => {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    
+    if (status !== 'granted') {
+      return false;
+    }
+
+    // A trip replaces motion monitoring until it ends
+    stopMotionMonitoring();
+
+    const now = Date.now();
+    isTrackingRef.current = true;
+    totalDistanceRef.current = 0;
+    startTimeRef.current = now;
+
+    setIsTracking(true);
+    setTotalDistance(0);
+    setStartTime(now);
+    previousLocationRef.current = null;
+    filterStateRef.current = createLocationFilterState();
+    lastMovementTimeRef.current = now;
+    isPausedRef.current = false;
+
+    // Show notification
+    await showTripStartedNotification(vehicleName);
+
+    // Get initial location — seeds the noise filter unless it is too inaccurate
+    const initialLocation = await getCurrentLocation();
+    if (initialLocation) {
+      const seeded = filterLocation(filterStateRef.current, initialLocation);
+      filterStateRef.current = seeded.state;
+      if (seeded.point) {
+        setCurrentLocation(seeded.point);
+        previousLocationRef.current = seeded.point;
+      }
+    }
+
+    await attachLocationWatchers();
+
+    return true;
+  }, [attachLocationWatchers, stopMotionMonitoring]);
+
+  // Resume tracking for a trip that was in progress before the app restarted.
+  // Continues from the persisted distance instead of starting from zero.
+  const resumeTracking = useCallback(async (vehicleName: string, resume: ResumeTrackingState) => {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+
+    if (status !== 'granted') {
+      return false;
+    }
+
+    stopMotionMonitoring();
+
+    const now = Date.now();
+    isTrackingRef.current = true;
+    totalDistanceRef.current = resume.totalMeters;
+    startTimeRef.current = resume.startTime;
+
+    setIsTracking(true);
+    setTotalDistance(resume.totalMeters);
+    setStartTime(resume.startTime);
+    previousLocationRef.current = resume.lastLocation;
+    filterStateRef.current = createLocationFilterState(resume.lastLocation, resume.rejectedCount);
+    lastMovementTimeRef.current = now;
+    isPausedRef.current = false;
+
+    try {
+      await showTripResumedNotification(vehicleName);
+    } catch (e) {
+      console.warn('[useLocationTracking] Notification error (non-fatal):', e);
+    }
+
+    await attachLocationWatchers();
+
+    return true;
+  }, [attachLocationWatchers, stopMotionMonitoring]);
+
+  // Adopt distance accumulated elsewhere (background task) so the next
+  // foreground fix continues from it instead of double counting
+  const syncDistance = useCallback((
+    totalMeters: number,
+    lastLocation: LocationPoint | null,
+    rejectedCount = 0
+  ) => {
+    if (totalMeters > totalDistanceRef.current) {
+      totalDistanceRef.current = totalMeters;
+      setTotalDistance(totalMeters);
+    }
+    const previous = previousLocationRef.current;
+    if (lastLocation && (!previous || lastLocation.timestamp > previous.timestamp)) {
+      previousLocationRef.current = lastLocation;
+      lastMovementTimeRef.current = Math.max(lastMovementTimeRef.current, lastLocation.timestamp);
+      filterStateRef.current = createLocationFilterState(
+        lastLocation,
+        Math.max(filterStateRef.current.rejectedCount, rejectedCount)
+      );
+    }
+  }, []);
+
+  // Replace the running total outright, e.g. when the trip's distance came
+  // from the car (OBD-II) and GPS takes over from that reading mid-trip
+  const rebaseDistance = useCallback((totalMeters: number) => {
+    totalDistanceRef.current = totalMeters;
+    setTotalDistance(totalMeters);
+  }, []);
+
+  // Suspend or continue accumulation without tearing down the GPS watchers.
+  // On resume the route restarts from the next fix so the stop isn't bridged.
+  const setTrackingPaused = useCallback((paused: boolean) => {
+    if (isPausedRef.current === paused) return;
+    isPausedRef.current = paused;
+
+    if (stopGraceTimerRef.current) {
+      clearTimeout(stopGraceTimerRef.current);
+      stopGraceTimerRef.current = null;
+    }
+
+    if (!paused) {
+      previousLocationRef.current = null;
+      filterStateRef.current = createLocationFilterState(null, filterStateRef.current.rejectedCount);
+      lastMovementTimeRef.current = Date.now();
+    }
+  }, []);
+
+  // Last fix seen by the watcher — lets callers record the trip's origin point
+  const getLastLocation = useCallback((): LocationPoint | null => {
+    return previousLocationRef.current;
+  }, []);
+
   // Public stopTracking — silent=true means caller handles finalization (prevents double-finalize)
   const stopTracking = useCallback(async (silent = false) => {
     await stopTrackingInternal(silent);
@@ -222,6 +459,9 @@ export function useLocationTracking({
       if (locationSubscriptionRef.current) {
         locationSubscriptionRef.current.remove();
       }
+      if (motionSubscriptionRef.current) {
+        motionSubscriptionRef.current.remove();
+      }
       if (startGraceTimerRef.current) {
         clearTimeout(startGraceTimerRef.current);
       }
@@ -251,6 +491,14 @@ export function useLocationTracking({
     totalDistance,
     startTime,
     startTracking,
+    resumeTracking,
     stopTracking,
+    getLastLocation,
+    syncDistance,
+    rebaseDistance,
+    setTrackingPaused,
+    isMotionMonitoring,
+    startMotionMonitoring,
+    stopMotionMonitoring,
   };
 }
@@ -1,15 +1,68 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Trip, Vehicle } from '../types/trip';
+import { AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Trip, Vehicle, TrackingGap, TripClassification, AutoStopFallback } from '../types/trip';
 import { 
   getActiveTrip, 
   setActiveTrip, 
-  saveTrip, 
+  updateActiveTrip,
+  completeActiveTrip,
+  isTripPaused,
+  getMovingDuration,
+  isMeasuredByObd,
 } from '../services/tripService';
-import { updateVehicleOdometer } from '../services/vehicleService';
+import { getVehicle } from '../services/vehicleService';
 import { useLocationTracking } from './useLocationTracking';
-import { metersToMiles } from '../services/locationService';
+import { metersToMiles, milesToMeters } from '../services/locationService';
+import { appendRoutePoint, appendRoutePoints, getRoute, compactRoute } from '../services/routeService';
 import { canAutoSync } from '../services/subscriptionService';
 import { syncTrips } from '../services/tripService';
+import {
+  showTripPausedNotification,
+  showTripResumedNotification,
+  TRIP_ACTION_PAUSE,
+  TRIP_ACTION_RESUME,
+} from '../services/notificationService';
+import { startObdDistanceSession, type ObdDistanceSession } from '../services/obdService';
+import type { LocationPoint } from '../services/locationService';
+
+// Only record a gap when fixes stopped for longer than normal GPS jitter
+const TRACKING_GAP_THRESHOLD = 60000; // 1 minute
+
+// Every append rewrites the stored route, so fixes are written in batches
+// rather than one by one — a long trip would otherwise slow down as it grows
+const ROUTE_FLUSH_POINTS = 20;
+const ROUTE_FLUSH_INTERVAL = 30000; // 30 seconds
+
+// A route point recorded before the trip's last pause must not anchor the
+// next distance segment, or the pause would be bridged with a straight line
+function getSegmentAnchor(trip: Trip, lastPoint: LocationPoint | null): LocationPoint | null {
+  const resumedAt = trip.pauses?.[trip.pauses.length - 1]?.endedAt ?? null;
+  if (!lastPoint || resumedAt === null) return lastPoint;
+  return lastPoint.timestamp >= resumedAt ? lastPoint : null;
+}
+
+function withDistance(trip: Trip, distanceMiles: number, now = new Date()): Trip {
+  return {
+    ...trip,
+    duration: now.getTime() - trip.startTime.getTime(),
+    movingDuration: getMovingDuration(trip, now.getTime()),
+    calculatedDistance: distanceMiles,
+    endOdometer: trip.startOdometer + distanceMiles,
+    updatedAt: now,
+  };
+}
+
+async function getVehicleName(vehicleId: string): Promise<string> {
+  const vehicle = await getVehicle(vehicleId);
+  return vehicle ? `${vehicle.year} ${vehicle.make} ${vehicle.model}` : 'your vehicle';
+}
+
+export interface StartTripOptions {
+  vehicle?: Vehicle;                      // defaults to the active vehicle
+  isAutoTracked?: boolean;
+  classification?: TripClassification;
+}
 
 interface UseTripTrackingOptions {
   activeVehicle: Vehicle | null;
@@ -26,6 +79,21 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
   const isFinalizingRef = useRef(false); // prevent double-finalize
   const onVehicleOdometerUpdatedRef = useRef(onVehicleOdometerUpdated);
 
+  // OBD-II distance session, when the car measures the trip instead of GPS.
+  // Miles the car covers while the trip is paused are excluded.
+  const obdSessionRef = useRef<ObdDistanceSession | null>(null);
+  const obdExcludedMilesRef = useRef(0);
+  const obdPausedAtMilesRef = useRef<number | null>(null);
+
+  // Progress saves run one after another, so an older write can't land
+  // after a newer one, and finalizing can wait for all of them
+  const progressWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingRouteRef = useRef<{ tripId: string; points: LocationPoint[]; since: number } | null>(null);
+
+  // Settles once a trip left active by the last run has been restored, so a
+  // stop that comes in early (AutoStart's launch recovery) finds it
+  const restoringRef = useRef<Promise<void> | null>(null);
+
   // Keep refs in sync with state/props
   useEffect(() => {
     activeVehicleRef.current = activeVehicle;
@@ -40,35 +108,77 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
     activeTripRef.current = activeTrip;
   }, [activeTrip]);
 
+  const queueProgressWrite = useCallback((task: () => Promise<unknown>, action: string): Promise<void> => {
+    const write = progressWritesRef.current.then(task).then(
+      () => {},
+      error => console.error(`[useTripTracking] Failed to ${action}:`, error)
+    );
+    progressWritesRef.current = write;
+    return write;
+  }, []);
+
+  // Write the buffered route points and wait for every queued save
+  const flushProgress = useCallback((): Promise<void> => {
+    const pending = pendingRouteRef.current;
+    pendingRouteRef.current = null;
+    if (pending && pending.points.length > 0) {
+      queueProgressWrite(() => appendRoutePoints(pending.tripId, pending.points), 'record route points');
+    }
+    return progressWritesRef.current;
+  }, [queueProgressWrite]);
+
+  const bufferRoutePoint = useCallback((tripId: string, point: LocationPoint) => {
+    const now = Date.now();
+    if (pendingRouteRef.current && pendingRouteRef.current.tripId !== tripId) flushProgress();
+    const pending = pendingRouteRef.current ?? { tripId, points: [], since: now };
+    pending.points.push(point);
+    pendingRouteRef.current = pending;
+    if (pending.points.length >= ROUTE_FLUSH_POINTS || now - pending.since >= ROUTE_FLUSH_INTERVAL) {
+      flushProgress();
+    }
+  }, [flushProgress]);
+
   // --- FIX: finalizeTrip reads from ref, not from stale closure
-  const finalizeTrip = useCallback(async (distance: number, duration: number) => {
+  // endTime defaults to now; AutoStart backdates it to the Bluetooth disconnect.
+  // Resolves true once the completed trip is saved.
+  const finalizeTrip = useCallback(async (distance: number, duration: number, endTime = new Date()) => {
     // Guard against double-finalize (can happen if stopTracking triggers onTripComplete
     // at the same time stopTrip manually calls finalizeTrip)
     if (isFinalizingRef.current) {
       console.log('[useTripTracking] finalizeTrip already in progress, skipping duplicate call');
-      return;
+      return false;
     }
     isFinalizingRef.current = true;
 
     const trip = activeTripRef.current; // read from ref, not stale closure
-    const vehicle = activeVehicleRef.current;
 
     if (!trip) {
       console.warn('[useTripTracking] finalizeTrip called but no activeTrip in ref');
       isFinalizingRef.current = false;
-      return;
+      return false;
     }
 
     let completedTrip: Trip | null = null;
+    let saved = false;
 
     try {
+      // The completed trip must include every fix recorded so far
+      await flushProgress();
+
       const now = new Date();
       const endOdometer = trip.startOdometer + distance;
 
+      // Stopping while paused closes the open pause at the stop time
+      const pauses = trip.pauses?.map(pause =>
+        pause.endedAt === null ? { ...pause, endedAt: Math.max(pause.startedAt, endTime.getTime()) } : pause
+      );
+
       const completed: Trip = {
         ...trip,
-        endTime: now,
+        endTime,
         duration,
+        pauses,
+        movingDuration: getMovingDuration({ ...trip, pauses }, endTime.getTime()),
         calculatedDistance: distance,
         endOdometer,
         status: 'completed',
@@ -76,18 +186,23 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
       };
       completedTrip = completed;
 
-      await saveTrip(completed);
-      await setActiveTrip(null);
+      // Trip, vehicle odometer and active trip are written together, so a
+      // crash can't leave a saved trip that is still active or never counted.
+      // Use the trip's own vehicle: a restored trip may not belong to the active one.
+      const odometerUpdated = await completeActiveTrip(completed, trip.vehicleId ? endOdometer : null);
+      saved = true;
+      if (odometerUpdated) {
+        // Notify parent (e.g. Dashboard) so AuthContext state is updated in real-time
+        onVehicleOdometerUpdatedRef.current?.(trip.vehicleId, endOdometer);
+      } else if (trip.vehicleId) {
+        console.warn('[useTripTracking] Vehicle not found, odometer not updated:', trip.vehicleId);
+      }
 
-      // Odometer update is best-effort — don't let failure block UI reset
-      if (vehicle) {
-        try {
-          await updateVehicleOdometer(vehicle.id, endOdometer);
-          // Notify parent (e.g. Dashboard) so AuthContext state is updated in real-time
-          onVehicleOdometerUpdatedRef.current?.(vehicle.id, endOdometer);
-        } catch (odometerError) {
-          console.error('[useTripTracking] Odometer update failed (trip still saved):', odometerError);
-        }
+      // Route compaction is best-effort — the raw route is still readable if it fails
+      try {
+        await compactRoute(completed.id);
+      } catch (compactError) {
+        console.error('[useTripTracking] Route compaction failed (trip still saved):', compactError);
       }
 
       console.log('[useTripTracking] Trip finalized:', completed.id, distance.toFixed(2), 'miles');
@@ -99,63 +214,217 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
     } catch (error) {
       console.error('[useTripTracking] finalizeTrip error:', error);
     } finally {
-      // ALWAYS reset UI state — even if saveTrip or other operations fail,
+      // ALWAYS reset UI state — even if saving the trip or other operations fail,
       // the trip tracking is stopped and user must not be stuck in tracking view
       activeTripRef.current = null;
       setActiveTripState(null);
       setIsTracking(false);
       isFinalizingRef.current = false;
+      obdSessionRef.current?.stop().catch(() => {});
+      obdSessionRef.current = null;
     }
-  }, []); // stable — reads from refs
+    return saved;
+  }, [flushProgress]); // stable — reads from refs
 
   const gpsDistanceRef = useRef(0);
 
+  // Trip miles from an OBD session reading, minus what was driven while paused
+  const getObdTripMiles = useCallback((sessionMiles: number): number => {
+    const pausedAt = obdPausedAtMilesRef.current;
+    const current = pausedAt ?? sessionMiles;
+    return Math.max(0, current - obdExcludedMilesRef.current);
+  }, []);
+
   const {
     isTracking: isGpsTracking,
     totalDistance: gpsDistance,
     startTracking: startGpsTracking,
+    resumeTracking: resumeGpsTracking,
     stopTracking: stopGpsTracking,
+    getLastLocation: getLastGpsLocation,
+    syncDistance: syncGpsDistance,
+    rebaseDistance: rebaseGpsDistance,
+    setTrackingPaused: setGpsTrackingPaused,
+    isMotionMonitoring,
+    startMotionMonitoring,
+    stopMotionMonitoring,
   } = useLocationTracking({
     onLocationUpdate: (location, distance) => {
       const currentTrip = activeTripRef.current;
-      if (!currentTrip || !activeVehicleRef.current) return;
+      if (!currentTrip || isFinalizingRef.current) return;
 
       gpsDistanceRef.current = distance; // keep ref in sync
-      const distanceMiles = metersToMiles(distance);
-      const now = new Date();
-      const duration = now.getTime() - currentTrip.startTime.getTime();
-      const updated: Trip = {
-        ...currentTrip,
-        duration,
-        calculatedDistance: distanceMiles,
-        endOdometer: currentTrip.startOdometer + distanceMiles,
-        updatedAt: now,
-      };
+      // While the car measures the trip, GPS fixes only extend the route
+      const obdSession = obdSessionRef.current;
+      const distanceMiles = obdSession ? getObdTripMiles(obdSession.getDistanceMiles()) : metersToMiles(distance);
+      const updated = withDistance(currentTrip, distanceMiles);
       activeTripRef.current = updated; // update ref immediately
       setActiveTripState(updated);
-      setActiveTrip(updated); // fire-and-forget save
+      queueProgressWrite(() => updateActiveTrip(updated), 'save trip progress');
+      bufferRoutePoint(updated.id, location);
+    },
+    onPointRejected: (rejectedCount, reason) => {
+      const currentTrip = activeTripRef.current;
+      if (!currentTrip) return;
+
+      console.log('[useTripTracking] GPS fix rejected:', reason);
+      // Persisted with the next accepted point or when the trip is finalized
+      const updated: Trip = { ...currentTrip, rejectedPointCount: rejectedCount };
+      activeTripRef.current = updated;
+      setActiveTripState(updated);
     },
     onTripComplete: async (totalDistance, duration) => {
       // Auto-complete (e.g. stationary timeout) — finalize from GPS callback
       console.log('[useTripTracking] onTripComplete fired (auto-stop)');
-      await finalizeTrip(metersToMiles(totalDistance), duration);
+      const obdSession = obdSessionRef.current;
+      obdSessionRef.current = null;
+      const distance = obdSession ? getObdTripMiles(await obdSession.stop()) : metersToMiles(totalDistance);
+      await finalizeTrip(distance, duration);
     },
   });
 
+  const handleObdUpdate = useCallback((sessionMiles: number) => {
+    const currentTrip = activeTripRef.current;
+    if (!currentTrip || !obdSessionRef.current || isTripPaused(currentTrip)) return;
+
+    const updated = withDistance(currentTrip, getObdTripMiles(sessionMiles));
+    activeTripRef.current = updated;
+    setActiveTripState(updated);
+    queueProgressWrite(() => updateActiveTrip(updated), 'save trip progress');
+  }, [getObdTripMiles, queueProgressWrite]);
+
+  // The adapter went quiet mid-trip: GPS carries on from the car's last reading
+  const handleObdLost = useCallback(async (sessionMiles: number) => {
+    obdSessionRef.current = null;
+    const currentTrip = activeTripRef.current;
+    if (!currentTrip?.obdDistance) return;
+
+    const miles = getObdTripMiles(sessionMiles);
+    gpsDistanceRef.current = milesToMeters(miles);
+    rebaseGpsDistance(gpsDistanceRef.current);
+
+    const updated: Trip = {
+      ...withDistance(currentTrip, miles),
+      obdDistance: { ...currentTrip.obdDistance, lostAt: Date.now(), milesAtLoss: miles },
+    };
+    activeTripRef.current = updated;
+    setActiveTripState(updated);
+    await updateActiveTrip(updated);
+    console.log('[useTripTracking] OBD-II lost at', miles.toFixed(2), 'miles — continuing on GPS');
+  }, [getObdTripMiles, rebaseGpsDistance]);
+
+  // Pull in distance the background task accumulated while the UI was suspended
+  const reconcileWithPersistedTrip = useCallback(async () => {
+    const currentTrip = activeTripRef.current;
+    // The car's own reading is authoritative while it measures the trip
+    if (!currentTrip || obdSessionRef.current) return;
+
+    const persisted = await getActiveTrip();
+    if (!persisted || persisted.id !== currentTrip.id) return;
+    if (persisted.calculatedDistance <= currentTrip.calculatedDistance) return;
+
+    const route = await getRoute(persisted.id);
+    const lastPoint = route.length > 0 ? route[route.length - 1] : null;
+    const totalMeters = milesToMeters(persisted.calculatedDistance);
+
+    gpsDistanceRef.current = Math.max(gpsDistanceRef.current, totalMeters);
+    syncGpsDistance(totalMeters, getSegmentAnchor(persisted, lastPoint), persisted.rejectedPointCount ?? 0);
+    activeTripRef.current = persisted;
+    setActiveTripState(persisted);
+    console.log(
+      '[useTripTracking] Reconciled background distance:',
+      persisted.calculatedDistance.toFixed(2),
+      'miles'
+    );
+  }, [syncGpsDistance]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        reconcileWithPersistedTrip().catch(error => {
+          console.error('[useTripTracking] Reconcile failed:', error);
+        });
+      } else if (nextState === 'background') {
+        flushProgress(); // the app may not come back to write them
+      }
+    });
+    return () => subscription.remove();
+  }, [reconcileWithPersistedTrip, flushProgress]);
+
+  // Crash/kill recovery: re-attach GPS to a trip that was active before the
+  // app restarted, continuing from its persisted distance and noting the gap
+  const resumeActiveTrip = useCallback(async (trip: Trip) => {
+    const route = await getRoute(trip.id);
+    const lastPoint = route.length > 0 ? route[route.length - 1] : null;
+    const now = Date.now();
+    const lastFixAt = lastPoint?.timestamp ?? trip.updatedAt.getTime();
+
+    // No fixes are expected while paused, so a quiet stretch is not a gap
+    let resumed = trip;
+    // The adapter session didn't survive the restart; GPS takes over from here
+    if (isMeasuredByObd(resumed) && resumed.obdDistance) {
+      resumed = {
+        ...resumed,
+        obdDistance: { ...resumed.obdDistance, lostAt: now, milesAtLoss: resumed.calculatedDistance },
+      };
+      await updateActiveTrip(resumed);
+      console.log('[useTripTracking] OBD-II session lost with the restart — continuing on GPS');
+    }
+    if (!isTripPaused(trip) && now - lastFixAt > TRACKING_GAP_THRESHOLD) {
+      const gap: TrackingGap = { startedAt: lastFixAt, endedAt: now, reason: 'app_restart' };
+      resumed = {
+        ...resumed,
+        trackingGaps: [...(resumed.trackingGaps ?? []), gap],
+        updatedAt: new Date(now),
+      };
+      await updateActiveTrip(resumed);
+      console.log('[useTripTracking] Recorded tracking gap of', Math.round((now - lastFixAt) / 1000), 's');
+    }
+
+    activeTripRef.current = resumed;
+    setActiveTripState(resumed);
+    setIsTracking(true);
+
+    const totalMeters = milesToMeters(resumed.calculatedDistance);
+    gpsDistanceRef.current = totalMeters;
+
+    const vehicleName = await getVehicleName(resumed.vehicleId);
+
+    const started = await resumeGpsTracking(vehicleName, {
+      startTime: resumed.startTime.getTime(),
+      totalMeters,
+      lastLocation: getSegmentAnchor(resumed, lastPoint),
+      rejectedCount: resumed.rejectedPointCount ?? 0,
+    });
+    if (!started) {
+      console.warn('[useTripTracking] Could not resume GPS for restored trip:', resumed.id);
+    } else {
+      setGpsTrackingPaused(isTripPaused(resumed));
+      console.log('[useTripTracking] Resumed GPS for restored trip:', resumed.id);
+    }
+  }, [resumeGpsTracking, setGpsTrackingPaused]);
+
   // Load any in-progress trip from storage on mount
   useEffect(() => {
-    (async () => {
+    restoringRef.current = (async () => {
       const trip = await getActiveTrip();
       if (trip && trip.status === 'active') {
-        activeTripRef.current = trip;
-        setActiveTripState(trip);
-        setIsTracking(true);
+        try {
+          await resumeActiveTrip(trip);
+        } catch (error) {
+          console.error('[useTripTracking] Failed to resume active trip:', error);
+          activeTripRef.current = trip;
+          setActiveTripState(trip);
+          setIsTracking(true);
+        }
       }
-    })();
-  }, []);
+    })().catch(error => {
+      console.error('[useTripTracking] Failed to load active trip:', error);
+    });
+  }, [resumeActiveTrip]);
 
-  const startTrip = async (): Promise<boolean> => {
-    const vehicle = activeVehicleRef.current;
+  const startTrip = async (options: StartTripOptions = {}): Promise<boolean> => {
+    const vehicle = options.vehicle ?? activeVehicleRef.current;
     if (!vehicle) {
       console.warn('[useTripTracking] startTrip called but no activeVehicle');
       return false;
@@ -170,6 +439,18 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
       return false;
     }
 
+    // Measure distance from the car when an OBD-II adapter is set up for it;
+    // GPS still records the route, and takes over if the adapter can't be read
+    obdExcludedMilesRef.current = 0;
+    obdPausedAtMilesRef.current = null;
+    const obdSession = await startObdDistanceSession({
+      onUpdate: handleObdUpdate,
+      onLost: (miles) => {
+        handleObdLost(miles).catch(error => console.error('[useTripTracking] OBD-II fallback failed:', error));
+      },
+    });
+    obdSessionRef.current = obdSession;
+
     const newTrip: Trip = {
       id: `trip-${Date.now()}`,
       vehicleId: vehicle.id,
@@ -182,8 +463,12 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
       duration: 0,
       status: 'active',
       notes: '',
-      classification: 'unclassified',
-      isAutoTracked: false,
+      classification: options.classification ?? 'unclassified',
+      isAutoTracked: options.isAutoTracked ?? false,
+      ...(obdSession && {
+        distanceSource: 'obd' as const,
+        obdDistance: { adapterName: obdSession.adapterName, method: obdSession.method, lostAt: null, milesAtLoss: null },
+      }),
       syncedAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -193,18 +478,135 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
     setActiveTripState(newTrip);
     await setActiveTrip(newTrip);
     setIsTracking(true);
+
+    // Record the origin fix so the route starts where the trip did
+    const origin = getLastGpsLocation();
+    if (origin) {
+      await appendRoutePoint(newTrip.id, origin);
+    }
     console.log('[useTripTracking] Trip started:', newTrip.id);
     return true;
   };
 
-  const stopTrip = async () => {
+  const pauseTrip = useCallback(async () => {
+    const currentTrip = activeTripRef.current;
+    if (!currentTrip || isTripPaused(currentTrip)) return;
+
+    const now = Date.now();
+    const updated: Trip = {
+      ...currentTrip,
+      pauses: [...(currentTrip.pauses ?? []), { startedAt: now, endedAt: null }],
+      updatedAt: new Date(now),
+    };
+    if (obdSessionRef.current) obdPausedAtMilesRef.current = obdSessionRef.current.getDistanceMiles();
+    activeTripRef.current = updated;
+    setActiveTripState(updated);
+    setGpsTrackingPaused(true);
+    await updateActiveTrip(updated);
+    console.log('[useTripTracking] Trip paused:', updated.id);
+
+    try {
+      await showTripPausedNotification(await getVehicleName(updated.vehicleId));
+    } catch (e) {
+      console.warn('[useTripTracking] Notification error (non-fatal):', e);
+    }
+  }, [setGpsTrackingPaused]);
+
+  const resumeTrip = useCallback(async () => {
+    const currentTrip = activeTripRef.current;
+    if (!currentTrip || !isTripPaused(currentTrip)) return;
+
+    const now = Date.now();
+    const pauses = currentTrip.pauses!.map(pause =>
+      pause.endedAt === null ? { ...pause, endedAt: now } : pause
+    );
+    const updated: Trip = {
+      ...currentTrip,
+      pauses,
+      movingDuration: getMovingDuration({ ...currentTrip, pauses }, now),
+      updatedAt: new Date(now),
+    };
+    const pausedAtMiles = obdPausedAtMilesRef.current;
+    if (obdSessionRef.current && pausedAtMiles !== null) {
+      obdExcludedMilesRef.current += obdSessionRef.current.getDistanceMiles() - pausedAtMiles;
+    }
+    obdPausedAtMilesRef.current = null;
+    activeTripRef.current = updated;
+    setActiveTripState(updated);
+    setGpsTrackingPaused(false);
+    await updateActiveTrip(updated);
+    console.log('[useTripTracking] Trip resumed after pause:', updated.id);
+
+    try {
+      await showTripResumedNotification(await getVehicleName(updated.vehicleId));
+    } catch (e) {
+      console.warn('[useTripTracking] Notification error (non-fatal):', e);
+    }
+  }, [setGpsTrackingPaused]);
+
+  // AutoStart can no longer end this trip from Bluetooth — the GPS stationary
+  // auto-stop will, and the trip keeps a note of why
+  const recordAutoStopFallback = useCallback(async (fallback: AutoStopFallback) => {
     const currentTrip = activeTripRef.current;
+    if (!currentTrip || currentTrip.autoStopFallback) return;
+
+    const updated: Trip = {
+      ...currentTrip,
+      autoStopFallback: fallback,
+      updatedAt: new Date(),
+    };
+    activeTripRef.current = updated;
+    setActiveTripState(updated);
+    await updateActiveTrip(updated);
+    console.log('[useTripTracking] Auto-stop fallback recorded:', fallback.reason);
+  }, []);
+
+  // Pause / Resume buttons on the trip notification
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      if (response.actionIdentifier === TRIP_ACTION_PAUSE) {
+        pauseTrip().catch(error => console.error('[useTripTracking] Pause from notification failed:', error));
+      } else if (response.actionIdentifier === TRIP_ACTION_RESUME) {
+        resumeTrip().catch(error => console.error('[useTripTracking] Resume from notification failed:', error));
+      }
+    });
+    return () => subscription.remove();
+  }, [pauseTrip, resumeTrip]);
+
+  // The trip to stop: the one being tracked, else one still being restored
+  // or left in storage when restoring it failed
+  const getTripToStop = async (): Promise<Trip | null> => {
+    await restoringRef.current;
+    if (activeTripRef.current) return activeTripRef.current;
+
+    const persisted = await getActiveTrip();
+    if (!persisted || persisted.status !== 'active') return null;
+    activeTripRef.current = persisted;
+    setActiveTripState(persisted);
+    gpsDistanceRef.current = milesToMeters(persisted.calculatedDistance);
+    return persisted;
+  };
+
+  // endedAt backdates the end of the trip (e.g. to when the car's Bluetooth
+  // disconnected); it is clamped to the trip's own time span.
+  // Resolves true if a trip was stopped and saved.
+  const stopTrip = async (endedAt?: number): Promise<boolean> => {
+    const currentTrip = await getTripToStop();
     if (!currentTrip) {
       console.warn('[useTripTracking] stopTrip called but no activeTrip');
-      return;
+      return false;
     }
     console.log('[useTripTracking] Stopping trip:', currentTrip.id);
 
+    await flushProgress();
+
+    // Catch up on anything the background task recorded since the last resume
+    try {
+      await reconcileWithPersistedTrip();
+    } catch (error) {
+      console.error('[useTripTracking] Reconcile before stop failed (non-fatal):', error);
+    }
+
     // Stop GPS silently — we handle finalization below to avoid double-finalize
     try {
       await stopGpsTracking(true);
@@ -212,18 +614,31 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
       console.error('[useTripTracking] Error stopping GPS (non-fatal):', error);
     }
 
-    // Use ref value for latest distance (avoids stale gpsDistance state)
-    const finalDistance = metersToMiles(gpsDistanceRef.current);
-    const duration = Date.now() - currentTrip.startTime.getTime();
+    // Use ref value for latest distance (avoids stale gpsDistance state),
+    // or the car's final reading when OBD-II is measuring the trip
+    const obdSession = obdSessionRef.current;
+    obdSessionRef.current = null;
+    let finalDistance = metersToMiles(gpsDistanceRef.current);
+    if (obdSession) {
+      try {
+        finalDistance = getObdTripMiles(await obdSession.stop());
+      } catch (error) {
+        console.error('[useTripTracking] Error stopping OBD-II session (using GPS distance):', error);
+      }
+    }
+    const startedAt = currentTrip.startTime.getTime();
+    const endTime = new Date(Math.min(Date.now(), Math.max(startedAt, endedAt ?? Date.now())));
+    const duration = endTime.getTime() - startedAt;
     
     try {
-      await finalizeTrip(finalDistance, duration);
+      return await finalizeTrip(finalDistance, duration, endTime);
     } catch (error) {
       console.error('[useTripTracking] finalizeTrip failed in stopTrip:', error);
       // Safety net: ensure UI is always reset even if finalizeTrip throws unexpectedly
       activeTripRef.current = null;
       setActiveTripState(null);
       setIsTracking(false);
+      return false;
     }
   };
 
@@ -231,7 +646,14 @@ export function useTripTracking({ activeVehicle, onVehicleOdometerUpdated }: Use
     activeTrip,
     // Only show isTracking from our own state — GPS state is internal
     isTracking,
+    isPaused: activeTrip ? isTripPaused(activeTrip) : false,
     startTrip,
     stopTrip,
+    pauseTrip,
+    resumeTrip,
+    recordAutoStopFallback,
+    isMotionMonitoring,
+    startMotionMonitoring,
+    stopMotionMonitoring,
   };
 }
\ No newline at end of file
@@ -1,73 +1,51 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Trip, TripFilters, SortOption } from '../types/trip';
-import { getTrips, deleteTrip as deleteServiceTrip, saveTrip } from '../services/tripService';
+import { getTrips, queryTrips, saveTrip } from '../services/tripService';
+import { trashTrip } from '../services/trashService';
 import { updateVehicleOdometer } from '../services/vehicleService';
 
 export function useTrips() {
   const [trips, setTrips] = useState<Trip[]>([]);
+  const [filteredTrips, setFilteredTrips] = useState<Trip[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<TripFilters>({ status: 'all' });
   const [sortBy, setSortBy] = useState<SortOption>('date-desc');
 
   const loadTrips = useCallback(async () => {
     setLoading(true);
-    const allTrips = await getTrips();
-    setTrips(allTrips);
-    setLoading(false);
+    try {
+      const allTrips = await getTrips();
+      setTrips(allTrips);
+      setError(null);
+    } catch (err) {
+      console.error('[useTrips] Failed to load trips:', err);
+      setError('Unable to load your trips');
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
   useEffect(() => {
     loadTrips();
   }, [loadTrips]);
 
-  const filteredTrips = useCallback(() => {
-    let result = [...trips];
-
-    // Filter by status
-    if (filters.status && filters.status !== 'all') {
-      if (filters.status === 'pending') {
-        result = result.filter(t => t.status === 'completed' || t.status === 'edited');
-      } else {
-        result = result.filter(t => t.status === filters.status);
-      }
-    }
-
-    // Filter by vehicle
-    if (filters.vehicleId) {
-      result = result.filter(t => t.vehicleId === filters.vehicleId);
-    }
-
-    // Filter by date range
-    if (filters.dateFrom) {
-      result = result.filter(t => t.startTime >= filters.dateFrom!);
-    }
-    if (filters.dateTo) {
-      result = result.filter(t => t.startTime <= filters.dateTo!);
-    }
-
-    // Filter by search query
-    if (filters.searchQuery) {
-      const query = filters.searchQuery.toLowerCase();
-      result = result.filter(t => t.notes.toLowerCase().includes(query));
-    }
-
-    // Sort
-    result.sort((a, b) => {
-      switch (sortBy) {
-        case 'date-desc':
-          return b.startTime.getTime() - a.startTime.getTime();
-        case 'date-asc':
-          return a.startTime.getTime() - b.startTime.getTime();
-        case 'distance-desc':
-          return (b.adjustedDistance || b.calculatedDistance) - (a.adjustedDistance || a.calculatedDistance);
-        case 'duration-desc':
-          return b.duration - a.duration;
-        default:
-          return 0;
-      }
-    });
-
-    return result;
+  // Re-query whenever the filters change or the trips were reloaded
+  useEffect(() => {
+    let cancelled = false;
+    queryTrips(filters, sortBy)
+      .then(result => {
+        if (cancelled) return;
+        setFilteredTrips(result);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('[useTrips] Failed to query trips:', err);
+        if (!cancelled) setError('Unable to load your trips');
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [trips, filters, sortBy]);
 
   const updateTrip = async (trip: Trip) => {
@@ -111,8 +89,9 @@ export function useTrips() {
     await loadTrips();
   };
 
+  // Moves the trip to the trash; the trips screen offers to undo it
   const deleteTrip = async (tripId: string) => {
-    await deleteServiceTrip(tripId);
+    await trashTrip(tripId);
     await loadTrips();
   };
 
@@ -121,9 +100,10 @@ export function useTrips() {
   };
 
   return {
-    trips: filteredTrips(),
+    trips: filteredTrips,
     allTrips: trips,
     loading,
+    error,
     filters,
     sortBy,
     setFilters,
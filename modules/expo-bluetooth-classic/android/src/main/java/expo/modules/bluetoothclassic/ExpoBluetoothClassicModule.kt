@@ -4,6 +4,7 @@ import android.bluetooth.BluetoothAdapter
 import android.bluetooth.BluetoothDevice
 import android.bluetooth.BluetoothManager
 import android.bluetooth.BluetoothProfile
+import android.bluetooth.BluetoothSocket
 import android.content.BroadcastReceiver
 import android.content.Context
 import android.content.Intent
@@ -13,11 +14,19 @@ import android.os.Bundle
 import androidx.core.os.bundleOf
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
+import java.io.IOException
+import java.util.UUID
+import java.util.concurrent.ConcurrentHashMap
+import kotlin.concurrent.thread
+
+// Serial Port Profile — what ELM327-style OBD-II adapters expose
+private val SPP_UUID: UUID = UUID.fromString("00001101-0000-1000-8000-00805F9B34FB")
 
 class ExpoBluetoothClassicModule : Module() {
 
   private var bluetoothReceiver: BroadcastReceiver? = null
   private var isListening = false
+  private val serialSockets = ConcurrentHashMap<String, BluetoothSocket>()
 
   private val context: Context
     get() = requireNotNull(appContext.reactContext) { "React context is not available" }
@@ -36,7 +45,9 @@ class ExpoBluetoothClassicModule : Module() {
     Events(
       "onDeviceConnected",
       "onDeviceDisconnected",
-      "onBluetoothStateChanged"
+      "onBluetoothStateChanged",
+      "onSerialData",
+      "onSerialClosed"
     )
 
     // ─── Get all paired/bonded Bluetooth devices ─────────────────────────
@@ -203,9 +214,48 @@ class ExpoBluetoothClassicModule : Module() {
       }
     }
 
+    // ─── Serial (RFCOMM / SPP) connections ───────────────────────────────
+    // Opens a socket to a bonded serial device (e.g. an OBD-II adapter) and
+    // streams whatever it sends back as onSerialData events.
+    AsyncFunction("openSerialConnection") { address: String ->
+      if (serialSockets.containsKey(address)) return@AsyncFunction true
+      val adapter = bluetoothAdapter ?: return@AsyncFunction false
+
+      try {
+        adapter.cancelDiscovery()
+        val socket = adapter.getRemoteDevice(address).createRfcommSocketToServiceRecord(SPP_UUID)
+        socket.connect()
+        serialSockets[address] = socket
+        thread(name = "bt-serial-$address", isDaemon = true) { readSerial(address, socket) }
+        true
+      } catch (e: IOException) {
+        false
+      } catch (e: SecurityException) {
+        false
+      }
+    }
+
+    AsyncFunction("writeSerial") { address: String, data: String ->
+      val socket = serialSockets[address] ?: return@AsyncFunction false
+      try {
+        socket.outputStream.write(data.toByteArray(Charsets.US_ASCII))
+        socket.outputStream.flush()
+        true
+      } catch (e: IOException) {
+        closeSerial(address)
+        false
+      }
+    }
+
+    AsyncFunction("closeSerialConnection") { address: String ->
+      closeSerial(address)
+      true
+    }
+
     // ─── Cleanup on module destroy ───────────────────────────────────────
     OnDestroy {
       stopListening()
+      serialSockets.keys.toList().forEach { closeSerial(it) }
     }
   }
 
@@ -221,6 +271,33 @@ class ExpoBluetoothClassicModule : Module() {
     }
   }
 
+  private fun readSerial(address: String, socket: BluetoothSocket) {
+    val buffer = ByteArray(1024)
+    try {
+      while (true) {
+        val count = socket.inputStream.read(buffer)
+        if (count < 0) break
+        sendEvent("onSerialData", bundleOf(
+          "address" to address,
+          "data" to String(buffer, 0, count, Charsets.US_ASCII)
+        ))
+      }
+    } catch (e: IOException) {
+      // Socket closed or the device went away
+    }
+    closeSerial(address)
+  }
+
+  private fun closeSerial(address: String) {
+    val socket = serialSockets.remove(address) ?: return
+    try {
+      socket.close()
+    } catch (e: IOException) {
+      // Already closed
+    }
+    sendEvent("onSerialClosed", bundleOf("address" to address))
+  }
+
   @Suppress("DEPRECATION")
   private fun getDeviceFromIntent(intent: Intent): BluetoothDevice? {
     return if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
@@ -8,7 +8,30 @@ export {
   addDeviceConnectedListener,
   addDeviceDisconnectedListener,
   addBluetoothStateChangedListener,
+  openSerialConnection,
+  writeSerial,
+  closeSerialConnection,
+  addSerialDataListener,
+  addSerialClosedListener,
+  setBluetoothClassicModule,
+  isUsingOverrideModule,
   type BondedDevice,
   type BluetoothConnectionEvent,
   type BluetoothStateEvent,
+  type SerialDataEvent,
+  type SerialClosedEvent,
+  type ExpoBluetoothClassicEvents,
+  type ExpoBluetoothClassicModuleType,
 } from './src/index';
+
+export {
+  FakeBluetoothClassicModule,
+  FAKE_BLUETOOTH_SCENARIOS,
+  FAKE_CAR_STEREO,
+  type FakeBluetoothAction,
+  type FakeBluetoothScenario,
+  type FakeBluetoothScenarioStep,
+  type FakeScenarioOptions,
+  type FakeScenarioRun,
+  type FakeSerialResponder,
+} from './src/FakeBluetoothClassicModule';
@@ -16,8 +16,25 @@ public class ExpoBluetoothClassicModule: Module {
     Events(
       "onDeviceConnected",
       "onDeviceDisconnected",
-      "onBluetoothStateChanged"
+      "onBluetoothStateChanged",
+      "onSerialData",
+      "onSerialClosed"
     )
+
+    // ─── Serial connections ──────────────────────────────────────────
+    // iOS only exposes MFi accessories over ExternalAccessory, so
+    // SPP devices such as ELM327 OBD-II adapters can't be opened.
+    AsyncFunction("openSerialConnection") { (address: String) -> Bool in
+      return false
+    }
+
+    AsyncFunction("writeSerial") { (address: String, data: String) -> Bool in
+      return false
+    }
+
+    AsyncFunction("closeSerialConnection") { (address: String) -> Bool in
+      return true
+    }
     
     // ─── Get connected External Accessories (Classic BT) ─────────────
     // On iOS, we can only see *currently connected* Classic BT accessories
@@ -0,0 +1,319 @@
+import type {
+  BondedDevice,
+  BluetoothStateEvent,
+  ExpoBluetoothClassicEvents,
+  ExpoBluetoothClassicModuleType,
+} from './index';
+
+/**
+ * In-memory stand-in for the native ExpoBluetoothClassic module.
+ *
+ * Behaves like the native side: events only fire while the connection
+ * listener is started, only bonded devices can connect, and switching the
+ * adapter off drops every connection. Drive it by hand (connectDevice,
+ * disconnectDevice, setBluetoothState) or with a scripted scenario.
+ * Serial devices are emulated by attaching a responder to a bonded address
+ * (attachSerialDevice); whatever it returns is sent back as onSerialData.
+ *
+ * Install it with setBluetoothClassicModule() to run the AutoStart flow in
+ * Expo Go, on web or in tests.
+ */
+
+type AdapterState = BluetoothStateEvent['state'];
+
+export type FakeBluetoothAction =
+  | { type: 'connect'; address: string }
+  | { type: 'disconnect'; address: string }
+  | { type: 'bluetooth_state'; state: AdapterState }
+  | { type: 'bond'; device: BondedDevice }
+  | { type: 'unbond'; address: string };
+
+export interface FakeBluetoothScenarioStep {
+  afterMs: number; // delay after the previous step
+  action: FakeBluetoothAction;
+}
+
+export interface FakeBluetoothScenario {
+  name: string;
+  description: string;
+  bondedDevices: BondedDevice[];
+  steps: FakeBluetoothScenarioStep[];
+}
+
+export interface FakeScenarioRun {
+  done: Promise<void>;
+  cancel: () => void;
+}
+
+export interface FakeScenarioOptions {
+  // Multiplies every delay — 0 runs the steps back-to-back (tests), 0.1 runs 10x faster
+  timeScale?: number;
+  onStep?: (step: FakeBluetoothScenarioStep, index: number) => void;
+}
+
+// Receives what was written to the serial connection, returns the reply (if any)
+export type FakeSerialResponder = (data: string) => string | null;
+
+type Listener = (...args: any[]) => void;
+type Subscription = ReturnType<ExpoBluetoothClassicModuleType['addListener']>;
+
+export class FakeBluetoothClassicModule implements ExpoBluetoothClassicModuleType {
+  private bonded = new Map<string, BondedDevice>();
+  private connected = new Set<string>();
+  private adapterState: AdapterState;
+  private listening = false;
+  private listeners = new Map<keyof ExpoBluetoothClassicEvents, Set<Listener>>();
+  private serialResponders = new Map<string, FakeSerialResponder>();
+  private openSerial = new Set<string>();
+
+  constructor(options: { bondedDevices?: BondedDevice[]; state?: AdapterState } = {}) {
+    this.adapterState = options.state ?? 'on';
+    options.bondedDevices?.forEach(device => this.bonded.set(device.address, device));
+  }
+
+  // ─── Module API ─────────────────────────────────────────────────────────────
+
+  async getBondedDevices(): Promise<BondedDevice[]> {
+    return this.adapterState === 'on' ? [...this.bonded.values()] : [];
+  }
+
+  async isDeviceConnected(address: string): Promise<boolean> {
+    return this.connected.has(address);
+  }
+
+  async startConnectionListener(): Promise<boolean> {
+    this.listening = true;
+    return true;
+  }
+
+  async stopConnectionListener(): Promise<boolean> {
+    this.listening = false;
+    return true;
+  }
+
+  async getBluetoothState(): Promise<'on' | 'off' | 'unavailable'> {
+    if (this.adapterState === 'on' || this.adapterState === 'turning_off') return 'on';
+    if (this.adapterState === 'unavailable') return 'unavailable';
+    return 'off';
+  }
+
+  async openSerialConnection(address: string): Promise<boolean> {
+    if (!this.bonded.has(address) || this.adapterState !== 'on') return false;
+    if (!this.serialResponders.has(address)) return false;
+    this.openSerial.add(address);
+    return true;
+  }
+
+  async writeSerial(address: string, data: string): Promise<boolean> {
+    const responder = this.serialResponders.get(address);
+    if (!responder || !this.openSerial.has(address)) return false;
+
+    const reply = responder(data);
+    if (reply) {
+      // The native side reads on its own thread, so replies never arrive synchronously
+      setTimeout(() => {
+        if (this.openSerial.has(address)) this.emitSerial('onSerialData', { address, data: reply });
+      }, 0);
+    }
+    return true;
+  }
+
+  async closeSerialConnection(address: string): Promise<boolean> {
+    this.closeSerial(address);
+    return true;
+  }
+
+  addListener<EventName extends keyof ExpoBluetoothClassicEvents>(
+    eventName: EventName,
+    listener: ExpoBluetoothClassicEvents[EventName]
+  ): Subscription {
+    const set = this.listeners.get(eventName) ?? new Set<Listener>();
+    set.add(listener);
+    this.listeners.set(eventName, set);
+    return { remove: () => set.delete(listener) };
+  }
+
+  // ─── Driving the fake ───────────────────────────────────────────────────────
+
+  bondDevice(device: BondedDevice): void {
+    this.bonded.set(device.address, device);
+  }
+
+  unbondDevice(address: string): void {
+    this.disconnectDevice(address);
+    this.closeSerial(address);
+    this.bonded.delete(address);
+  }
+
+  attachSerialDevice(address: string, responder: FakeSerialResponder): void {
+    this.serialResponders.set(address, responder);
+  }
+
+  detachSerialDevice(address: string): void {
+    this.closeSerial(address);
+    this.serialResponders.delete(address);
+  }
+
+  connectDevice(address: string): boolean {
+    const device = this.bonded.get(address);
+    if (!device || this.adapterState !== 'on' || this.connected.has(address)) return false;
+
+    this.connected.add(address);
+    this.emit('onDeviceConnected', { id: device.id, name: device.name, address: device.address });
+    return true;
+  }
+
+  disconnectDevice(address: string): boolean {
+    if (!this.connected.delete(address)) return false;
+
+    const device = this.bonded.get(address);
+    this.emit('onDeviceDisconnected', {
+      id: device?.id ?? address,
+      name: device?.name ?? 'Unknown Device',
+      address,
+    });
+    return true;
+  }
+
+  setBluetoothState(state: AdapterState): void {
+    if (state === this.adapterState) return;
+    this.adapterState = state;
+
+    // The stack reports links dropping before the adapter finishes turning off
+    if (state !== 'on') {
+      [...this.connected].forEach(address => this.disconnectDevice(address));
+      [...this.openSerial].forEach(address => this.closeSerial(address));
+    }
+    this.emit('onBluetoothStateChanged', { state });
+  }
+
+  apply(action: FakeBluetoothAction): void {
+    switch (action.type) {
+      case 'connect':
+        this.connectDevice(action.address);
+        break;
+      case 'disconnect':
+        this.disconnectDevice(action.address);
+        break;
+      case 'bluetooth_state':
+        this.setBluetoothState(action.state);
+        break;
+      case 'bond':
+        this.bondDevice(action.device);
+        break;
+      case 'unbond':
+        this.unbondDevice(action.address);
+        break;
+    }
+  }
+
+  runScenario(scenario: FakeBluetoothScenario, options: FakeScenarioOptions = {}): FakeScenarioRun {
+    const timeScale = options.timeScale ?? 1;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let finish: () => void = () => {};
+
+    scenario.bondedDevices.forEach(device => this.bondDevice(device));
+
+    const done = new Promise<void>(resolve => {
+      finish = resolve;
+      const runStep = (index: number) => {
+        if (cancelled || index >= scenario.steps.length) {
+          resolve();
+          return;
+        }
+        const step = scenario.steps[index];
+        timer = setTimeout(() => {
+          if (cancelled) return;
+          this.apply(step.action);
+          options.onStep?.(step, index);
+          runStep(index + 1);
+        }, step.afterMs * timeScale);
+      };
+      runStep(0);
+    });
+
+    return {
+      done,
+      cancel: () => {
+        cancelled = true;
+        if (timer) clearTimeout(timer);
+        finish();
+      },
+    };
+  }
+
+  private closeSerial(address: string): void {
+    if (this.openSerial.delete(address)) this.emitSerial('onSerialClosed', { address });
+  }
+
+  // Serial events don't depend on the connection listener, as on the native side
+  private emitSerial<EventName extends 'onSerialData' | 'onSerialClosed'>(
+    eventName: EventName,
+    ...args: Parameters<ExpoBluetoothClassicEvents[EventName]>
+  ): void {
+    this.listeners.get(eventName)?.forEach(listener => listener(...args));
+  }
+
+  private emit<EventName extends keyof ExpoBluetoothClassicEvents>(
+    eventName: EventName,
+    ...args: Parameters<ExpoBluetoothClassicEvents[EventName]>
+  ): void {
+    if (!this.listening) return;
+    this.listeners.get(eventName)?.forEach(listener => listener(...args));
+  }
+}
+
+// ─── Scripted scenarios ───────────────────────────────────────────────────────
+
+const MINUTE = 60 * 1000;
+
+export const FAKE_CAR_STEREO: BondedDevice = {
+  id: '00:11:22:AA:BB:01',
+  name: 'Fake Car Stereo',
+  address: '00:11:22:AA:BB:01',
+  type: 'classic',
+  bondState: 'bonded',
+};
+
+export const FAKE_BLUETOOTH_SCENARIOS: FakeBluetoothScenario[] = [
+  {
+    name: 'commute',
+    description: 'Connect, drive for 20 minutes, disconnect',
+    bondedDevices: [FAKE_CAR_STEREO],
+    steps: [
+      { afterMs: 2000, action: { type: 'connect', address: FAKE_CAR_STEREO.address } },
+      { afterMs: 20 * MINUTE, action: { type: 'disconnect', address: FAKE_CAR_STEREO.address } },
+    ],
+  },
+  {
+    name: 'quick-stop',
+    description: 'Disconnect for 2 minutes mid-drive (fuel stop), then continue',
+    bondedDevices: [FAKE_CAR_STEREO],
+    steps: [
+      { afterMs: 2000, action: { type: 'connect', address: FAKE_CAR_STEREO.address } },
+      { afterMs: 10 * MINUTE, action: { type: 'disconnect', address: FAKE_CAR_STEREO.address } },
+      { afterMs: 2 * MINUTE, action: { type: 'connect', address: FAKE_CAR_STEREO.address } },
+      { afterMs: 10 * MINUTE, action: { type: 'disconnect', address: FAKE_CAR_STEREO.address } },
+    ],
+  },
+  {
+    name: 'driveway',
+    description: 'Connect and disconnect without driving anywhere',
+    bondedDevices: [FAKE_CAR_STEREO],
+    steps: [
+      { afterMs: 2000, action: { type: 'connect', address: FAKE_CAR_STEREO.address } },
+      { afterMs: 3 * MINUTE, action: { type: 'disconnect', address: FAKE_CAR_STEREO.address } },
+    ],
+  },
+  {
+    name: 'adapter-off',
+    description: 'Bluetooth is switched off 5 minutes into a drive',
+    bondedDevices: [FAKE_CAR_STEREO],
+    steps: [
+      { afterMs: 2000, action: { type: 'connect', address: FAKE_CAR_STEREO.address } },
+      { afterMs: 5 * MINUTE, action: { type: 'bluetooth_state', state: 'off' } },
+      { afterMs: 5 * MINUTE, action: { type: 'bluetooth_state', state: 'on' } },
+    ],
+  },
+];
@@ -1,5 +1,5 @@
-import { NativeModule, requireNativeModule } from 'expo-modules-core';
-import { EventEmitter, EventSubscription } from 'expo-modules-core';
+import { requireNativeModule } from 'expo-modules-core';
+import type { EventSubscription } from 'expo-modules-core';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -21,23 +21,53 @@ export interface BluetoothStateEvent {
   state: 'on' | 'off' | 'turning_on' | 'turning_off' | 'unavailable' | 'unknown';
 }
 
+// A chunk of text received over an open serial (SPP) connection
+export interface SerialDataEvent {
+  address: string;
+  data: string;
+}
+
+export interface SerialClosedEvent {
+  address: string;
+}
+
+export type ExpoBluetoothClassicEvents = {
+  onDeviceConnected: (event: BluetoothConnectionEvent) => void;
+  onDeviceDisconnected: (event: BluetoothConnectionEvent) => void;
+  onBluetoothStateChanged: (event: BluetoothStateEvent) => void;
+  onSerialData: (event: SerialDataEvent) => void;
+  onSerialClosed: (event: SerialClosedEvent) => void;
+};
+
 // ─── Native Module ────────────────────────────────────────────────────────────
 
-interface ExpoBluetoothClassicModuleType extends NativeModule {
+/**
+ * The surface the wrappers below rely on. The native module satisfies it
+ * (native modules are event emitters), and so does FakeBluetoothClassicModule.
+ */
+export interface ExpoBluetoothClassicModuleType {
   getBondedDevices(): Promise<BondedDevice[]>;
   isDeviceConnected(address: string): Promise<boolean>;
   startConnectionListener(): Promise<boolean>;
   stopConnectionListener(): Promise<boolean>;
   getBluetoothState(): Promise<'on' | 'off' | 'unavailable'>;
+  openSerialConnection(address: string): Promise<boolean>;
+  writeSerial(address: string, data: string): Promise<boolean>;
+  closeSerialConnection(address: string): Promise<boolean>;
+  addListener<EventName extends keyof ExpoBluetoothClassicEvents>(
+    eventName: EventName,
+    listener: ExpoBluetoothClassicEvents[EventName]
+  ): EventSubscription;
 }
 
 // Load native module — will throw if not available (handled by wrapper)
 let nativeModule: ExpoBluetoothClassicModuleType | null = null;
-let emitter: EventEmitter | null = null;
+
+// Installed in place of the native module (simulation, tests)
+let overrideModule: ExpoBluetoothClassicModuleType | null = null;
 
 try {
   nativeModule = requireNativeModule<ExpoBluetoothClassicModuleType>('ExpoBluetoothClassic');
-  emitter = new EventEmitter(nativeModule);
 } catch (error) {
   console.warn(
     '[ExpoBluetoothClassic] Native module not available. ' +
@@ -46,14 +76,31 @@ try {
   );
 }
 
+function getModule(): ExpoBluetoothClassicModuleType | null {
+  return overrideModule ?? nativeModule;
+}
+
+/**
+ * Replace the native module with another implementation, e.g. a
+ * FakeBluetoothClassicModule. Pass null to go back to the native module.
+ * Listeners added before the swap stay on the previous implementation.
+ */
+export function setBluetoothClassicModule(module: ExpoBluetoothClassicModuleType | null): void {
+  overrideModule = module;
+}
+
+export function isUsingOverrideModule(): boolean {
+  return overrideModule !== null;
+}
+
 // ─── Public API (safe wrappers with fallbacks) ────────────────────────────────
 
 /**
- * Check if the native Classic Bluetooth module is available.
- * Returns false in Expo Go or web.
+ * Check if a Classic Bluetooth module is available.
+ * Returns false in Expo Go or web unless a fake has been installed.
  */
 export function isAvailable(): boolean {
-  return nativeModule !== null;
+  return getModule() !== null;
 }
 
 /**
@@ -62,9 +109,10 @@ export function isAvailable(): boolean {
  * On iOS: returns currently connected External Accessories only.
  */
 export async function getBondedDevices(): Promise<BondedDevice[]> {
-  if (!nativeModule) return [];
+  const bluetooth = getModule();
+  if (!bluetooth) return [];
   try {
-    return await nativeModule.getBondedDevices();
+    return await bluetooth.getBondedDevices();
   } catch (error) {
     console.error('[ExpoBluetoothClassic] getBondedDevices error:', error);
     return [];
@@ -75,9 +123,10 @@ export async function getBondedDevices(): Promise<BondedDevice[]> {
  * Check if a specific Bluetooth device is currently connected.
  */
 export async function isDeviceConnected(address: string): Promise<boolean> {
-  if (!nativeModule) return false;
+  const bluetooth = getModule();
+  if (!bluetooth) return false;
   try {
-    return await nativeModule.isDeviceConnected(address);
+    return await bluetooth.isDeviceConnected(address);
   } catch (error) {
     console.error('[ExpoBluetoothClassic] isDeviceConnected error:', error);
     return false;
@@ -90,9 +139,10 @@ export async function isDeviceConnected(address: string): Promise<boolean> {
  * On iOS: registers for EAAccessory notifications.
  */
 export async function startConnectionListener(): Promise<boolean> {
-  if (!nativeModule) return false;
+  const bluetooth = getModule();
+  if (!bluetooth) return false;
   try {
-    return await nativeModule.startConnectionListener();
+    return await bluetooth.startConnectionListener();
   } catch (error) {
     console.error('[ExpoBluetoothClassic] startConnectionListener error:', error);
     return false;
@@ -103,9 +153,10 @@ export async function startConnectionListener(): Promise<boolean> {
  * Stop listening for connection events.
  */
 export async function stopConnectionListener(): Promise<boolean> {
-  if (!nativeModule) return false;
+  const bluetooth = getModule();
+  if (!bluetooth) return false;
   try {
-    return await nativeModule.stopConnectionListener();
+    return await bluetooth.stopConnectionListener();
   } catch (error) {
     console.error('[ExpoBluetoothClassic] stopConnectionListener error:', error);
     return false;
@@ -116,15 +167,62 @@ export async function stopConnectionListener(): Promise<boolean> {
  * Get the current Bluetooth adapter state.
  */
 export async function getBluetoothState(): Promise<'on' | 'off' | 'unavailable'> {
-  if (!nativeModule) return 'unavailable';
+  const bluetooth = getModule();
+  if (!bluetooth) return 'unavailable';
   try {
-    return await nativeModule.getBluetoothState();
+    return await bluetooth.getBluetoothState();
   } catch (error) {
     console.error('[ExpoBluetoothClassic] getBluetoothState error:', error);
     return 'unavailable';
   }
 }
 
+// ─── Serial Connections ───────────────────────────────────────────────────────
+
+/**
+ * Open a serial (SPP / RFCOMM) connection to a bonded device, such as an
+ * ELM327 OBD-II adapter. Incoming data arrives via addSerialDataListener.
+ * On iOS: not supported (SPP needs MFi), always resolves false.
+ */
+export async function openSerialConnection(address: string): Promise<boolean> {
+  const bluetooth = getModule();
+  if (!bluetooth) return false;
+  try {
+    return await bluetooth.openSerialConnection(address);
+  } catch (error) {
+    console.error('[ExpoBluetoothClassic] openSerialConnection error:', error);
+    return false;
+  }
+}
+
+/**
+ * Write ASCII text to an open serial connection.
+ */
+export async function writeSerial(address: string, data: string): Promise<boolean> {
+  const bluetooth = getModule();
+  if (!bluetooth) return false;
+  try {
+    return await bluetooth.writeSerial(address, data);
+  } catch (error) {
+    console.error('[ExpoBluetoothClassic] writeSerial error:', error);
+    return false;
+  }
+}
+
+/**
+ * Close a serial connection. Safe to call when it isn't open.
+ */
+export async function closeSerialConnection(address: string): Promise<boolean> {
+  const bluetooth = getModule();
+  if (!bluetooth) return false;
+  try {
+    return await bluetooth.closeSerialConnection(address);
+  } catch (error) {
+    console.error('[ExpoBluetoothClassic] closeSerialConnection error:', error);
+    return false;
+  }
+}
+
 // ─── Event Subscriptions ──────────────────────────────────────────────────────
 
 /**
@@ -134,8 +232,9 @@ export async function getBluetoothState(): Promise<'on' | 'off' | 'unavailable'>
 export function addDeviceConnectedListener(
   callback: (event: BluetoothConnectionEvent) => void
 ): EventSubscription | null {
-  if (!emitter) return null;
-  return emitter.addListener('onDeviceConnected', callback);
+  const bluetooth = getModule();
+  if (!bluetooth) return null;
+  return bluetooth.addListener('onDeviceConnected', callback);
 }
 
 /**
@@ -145,8 +244,9 @@ export function addDeviceConnectedListener(
 export function addDeviceDisconnectedListener(
   callback: (event: BluetoothConnectionEvent) => void
 ): EventSubscription | null {
-  if (!emitter) return null;
-  return emitter.addListener('onDeviceDisconnected', callback);
+  const bluetooth = getModule();
+  if (!bluetooth) return null;
+  return bluetooth.addListener('onDeviceDisconnected', callback);
 }
 
 /**
@@ -155,6 +255,29 @@ export function addDeviceDisconnectedListener(
 export function addBluetoothStateChangedListener(
   callback: (event: BluetoothStateEvent) => void
 ): EventSubscription | null {
-  if (!emitter) return null;
-  return emitter.addListener('onBluetoothStateChanged', callback);
+  const bluetooth = getModule();
+  if (!bluetooth) return null;
+  return bluetooth.addListener('onBluetoothStateChanged', callback);
+}
+
+/**
+ * Subscribe to data received on any open serial connection.
+ */
+export function addSerialDataListener(
+  callback: (event: SerialDataEvent) => void
+): EventSubscription | null {
+  const bluetooth = getModule();
+  if (!bluetooth) return null;
+  return bluetooth.addListener('onSerialData', callback);
+}
+
+/**
+ * Subscribe to serial connections closing, whether closed by us or dropped.
+ */
+export function addSerialClosedListener(
+  callback: (event: SerialClosedEvent) => void
+): EventSubscription | null {
+  const bluetooth = getModule();
+  if (!bluetooth) return null;
+  return bluetooth.addListener('onSerialClosed', callback);
 }
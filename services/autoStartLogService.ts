@@ -0,0 +1,117 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { storage } from './storageService';
+import { withWriteLock } from './writeQueue';
+
+/**
+ * AutoStart event log.
+ *
+ * A persistent, capped timeline of what the AutoStart pipeline saw and did
+ * (device events, phase changes, monitoring mode, adapter state, trip
+ * start/stop results, errors). Shown in Settings and exportable as a text
+ * file so a misfire can be diagnosed from a bug report.
+ */
+
+const AUTOSTART_LOG_KEY = '@garageminder_autostart_log';
+const MAX_LOG_ENTRIES = 500;
+
+export type AutoStartEventType =
+  | 'device_connected'
+  | 'device_disconnected'
+  | 'phase_change'
+  | 'monitoring_mode'
+  | 'bluetooth_state'
+  | 'trip_start'
+  | 'trip_stop'
+  | 'error';
+
+export interface AutoStartLogEntry {
+  id: string;
+  timestamp: number;
+  type: AutoStartEventType;
+  message: string;
+  details?: Record<string, string | number | boolean | null>;
+}
+
+let entryCounter = 0;
+
+export async function getAutoStartLog(): Promise<AutoStartLogEntry[]> {
+  try {
+    const data = await storage.getItem(AUTOSTART_LOG_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('[AutoStartLog] Failed to read log:', error);
+    return [];
+  }
+}
+
+// Never throws — logging must not break the flow it is describing
+export async function logAutoStartEvent(
+  type: AutoStartEventType,
+  message: string,
+  details?: AutoStartLogEntry['details']
+): Promise<void> {
+  const entry: AutoStartLogEntry = {
+    id: `${Date.now()}-${entryCounter++}`,
+    timestamp: Date.now(),
+    type,
+    message,
+    details,
+  };
+
+  try {
+    await withWriteLock([AUTOSTART_LOG_KEY], async () => {
+      const log = await getAutoStartLog();
+      log.push(entry);
+      await storage.setItem(AUTOSTART_LOG_KEY, JSON.stringify(log.slice(-MAX_LOG_ENTRIES)));
+    });
+  } catch (error) {
+    console.error('[AutoStartLog] Failed to write entry:', error);
+  }
+}
+
+// Resolves false if the log couldn't be cleared
+export async function clearAutoStartLog(): Promise<boolean> {
+  try {
+    await withWriteLock([AUTOSTART_LOG_KEY], () => storage.removeItem(AUTOSTART_LOG_KEY));
+    return true;
+  } catch (error) {
+    console.error('[AutoStartLog] Failed to clear log:', error);
+    return false;
+  }
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+export function formatAutoStartLog(entries: AutoStartLogEntry[]): string {
+  const lines = entries.map(entry => {
+    const details = entry.details
+      ? ' ' + Object.entries(entry.details).map(([key, value]) => `${key}=${value}`).join(' ')
+      : '';
+    return `${new Date(entry.timestamp).toISOString()} [${entry.type}] ${entry.message}${details}`;
+  });
+  return [`GarageMinder AutoStart log — ${entries.length} events`, '', ...lines].join('\n');
+}
+
+export async function shareAutoStartLog(): Promise<boolean> {
+  try {
+    const entries = await getAutoStartLog();
+    const fileUri = `${FileSystem.documentDirectory}garageminder_autostart_log_${Date.now()}.txt`;
+    await FileSystem.writeAsStringAsync(fileUri, formatAutoStartLog(entries), {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'text/plain',
+        dialogTitle: 'Export AutoStart Log',
+        UTI: 'public.plain-text',
+      });
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error('[AutoStartLog] Failed to export log:', error);
+    return false;
+  }
+}
@@ -0,0 +1,142 @@
+import type { Trip } from '../types/trip';
+import type { AutoStartSettings, BluetoothDeviceMapping } from './bluetoothService';
+
+/**
+ * Weekly AutoStart schedule.
+ *
+ * A schedule is a set of windows (days plus a time range, local time). It can
+ * keep AutoStart from starting trips outside those windows, mark trips that
+ * start inside them as business, or both. Settings hold a global schedule; a
+ * device mapping can carry its own, which replaces the global one for trips
+ * that device starts.
+ */
+
+export interface AutoStartScheduleWindow {
+  days: number[];        // 0 = Sunday … 6 = Saturday, the day the window opens
+  startMinutes: number;  // minutes after midnight
+  endMinutes: number;    // exclusive; at or before startMinutes runs past midnight
+}
+
+export interface AutoStartSchedule {
+  windows: AutoStartScheduleWindow[];
+  onlyInsideWindows: boolean;   // don't auto-start trips outside the windows
+  classifyAsBusiness: boolean;  // trips started inside a window are business
+}
+
+export interface ScheduleDecision {
+  allowed: boolean;
+  insideWindow: boolean;
+  classification: Trip['classification'];
+}
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_SCHEDULE_WINDOW: AutoStartScheduleWindow = {
+  days: WEEKDAYS,
+  startMinutes: 8 * 60,
+  endMinutes: 18 * 60,
+};
+
+export const DEFAULT_AUTOSTART_SCHEDULE: AutoStartSchedule = {
+  windows: [DEFAULT_SCHEDULE_WINDOW],
+  onlyInsideWindows: false,
+  classifyAsBusiness: false,
+};
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+export function isWithinWindow(window: AutoStartScheduleWindow, date: Date): boolean {
+  const day = date.getDay();
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  if (window.startMinutes < window.endMinutes) {
+    return window.days.includes(day) && minutes >= window.startMinutes && minutes < window.endMinutes;
+  }
+
+  // Overnight: the evening part belongs to today, the early hours to yesterday's window
+  const yesterday = (day + 6) % 7;
+  return (window.days.includes(day) && minutes >= window.startMinutes) ||
+    (window.days.includes(yesterday) && minutes < window.endMinutes);
+}
+
+export function isWithinSchedule(schedule: AutoStartSchedule, date: Date = new Date()): boolean {
+  return schedule.windows.some(window => isWithinWindow(window, date));
+}
+
+export function isScheduleActive(schedule: AutoStartSchedule): boolean {
+  return schedule.onlyInsideWindows || schedule.classifyAsBusiness;
+}
+
+// A device's own schedule replaces the global one
+export function getEffectiveSchedule(
+  settings: AutoStartSettings,
+  mapping?: BluetoothDeviceMapping | null
+): AutoStartSchedule {
+  return mapping?.schedule ?? settings.schedule;
+}
+
+/**
+ * Whether AutoStart may start a trip now, and how to classify it.
+ * Outside an active schedule the usual tripClassification default applies.
+ */
+export function evaluateAutoStartSchedule(
+  settings: AutoStartSettings,
+  mapping?: BluetoothDeviceMapping | null,
+  date: Date = new Date()
+): ScheduleDecision {
+  const schedule = getEffectiveSchedule(settings, mapping);
+  const insideWindow = isWithinSchedule(schedule, date);
+  const defaultClassification = settings.tripClassification === 'ask' ? 'unclassified' : settings.tripClassification;
+
+  return {
+    allowed: !schedule.onlyInsideWindows || insideWindow,
+    insideWindow,
+    classification: schedule.classifyAsBusiness && insideWindow ? 'business' : defaultClassification,
+  };
+}
+
+// ─── Formatting ───────────────────────────────────────────────────────────────
+
+export function formatScheduleTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+// "08:30" → 510; null for anything that isn't a valid 24-hour time
+export function parseScheduleTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+}
+
+export function getDayLabel(day: number): string {
+  return DAY_LABELS[day];
+}
+
+function formatDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Every day';
+  if (sorted.join() === WEEKDAYS.join()) return 'Weekdays';
+  if (sorted.join() === '0,6') return 'Weekends';
+  return sorted.map(getDayLabel).join(', ');
+}
+
+export function formatScheduleWindow(window: AutoStartScheduleWindow): string {
+  return `${formatDays(window.days)} ${formatScheduleTime(window.startMinutes)}–${formatScheduleTime(window.endMinutes)}`;
+}
+
+export function formatScheduleSummary(schedule: AutoStartSchedule): string {
+  if (!isScheduleActive(schedule)) return 'Any time';
+  if (schedule.windows.length === 0) return schedule.onlyInsideWindows ? 'Never — no windows set' : 'No windows set';
+
+  const windows = schedule.windows.map(formatScheduleWindow).join('; ');
+  if (schedule.onlyInsideWindows && schedule.classifyAsBusiness) return `${windows} · Business`;
+  if (schedule.onlyInsideWindows) return windows;
+  return `Business during ${windows}`;
+}
@@ -1,6 +1,7 @@
 import * as LocalAuthentication from 'expo-local-authentication';
 import { secureStorage } from './secureStorageService';
 import { storage } from './storageService';
+import { withWriteLock } from './writeQueue';
 
 const BIOMETRIC_ENABLED_KEY = '@garageminder_biometric_enabled';
 const SESSION_KEY = 'user_session';
@@ -90,7 +91,7 @@ export async function enableBiometric(): Promise<boolean> {
       return false;
     }
 
-    await storage.setItem(BIOMETRIC_ENABLED_KEY, 'true');
+    await withWriteLock([BIOMETRIC_ENABLED_KEY], () => storage.setItem(BIOMETRIC_ENABLED_KEY, 'true'));
     return true;
   } catch (error) {
     console.error('Error enabling biometric:', error);
@@ -100,7 +101,7 @@ export async function enableBiometric(): Promise<boolean> {
 
 // Disable biometric authentication
 export async function disableBiometric(): Promise<void> {
-  await storage.setItem(BIOMETRIC_ENABLED_KEY, 'false');
+  await withWriteLock([BIOMETRIC_ENABLED_KEY], () => storage.setItem(BIOMETRIC_ENABLED_KEY, 'false'));
 }
 
 // Store session securely
@@ -8,14 +8,18 @@
  * iOS: ExternalAccessory framework notifications
  *
  * Falls back to BLE polling via react-native-ble-manager if the native
- * module is not available (e.g. Expo Go).
+ * module is not available (e.g. Expo Go). A fake module installed with
+ * setBluetoothClassicModule() takes the native path, on web too.
  */
 
 import { Platform } from 'react-native';
-import { getDeviceMappings, BluetoothDeviceMapping } from './bluetoothService';
+import { getDeviceMappings, rankDeviceMappings, BluetoothDeviceMapping } from './bluetoothService';
+import { logAutoStartEvent } from './autoStartLogService';
 import * as NativeBluetooth from '../modules/expo-bluetooth-classic';
 import type { EventSubscription } from 'expo-modules-core';
 
+export type AdapterState = NativeBluetooth.BluetoothStateEvent['state'];
+
 // ─── Public: Check if native Classic BT is available ────────────────────────
 
 export function isNativeBluetoothAvailable(): boolean {
@@ -37,54 +41,82 @@ export async function getBluetoothState(): Promise<'on' | 'off' | 'unavailable'>
 // ─── Public: Check if a specific device is connected ────────────────────────
 
 export async function isDeviceConnected(deviceId: string): Promise<boolean | null> {
-  if (Platform.OS === 'web') return null;
-
   // Native module handles Classic BT
   if (NativeBluetooth.isAvailable()) {
     return await NativeBluetooth.isDeviceConnected(deviceId);
   }
 
+  if (Platform.OS === 'web') return null;
+
   // Fallback to BLE check
   return await isBleDeviceConnected(deviceId);
 }
 
-// ─── Public: Find first connected mapped device ────────────────────────────
+// ─── Public: Find connected mapped devices ──────────────────────────────────
 
-export async function getConnectedMappedDevice(): Promise<BluetoothDeviceMapping | null> {
+// Every connected mapped device, in the order AutoStart would pick them
+export async function getConnectedMappedDevices(): Promise<BluetoothDeviceMapping[]> {
   const mappings = await getDeviceMappings();
   const enabledMappings = mappings.filter(m => m.enabled && m.vehicleId);
 
-  if (enabledMappings.length === 0) return null;
-
+  const connected: BluetoothDeviceMapping[] = [];
   for (const mapping of enabledMappings) {
-    const connected = await isDeviceConnected(mapping.deviceId);
-    if (connected === true) return mapping;
+    if ((await isDeviceConnected(mapping.deviceId)) === true) connected.push(mapping);
   }
 
-  return null;
+  return rankDeviceMappings(connected);
+}
+
+export async function getConnectedMappedDevice(): Promise<BluetoothDeviceMapping | null> {
+  const connected = await getConnectedMappedDevices();
+  return connected[0] ?? null;
+}
+
+// ─── Public: Find connected paired devices ──────────────────────────────────
+
+// Paired Classic devices connected right now, mapped or not (native module only)
+export async function getConnectedBondedDevices(): Promise<NativeBluetooth.BondedDevice[]> {
+  if (!NativeBluetooth.isAvailable()) return [];
+
+  const bonded = await NativeBluetooth.getBondedDevices();
+  const connected: NativeBluetooth.BondedDevice[] = [];
+  for (const device of bonded) {
+    if (await NativeBluetooth.isDeviceConnected(device.address)) connected.push(device);
+  }
+  return connected;
 }
 
 // ─── Public: Start monitoring for connection events ─────────────────────────
 //
 // Uses native Classic BT events when available, falls back to BLE polling.
+// Adapter state changes are only reported on the native path.
 // Returns a cleanup function.
 
 export function startMonitoring(
   onConnect: (mapping: BluetoothDeviceMapping) => void,
-  onDisconnect: (mapping: BluetoothDeviceMapping) => void
+  onDisconnect: (mapping: BluetoothDeviceMapping) => void,
+  onAdapterStateChange?: (state: AdapterState) => void
 ): () => void {
+  // ── Native Classic Bluetooth monitoring (preferred) ──────────────────
+  if (NativeBluetooth.isAvailable()) {
+    const simulated = NativeBluetooth.isUsingOverrideModule();
+    logAutoStartEvent(
+      'monitoring_mode',
+      simulated ? 'Monitoring with simulated Classic Bluetooth events' : 'Monitoring with native Classic Bluetooth events',
+      { mode: simulated ? 'simulated' : 'native' }
+    );
+    return startNativeMonitoring(onConnect, onDisconnect, onAdapterStateChange);
+  }
+
   if (Platform.OS === 'web') {
     console.warn('[BluetoothConnectionService] Not available on web');
+    logAutoStartEvent('monitoring_mode', 'Bluetooth monitoring unavailable on web');
     return () => {};
   }
 
-  // ── Native Classic Bluetooth monitoring (preferred) ──────────────────
-  if (NativeBluetooth.isAvailable()) {
-    return startNativeMonitoring(onConnect, onDisconnect);
-  }
-
   // ── Fallback: BLE polling ────────────────────────────────────────────
   console.warn('[BluetoothConnectionService] Native module not available, falling back to BLE polling');
+  logAutoStartEvent('monitoring_mode', 'Native module unavailable — falling back to BLE polling', { mode: 'ble_polling' });
   return startBlePollingMonitoring(onConnect, onDisconnect);
 }
 
@@ -92,15 +124,18 @@ export function startMonitoring(
 
 function startNativeMonitoring(
   onConnect: (mapping: BluetoothDeviceMapping) => void,
-  onDisconnect: (mapping: BluetoothDeviceMapping) => void
+  onDisconnect: (mapping: BluetoothDeviceMapping) => void,
+  onAdapterStateChange?: (state: AdapterState) => void
 ): () => void {
   let connectSub: EventSubscription | null = null;
   let disconnectSub: EventSubscription | null = null;
+  let stateSub: EventSubscription | null = null;
 
   // Start the native BroadcastReceiver / EA notifications
   NativeBluetooth.startConnectionListener().then((started) => {
     if (!started) {
       console.error('[BluetoothConnectionService] Failed to start native listener');
+      logAutoStartEvent('error', 'Failed to start native Bluetooth listener');
       return;
     }
 
@@ -110,6 +145,10 @@ function startNativeMonitoring(
     connectSub = NativeBluetooth.addDeviceConnectedListener(async (event) => {
       console.log('[BluetoothConnectionService] Device connected:', event.name, event.address);
       const mapping = await findMappingForNativeDevice(event.address, event.name);
+      logAutoStartEvent('device_connected', `${event.name} connected`, {
+        address: event.address,
+        vehicle: mapping?.vehicleName ?? null,
+      });
       if (mapping) {
         console.log('[BluetoothConnectionService] Mapped device connected → vehicle:', mapping.vehicleName);
         onConnect(mapping);
@@ -120,17 +159,27 @@ function startNativeMonitoring(
     disconnectSub = NativeBluetooth.addDeviceDisconnectedListener(async (event) => {
       console.log('[BluetoothConnectionService] Device disconnected:', event.name, event.address);
       const mapping = await findMappingForNativeDevice(event.address, event.name);
+      logAutoStartEvent('device_disconnected', `${event.name} disconnected`, {
+        address: event.address,
+        vehicle: mapping?.vehicleName ?? null,
+      });
       if (mapping) {
         console.log('[BluetoothConnectionService] Mapped device disconnected → vehicle:', mapping.vehicleName);
         onDisconnect(mapping);
       }
     });
+
+    stateSub = NativeBluetooth.addBluetoothStateChangedListener((event) => {
+      logAutoStartEvent('bluetooth_state', `Bluetooth adapter ${event.state}`, { state: event.state });
+      onAdapterStateChange?.(event.state);
+    });
   });
 
   // Return cleanup function
   return () => {
     connectSub?.remove();
     disconnectSub?.remove();
+    stateSub?.remove();
     NativeBluetooth.stopConnectionListener();
     console.log('[BluetoothConnectionService] Native listener stopped');
   };
@@ -176,29 +225,37 @@ function startBlePollingMonitoring(
   onDisconnect: (mapping: BluetoothDeviceMapping) => void
 ): () => void {
   let isMonitoring = true;
-  let lastConnectedDeviceId: string | null = null;
+  let lastConnected = new Map<string, BluetoothDeviceMapping>();
 
   const pollInterval = setInterval(async () => {
     if (!isMonitoring) return;
 
     try {
-      const connectedMapping = await getConnectedMappedDevice();
-
-      if (connectedMapping && connectedMapping.deviceId !== lastConnectedDeviceId) {
-        lastConnectedDeviceId = connectedMapping.deviceId;
-        onConnect(connectedMapping);
+      const connectedMappings = await getConnectedMappedDevices();
+      const connected = new Map(connectedMappings.map(m => [m.deviceId, m]));
+
+      for (const mapping of connectedMappings) {
+        if (lastConnected.has(mapping.deviceId)) continue;
+        logAutoStartEvent('device_connected', `${mapping.deviceName} connected (polled)`, {
+          address: mapping.deviceId,
+          vehicle: mapping.vehicleName,
+        });
+        onConnect(mapping);
       }
 
-      if (!connectedMapping && lastConnectedDeviceId) {
-        const mappings = await getDeviceMappings();
-        const disconnectedMapping = mappings.find(m => m.deviceId === lastConnectedDeviceId);
-        if (disconnectedMapping) {
-          onDisconnect(disconnectedMapping);
-        }
-        lastConnectedDeviceId = null;
+      for (const [deviceId, mapping] of lastConnected) {
+        if (connected.has(deviceId)) continue;
+        logAutoStartEvent('device_disconnected', `${mapping.deviceName} disconnected (polled)`, {
+          address: mapping.deviceId,
+          vehicle: mapping.vehicleName,
+        });
+        onDisconnect(mapping);
       }
+
+      lastConnected = connected;
     } catch (error) {
       console.error('[BluetoothConnectionService] BLE polling error:', error);
+      logAutoStartEvent('error', `BLE polling error: ${String(error)}`);
     }
   }, 5000);
 
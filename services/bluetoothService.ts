@@ -15,6 +15,8 @@
  */
 
 import { storage } from './storageService';
+import { withWriteLock } from './writeQueue';
+import { DEFAULT_AUTOSTART_SCHEDULE, type AutoStartSchedule } from './autoStartScheduleService';
 import { Platform, NativeEventEmitter, NativeModules } from 'react-native';
 
 // ─── Storage Keys ─────────────────────────────────────────────────────────────
@@ -33,29 +35,53 @@ export interface AutoStartSettings {
   showMonitoringNotification: boolean;    // silent notification while monitoring
   showEditAfterTrip: boolean;             // show trip review sheet after auto-stop
   tripClassification: TripClassification; // default classification for auto-tracked trips
+  motionDetectionEnabled: boolean;        // start trips from sustained driving speed, no Bluetooth needed
+  motionVehicle: MotionVehicleMode;       // which vehicle a motion-detected trip is logged against
+  conflictResolution: ConflictResolution; // what to do when devices of two vehicles are connected at once
+  schedule: AutoStartSchedule;            // weekly windows; a device's own schedule replaces this
 }
 
 export type SpeedThreshold = 'immediate' | 3 | 5 | 10 | 15; // mph
 
 export type TripClassification = 'personal' | 'business' | 'ask';
 
+export type MotionVehicleMode = 'active' | 'ask';
+
+// priority — highest-priority device wins straight away
+// ask      — hold the trip until the user picks a vehicle
+// speed    — wait for driving speed, then pick among the devices still
+//            connected (a parked car's stereo drops out as you pull away)
+export type ConflictResolution = 'priority' | 'ask' | 'speed';
+
 export interface BluetoothDeviceMapping {
   deviceId: string;         // Bluetooth MAC address or system ID (string)
   deviceName: string;       // Human-readable device name e.g. "Toyota Audio"
   vehicleId: string;        // GarageMinder vehicle ID this device triggers
   vehicleName: string;      // Cached vehicle display name for UI
   enabled: boolean;         // Whether this mapping is active
+  priority: number;         // Higher wins when devices of different vehicles connect together
+  schedule?: AutoStartSchedule | null; // Overrides the global schedule when set
   addedAt: number;          // Timestamp
 }
 
+export const MAPPING_PRIORITY_LOW = 0;
+export const MAPPING_PRIORITY_NORMAL = 1;
+export const MAPPING_PRIORITY_HIGH = 2;
+
 export interface AutoStartState {
   phase: 'idle' | 'monitoring' | 'tracking' | 'stopping';
-  connectedDeviceId: string | null;      // Currently connected mapped device
+  connectedDeviceId: string | null;      // Mapped device that decided the vehicle
+  connectedDeviceIds: string[];          // Every mapped device currently connected
   monitoringStartedAt: number | null;    // When monitoring phase began
   stopTimerStartedAt: number | null;     // When stop grace period began
-  triggeredVehicleId: string | null;     // Which vehicle was triggered
+  triggeredVehicleId: string | null;     // Which vehicle was triggered (null while a conflict is open)
+  candidateVehicleIds: string[];         // Vehicles in conflict, empty when only one is connected
+  resolvedBy: VehicleResolution | null;  // How triggeredVehicleId was chosen
+  bluetoothOffAt: number | null;         // Adapter switched off mid-trip — the trip now ends on GPS
 }
 
+export type VehicleResolution = 'single' | 'priority' | 'user' | 'speed';
+
 // ─── Default Values ───────────────────────────────────────────────────────────
 
 const DEFAULT_AUTOSTART_SETTINGS: AutoStartSettings = {
@@ -66,14 +92,22 @@ const DEFAULT_AUTOSTART_SETTINGS: AutoStartSettings = {
   showMonitoringNotification: false,
   showEditAfterTrip: true,
   tripClassification: 'ask',
+  motionDetectionEnabled: false,
+  motionVehicle: 'active',
+  conflictResolution: 'priority',
+  schedule: DEFAULT_AUTOSTART_SCHEDULE,
 };
 
 const DEFAULT_AUTOSTART_STATE: AutoStartState = {
   phase: 'idle',
   connectedDeviceId: null,
+  connectedDeviceIds: [],
   monitoringStartedAt: null,
   stopTimerStartedAt: null,
   triggeredVehicleId: null,
+  candidateVehicleIds: [],
+  resolvedBy: null,
+  bluetoothOffAt: null,
 };
 
 // ─── AutoStart Settings ───────────────────────────────────────────────────────
@@ -91,10 +125,12 @@ export async function getAutoStartSettings(): Promise<AutoStartSettings> {
 export async function updateAutoStartSettings(
   partial: Partial<AutoStartSettings>
 ): Promise<AutoStartSettings> {
-  const current = await getAutoStartSettings();
-  const updated = { ...current, ...partial };
-  await storage.setItem(AUTOSTART_SETTINGS_KEY, JSON.stringify(updated));
-  return updated;
+  return withWriteLock([AUTOSTART_SETTINGS_KEY], async () => {
+    const current = await getAutoStartSettings();
+    const updated = { ...current, ...partial };
+    await storage.setItem(AUTOSTART_SETTINGS_KEY, JSON.stringify(updated));
+    return updated;
+  });
 }
 
 // ─── Device-to-Vehicle Mappings ───────────────────────────────────────────────
@@ -103,37 +139,52 @@ export async function getDeviceMappings(): Promise<BluetoothDeviceMapping[]> {
   try {
     const data = await storage.getItem(BT_DEVICE_MAPPINGS_KEY);
     if (!data) return [];
-    return JSON.parse(data);
+    // Mappings saved before priorities existed default to normal
+    return JSON.parse(data).map((m: BluetoothDeviceMapping) => ({
+      ...m,
+      priority: m.priority ?? MAPPING_PRIORITY_NORMAL,
+    }));
   } catch {
     return [];
   }
 }
 
 export async function addDeviceMapping(
-  mapping: Omit<BluetoothDeviceMapping, 'addedAt'>
+  mapping: Omit<BluetoothDeviceMapping, 'addedAt' | 'priority'> & { priority?: number }
 ): Promise<void> {
-  const mappings = await getDeviceMappings();
-  // Remove any existing mapping for this device
-  const filtered = mappings.filter(m => m.deviceId !== mapping.deviceId);
-  filtered.push({ ...mapping, addedAt: Date.now() });
-  await storage.setItem(BT_DEVICE_MAPPINGS_KEY, JSON.stringify(filtered));
+  await withWriteLock([BT_DEVICE_MAPPINGS_KEY], async () => {
+    const mappings = await getDeviceMappings();
+    const existing = mappings.find(m => m.deviceId === mapping.deviceId);
+    // Remove any existing mapping for this device
+    const filtered = mappings.filter(m => m.deviceId !== mapping.deviceId);
+    filtered.push({
+      ...mapping,
+      priority: mapping.priority ?? existing?.priority ?? MAPPING_PRIORITY_NORMAL,
+      addedAt: Date.now(),
+    });
+    await storage.setItem(BT_DEVICE_MAPPINGS_KEY, JSON.stringify(filtered));
+  });
 }
 
 export async function removeDeviceMapping(deviceId: string): Promise<void> {
-  const mappings = await getDeviceMappings();
-  const filtered = mappings.filter(m => m.deviceId !== deviceId);
-  await storage.setItem(BT_DEVICE_MAPPINGS_KEY, JSON.stringify(filtered));
+  await withWriteLock([BT_DEVICE_MAPPINGS_KEY], async () => {
+    const mappings = await getDeviceMappings();
+    const filtered = mappings.filter(m => m.deviceId !== deviceId);
+    await storage.setItem(BT_DEVICE_MAPPINGS_KEY, JSON.stringify(filtered));
+  });
 }
 
 export async function updateDeviceMapping(
   deviceId: string,
   partial: Partial<BluetoothDeviceMapping>
 ): Promise<void> {
-  const mappings = await getDeviceMappings();
-  const updated = mappings.map(m =>
-    m.deviceId === deviceId ? { ...m, ...partial } : m
-  );
-  await storage.setItem(BT_DEVICE_MAPPINGS_KEY, JSON.stringify(updated));
+  await withWriteLock([BT_DEVICE_MAPPINGS_KEY], async () => {
+    const mappings = await getDeviceMappings();
+    const updated = mappings.map(m =>
+      m.deviceId === deviceId ? { ...m, ...partial } : m
+    );
+    await storage.setItem(BT_DEVICE_MAPPINGS_KEY, JSON.stringify(updated));
+  });
 }
 
 export async function getMappingForDevice(
@@ -143,26 +194,40 @@ export async function getMappingForDevice(
   return mappings.find(m => m.deviceId === deviceId && m.enabled) || null;
 }
 
+/**
+ * Orders mappings the way AutoStart picks between them: highest priority
+ * first, then the one added earliest, then by device ID. Deterministic for
+ * any set of connected devices regardless of the order they connected in.
+ */
+export function rankDeviceMappings(mappings: BluetoothDeviceMapping[]): BluetoothDeviceMapping[] {
+  return [...mappings].sort((a, b) =>
+    b.priority - a.priority ||
+    a.addedAt - b.addedAt ||
+    a.deviceId.localeCompare(b.deviceId)
+  );
+}
+
 // ─── AutoStart Phase State ────────────────────────────────────────────────────
 
 export async function getAutoStartState(): Promise<AutoStartState> {
   try {
     const data = await storage.getItem(AUTOSTART_STATE_KEY);
     if (!data) return DEFAULT_AUTOSTART_STATE;
-    return JSON.parse(data);
+    return { ...DEFAULT_AUTOSTART_STATE, ...JSON.parse(data) };
   } catch {
     return DEFAULT_AUTOSTART_STATE;
   }
 }
 
 export async function setAutoStartState(state: AutoStartState): Promise<void> {
-  await storage.setItem(AUTOSTART_STATE_KEY, JSON.stringify(state));
+  await withWriteLock([AUTOSTART_STATE_KEY], () =>
+    storage.setItem(AUTOSTART_STATE_KEY, JSON.stringify(state))
+  );
 }
 
 export async function resetAutoStartState(): Promise<void> {
-  await storage.setItem(
-    AUTOSTART_STATE_KEY,
-    JSON.stringify(DEFAULT_AUTOSTART_STATE)
+  await withWriteLock([AUTOSTART_STATE_KEY], () =>
+    storage.setItem(AUTOSTART_STATE_KEY, JSON.stringify(DEFAULT_AUTOSTART_STATE))
   );
 }
 
@@ -0,0 +1,76 @@
+import {
+  FakeBluetoothClassicModule,
+  FAKE_BLUETOOTH_SCENARIOS,
+  setBluetoothClassicModule,
+  type FakeBluetoothScenario,
+  type FakeScenarioRun,
+} from '../modules/expo-bluetooth-classic';
+import { logAutoStartEvent } from './autoStartLogService';
+
+/**
+ * Development-only Bluetooth simulation.
+ *
+ * Swaps the Classic Bluetooth module for FakeBluetoothClassicModule and plays
+ * a scripted scenario through it, so AutoStart can be exercised without a car
+ * (Expo Go, web, simulators). The scenario's devices show up as paired
+ * devices and need to be mapped to a vehicle like real ones.
+ *
+ * AutoStart picks its monitoring mode when monitoring starts, so toggle
+ * AutoStart off and on after starting or stopping a simulation.
+ */
+
+let fakeModule: FakeBluetoothClassicModule | null = null;
+let currentRun: FakeScenarioRun | null = null;
+
+export function getBluetoothScenarios(): FakeBluetoothScenario[] {
+  return FAKE_BLUETOOTH_SCENARIOS;
+}
+
+export function isBluetoothSimulationActive(): boolean {
+  return fakeModule !== null;
+}
+
+// Installs the fake on first use; later scenarios reuse it
+export function getSimulatedBluetooth(): FakeBluetoothClassicModule {
+  if (!fakeModule) {
+    fakeModule = new FakeBluetoothClassicModule();
+    setBluetoothClassicModule(fakeModule);
+    console.log('[BluetoothSimulation] Fake Classic Bluetooth module installed');
+  }
+  return fakeModule;
+}
+
+export function startBluetoothScenario(name: string, timeScale = 1): FakeScenarioRun | null {
+  const scenario = FAKE_BLUETOOTH_SCENARIOS.find(s => s.name === name);
+  if (!scenario) {
+    console.warn('[BluetoothSimulation] Unknown scenario:', name);
+    return null;
+  }
+
+  currentRun?.cancel();
+  const bluetooth = getSimulatedBluetooth();
+  logAutoStartEvent('monitoring_mode', `Simulation started: ${scenario.name}`, { timeScale });
+
+  const run = bluetooth.runScenario(scenario, {
+    timeScale,
+    onStep: (step, index) => {
+      console.log(`[BluetoothSimulation] ${scenario.name} step ${index + 1}:`, step.action.type);
+    },
+  });
+  currentRun = run;
+  run.done.then(() => {
+    if (currentRun === run) currentRun = null;
+  });
+  return run;
+}
+
+export function stopBluetoothSimulation(): void {
+  currentRun?.cancel();
+  currentRun = null;
+  if (fakeModule) {
+    setBluetoothClassicModule(null);
+    fakeModule = null;
+    logAutoStartEvent('monitoring_mode', 'Simulation stopped — back to the native module');
+    console.log('[BluetoothSimulation] Fake Classic Bluetooth module removed');
+  }
+}
@@ -0,0 +1,146 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import CryptoJS from 'react-native-crypto-js';
+import type { DataKeySlot, DataKeyStore } from './encryptionService';
+
+/**
+ * Data keys on iOS/Android.
+ *
+ * A key is 64 random bytes kept in the keychain/keystore by expo-secure-store.
+ * The first half encrypts (AES-256-CBC), the second authenticates the IV and
+ * ciphertext (HMAC-SHA256, checked before decrypting). The trip database's
+ * SQLCipher key is derived from the same bytes.
+ * dataKeyStore.web.ts is the WebCrypto version for the web build.
+ */
+
+interface NativeDataKey {
+  id: string;
+  material: string; // hex
+}
+
+const KEY_NAMES: Record<DataKeySlot, string> = {
+  current: 'garageminder_data_key',
+  next: 'garageminder_data_key_next',
+};
+
+// Background location updates write while the device is locked
+const KEYCHAIN_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+const DATABASE_KEY_LABEL = 'garageminder-database';
+
+// ─── Bytes ────────────────────────────────────────────────────────────────────
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// Payloads are base64 and labels plain ASCII, so one byte per character
+function fromAscii(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+}
+
+// RFC 2104 over expo-crypto's SHA-256; keys here are at most one block long
+async function hmacSha256(key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  const BLOCK_SIZE = 64;
+  const inner = new Uint8Array(BLOCK_SIZE + message.length);
+  const outer = new Uint8Array(BLOCK_SIZE + 32);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = (key[i] ?? 0) ^ 0x36;
+    outer[i] = (key[i] ?? 0) ^ 0x5c;
+  }
+  inner.set(message, BLOCK_SIZE);
+  outer.set(await sha256(inner), BLOCK_SIZE);
+  return sha256(outer);
+}
+
+function equalInConstantTime(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function splitKey(key: NativeDataKey): { encryptionKey: string; macKey: Uint8Array } {
+  return {
+    encryptionKey: key.material.slice(0, 64),
+    macKey: fromHex(key.material.slice(64)),
+  };
+}
+
+async function sign(macKey: Uint8Array, iv: string, ciphertext: string): Promise<string> {
+  const mac = await hmacSha256(macKey, fromAscii(`${iv}.${ciphertext}`));
+  return CryptoJS.enc.Hex.parse(toHex(mac)).toString(CryptoJS.enc.Base64);
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+export const dataKeyStore: DataKeyStore<NativeDataKey> = {
+  isSupported() {
+    return true;
+  },
+
+  async load(slot) {
+    const data = await SecureStore.getItemAsync(KEY_NAMES[slot], KEYCHAIN_OPTIONS);
+    return data ? JSON.parse(data) : null;
+  },
+
+  async save(slot, key) {
+    await SecureStore.setItemAsync(KEY_NAMES[slot], JSON.stringify(key), KEYCHAIN_OPTIONS);
+  },
+
+  async remove(slot) {
+    await SecureStore.deleteItemAsync(KEY_NAMES[slot], KEYCHAIN_OPTIONS);
+  },
+
+  async generate() {
+    return {
+      id: toHex(Crypto.getRandomBytes(8)),
+      material: toHex(Crypto.getRandomBytes(64)),
+    };
+  },
+
+  async encrypt(key, plaintext) {
+    const { encryptionKey, macKey } = splitKey(key);
+    const iv = CryptoJS.enc.Hex.parse(toHex(Crypto.getRandomBytes(16)));
+    const encrypted = CryptoJS.AES.encrypt(plaintext, CryptoJS.enc.Hex.parse(encryptionKey), { iv });
+
+    const ivText = iv.toString(CryptoJS.enc.Base64);
+    const ciphertext = encrypted.ciphertext.toString(CryptoJS.enc.Base64);
+    return `${ivText}.${ciphertext}.${await sign(macKey, ivText, ciphertext)}`;
+  },
+
+  async decrypt(key, payload) {
+    const [ivText, ciphertext, mac] = payload.split('.');
+    const { encryptionKey, macKey } = splitKey(key);
+    if (!mac || !equalInConstantTime(mac, await sign(macKey, ivText, ciphertext))) {
+      throw new Error('[Encryption] Value failed its integrity check');
+    }
+
+    const decrypted = CryptoJS.AES.decrypt(
+      { ciphertext: CryptoJS.enc.Base64.parse(ciphertext) },
+      CryptoJS.enc.Hex.parse(encryptionKey),
+      { iv: CryptoJS.enc.Base64.parse(ivText) }
+    );
+    return decrypted.toString(CryptoJS.enc.Utf8);
+  },
+
+  async databaseKey(key) {
+    return toHex(await hmacSha256(fromHex(key.material), fromAscii(DATABASE_KEY_LABEL)));
+  },
+};
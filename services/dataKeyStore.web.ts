@@ -0,0 +1,122 @@
+import type { DataKeyStore } from './encryptionService';
+
+/**
+ * Data keys on web.
+ *
+ * A key is a non-extractable AES-GCM CryptoKey. IndexedDB stores the key
+ * object itself, so scripts on the page can use it through WebCrypto but
+ * never read its bytes, and nothing readable lands in localStorage.
+ * Browsers without IndexedDB or WebCrypto keep storing plaintext.
+ */
+
+interface WebDataKey {
+  id: string;
+  material: CryptoKey;
+}
+
+const KEY_DATABASE_NAME = 'garageminder-keys';
+const KEY_OBJECT_STORE = 'keys';
+const IV_LENGTH = 12;
+
+// ─── IndexedDB ────────────────────────────────────────────────────────────────
+
+function whenDone<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let keyDatabasePromise: Promise<IDBDatabase> | null = null;
+
+function getKeyDatabase(): Promise<IDBDatabase> {
+  if (!keyDatabasePromise) {
+    const request = indexedDB.open(KEY_DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_OBJECT_STORE);
+    keyDatabasePromise = whenDone(request).catch(error => {
+      keyDatabasePromise = null;
+      throw error;
+    });
+  }
+  return keyDatabasePromise;
+}
+
+async function getObjectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await getKeyDatabase();
+  return db.transaction(KEY_OBJECT_STORE, mode).objectStore(KEY_OBJECT_STORE);
+}
+
+// ─── Bytes ────────────────────────────────────────────────────────────────────
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked: spreading a large route into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+export const dataKeyStore: DataKeyStore<WebDataKey> = {
+  isSupported() {
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  },
+
+  async load(slot) {
+    const store = await getObjectStore('readonly');
+    return (await whenDone<WebDataKey | undefined>(store.get(slot))) ?? null;
+  },
+
+  async save(slot, key) {
+    const store = await getObjectStore('readwrite');
+    await whenDone(store.put(key, slot));
+  },
+
+  async remove(slot) {
+    const store = await getObjectStore('readwrite');
+    await whenDone(store.delete(slot));
+  },
+
+  async generate() {
+    const material = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    return {
+      id: toHex(crypto.getRandomValues(new Uint8Array(8))),
+      material,
+    };
+  },
+
+  async encrypt(key, plaintext) {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key.material,
+      new TextEncoder().encode(plaintext)
+    );
+    return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+  },
+
+  // AES-GCM rejects a tampered payload on its own
+  async decrypt(key, payload) {
+    const [iv, ciphertext] = payload.split('.');
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      key.material,
+      fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  },
+
+  async databaseKey() {
+    throw new Error('[Encryption] The web build has no trip database');
+  },
+};
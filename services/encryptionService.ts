@@ -0,0 +1,147 @@
+import { dataKeyStore } from './dataKeyStore';
+
+/**
+ * Encryption at rest for storageService and the trip database.
+ *
+ * Values are encrypted with a random data key that never leaves the
+ * platform's key store: the keychain/keystore through expo-secure-store on
+ * native, a non-extractable WebCrypto key in IndexedDB on web
+ * (dataKeyStore.ts / dataKeyStore.web.ts). An encrypted value reads
+ * `enc:<keyId>:<payload>`; anything else is plaintext written before
+ * encryption existed and is returned as-is until it's rewritten.
+ *
+ * Rotating the key saves the new one as `next` first. From then on writes
+ * use it and every stored value is re-encrypted; only after that does it
+ * replace `current`. Both keys decrypt in between, so a rotation cut short
+ * by the app being killed is finished on the next launch.
+ */
+
+export type DataKeySlot = 'current' | 'next';
+
+export interface DataKeyStore<K extends { id: string }> {
+  isSupported(): boolean;
+  load(slot: DataKeySlot): Promise<K | null>;
+  save(slot: DataKeySlot, key: K): Promise<void>;
+  remove(slot: DataKeySlot): Promise<void>;
+  generate(): Promise<K>;
+  encrypt(key: K, plaintext: string): Promise<string>;
+  decrypt(key: K, payload: string): Promise<string>; // rejects if the payload was tampered with
+  databaseKey(key: K): Promise<string>; // hex SQLCipher key; native only
+}
+
+type DataKey = Awaited<ReturnType<typeof dataKeyStore.generate>>;
+
+interface DataKeys {
+  current: DataKey;
+  next: DataKey | null; // set while a rotation is in progress
+}
+
+const ENVELOPE_PREFIX = 'enc:';
+
+let keysPromise: Promise<DataKeys> | null = null;
+
+async function loadKeys(): Promise<DataKeys> {
+  const [stored, next] = await Promise.all([dataKeyStore.load('current'), dataKeyStore.load('next')]);
+  let current = stored;
+  if (!current) {
+    current = await dataKeyStore.generate();
+    await dataKeyStore.save('current', current);
+    console.log('[Encryption] Created a new data key');
+  }
+  return { current, next };
+}
+
+function getKeys(): Promise<DataKeys> {
+  if (!keysPromise) {
+    keysPromise = loadKeys().catch(error => {
+      keysPromise = null; // the key store may be unavailable only for now (e.g. device locked)
+      throw error;
+    });
+  }
+  return keysPromise;
+}
+
+// New values go under the incoming key as soon as a rotation starts
+function getWriteKey(keys: DataKeys): DataKey {
+  return keys.next ?? keys.current;
+}
+
+function getEnvelopeKeyId(value: string): string {
+  return value.slice(ENVELOPE_PREFIX.length, value.indexOf(':', ENVELOPE_PREFIX.length));
+}
+
+export function isEncryptionSupported(): boolean {
+  return dataKeyStore.isSupported();
+}
+
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENVELOPE_PREFIX);
+}
+
+export async function encryptValue(plaintext: string): Promise<string> {
+  if (!dataKeyStore.isSupported()) return plaintext;
+  const key = getWriteKey(await getKeys());
+  return `${ENVELOPE_PREFIX}${key.id}:${await dataKeyStore.encrypt(key, plaintext)}`;
+}
+
+export async function decryptValue(value: string): Promise<string> {
+  if (!isEncryptedValue(value)) return value;
+
+  const keyId = getEnvelopeKeyId(value);
+  const { current, next } = await getKeys();
+  const key = [current, next].find(k => k?.id === keyId);
+  if (!key) {
+    throw new Error(`[Encryption] No data key ${keyId} for this value`);
+  }
+  return dataKeyStore.decrypt(key, value.slice(ENVELOPE_PREFIX.length + keyId.length + 1));
+}
+
+// Plaintext, or encrypted under a key other than the one new writes use
+export async function needsReencryption(value: string): Promise<boolean> {
+  if (!dataKeyStore.isSupported()) return false;
+  if (!isEncryptedValue(value)) return true;
+  return getEnvelopeKeyId(value) !== getWriteKey(await getKeys()).id;
+}
+
+// ─── Key Rotation ─────────────────────────────────────────────────────────────
+
+export async function isKeyRotationPending(): Promise<boolean> {
+  if (!dataKeyStore.isSupported()) return false;
+  return (await getKeys()).next !== null;
+}
+
+// Creates the incoming key, or keeps the one an unfinished rotation left
+export async function beginKeyRotation(): Promise<void> {
+  if (!dataKeyStore.isSupported()) return;
+  const keys = await getKeys();
+  if (keys.next) return;
+
+  const next = await dataKeyStore.generate();
+  await dataKeyStore.save('next', next);
+  keysPromise = Promise.resolve({ ...keys, next });
+  console.log('[Encryption] Started data key rotation');
+}
+
+// Call only once every stored value has been re-encrypted
+export async function completeKeyRotation(): Promise<void> {
+  const keys = await getKeys();
+  if (!keys.next) return;
+
+  // Until `next` is removed both slots hold the new key, which is harmless
+  await dataKeyStore.save('current', keys.next);
+  await dataKeyStore.remove('next');
+  keysPromise = Promise.resolve({ current: keys.next, next: null });
+  console.log('[Encryption] Finished data key rotation');
+}
+
+/**
+ * SQLCipher keys for the trip database: `current` is the key it's under
+ * outside a rotation, `next` the one it's moved to during one.
+ */
+export async function getDatabaseKeys(): Promise<{ current: string; next: string | null }> {
+  const { current, next } = await getKeys();
+  return {
+    current: await dataKeyStore.databaseKey(current),
+    next: next ? await dataKeyStore.databaseKey(next) : null,
+  };
+}
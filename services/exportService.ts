@@ -1,9 +1,13 @@
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { Trip, Vehicle } from '../types/trip';
+import { Trip, TripSource, Vehicle } from '../types/trip';
+import { getRoute } from './routeService';
+import type { LocationPoint } from './locationService';
+
+export type ExportFormat = 'csv' | 'json' | 'gpx' | 'kml';
 
 export interface ExportOptions {
-  format: 'csv' | 'json';
+  format: ExportFormat;
   includeGpsData?: boolean;
   dateRange?: {
     start: Date;
@@ -12,6 +16,12 @@ export interface ExportOptions {
   vehicleIds?: string[];
 }
 
+const TRIP_SOURCE_LABELS: Record<TripSource, string> = {
+  gps: 'GPS',
+  imported: 'Imported',
+  manual: 'Manual',
+};
+
 // Export trips to CSV
 export async function exportToCSV(trips: Trip[], vehicles: Vehicle[]): Promise<string> {
   const vehicleMap = new Map(vehicles.map(v => [v.id, v]));
@@ -26,6 +36,7 @@ export async function exportToCSV(trips: Trip[], vehicles: Vehicle[]): Promise<s
     'Start Odometer',
     'End Odometer',
     'Status',
+    'Source',
     'Notes',
   ];
 
@@ -49,6 +60,7 @@ export async function exportToCSV(trips: Trip[], vehicles: Vehicle[]): Promise<s
       trip.startOdometer.toString(),
       trip.endOdometer?.toString() || '',
       trip.status,
+      TRIP_SOURCE_LABELS[trip.source ?? 'gps'],
       `"${trip.notes.replace(/"/g, '""')}"`, // Escape quotes
     ];
   });
@@ -84,7 +96,9 @@ export async function exportToJSON(trips: Trip[], vehicles: Vehicle[]): Promise<
       startOdometer: trip.startOdometer,
       endOdometer: trip.endOdometer,
       duration: trip.duration,
+      movingDuration: trip.movingDuration ?? trip.duration,
       status: trip.status,
+      source: trip.source ?? 'gps',
       notes: trip.notes,
       createdAt: trip.createdAt.toISOString(),
       updatedAt: trip.updatedAt?.toISOString(),
@@ -94,10 +108,175 @@ export async function exportToJSON(trips: Trip[], vehicles: Vehicle[]): Promise<
   return JSON.stringify(exportData, null, 2);
 }
 
+// ─── Route exports (GPX / KML) ────────────────────────────────────────────────
+
+// Only names the gm: trip extensions; it isn't meant to resolve to anything
+const GM_XML_NAMESPACE = 'urn:garageminder:trip:1';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function getVehicleName(vehicle: Vehicle | undefined): string {
+  return vehicle ? `${vehicle.year} ${vehicle.make} ${vehicle.model}` : 'Unknown';
+}
+
+// Load stored routes for the given trips; trips without a route are omitted
+export async function loadTripRoutes(trips: Trip[]): Promise<Map<string, LocationPoint[]>> {
+  const routes = new Map<string, LocationPoint[]>();
+  for (const trip of trips) {
+    const route = await getRoute(trip.id);
+    if (route.length > 0) {
+      routes.set(trip.id, route);
+    }
+  }
+  return routes;
+}
+
+function getTripTitle(trip: Trip, vehicle: Vehicle | undefined): string {
+  return `${getVehicleName(vehicle)} — ${trip.startTime.toLocaleString()}`;
+}
+
+// Export trip routes to GPX 1.1 — one <trk> per trip
+export async function exportToGPX(
+  trips: Trip[],
+  vehicles: Vehicle[],
+  routes?: Map<string, LocationPoint[]>
+): Promise<string> {
+  const vehicleMap = new Map(vehicles.map(v => [v.id, v]));
+  const tripRoutes = routes ?? await loadTripRoutes(trips);
+
+  const tracks = trips
+    .filter(trip => tripRoutes.has(trip.id))
+    .map(trip => {
+      const vehicle = vehicleMap.get(trip.vehicleId);
+      const points = tripRoutes.get(trip.id)!;
+
+      const trackPoints = points.map(p => [
+        `      <trkpt lat="${p.latitude.toFixed(6)}" lon="${p.longitude.toFixed(6)}">`,
+        p.altitude !== null ? `        <ele>${p.altitude.toFixed(1)}</ele>` : null,
+        `        <time>${new Date(p.timestamp).toISOString()}</time>`,
+        p.speed !== null && p.speed >= 0
+          ? `        <extensions><gm:speed>${p.speed.toFixed(2)}</gm:speed></extensions>`
+          : null,
+        '      </trkpt>',
+      ].filter(Boolean).join('\n'));
+
+      return [
+        '  <trk>',
+        `    <name>${escapeXml(getTripTitle(trip, vehicle))}</name>`,
+        trip.notes ? `    <desc>${escapeXml(trip.notes)}</desc>` : null,
+        `    <type>${trip.classification}</type>`,
+        '    <extensions>',
+        `      <gm:tripId>${escapeXml(trip.id)}</gm:tripId>`,
+        `      <gm:vehicle>${escapeXml(getVehicleName(vehicle))}</gm:vehicle>`,
+        `      <gm:vehicleId>${escapeXml(trip.vehicleId)}</gm:vehicleId>`,
+        `      <gm:classification>${trip.classification}</gm:classification>`,
+        `      <gm:source>${trip.source ?? 'gps'}</gm:source>`,
+        `      <gm:distanceMiles>${(trip.adjustedDistance || trip.calculatedDistance).toFixed(2)}</gm:distanceMiles>`,
+        `      <gm:startOdometer>${trip.startOdometer}</gm:startOdometer>`,
+        trip.endOdometer !== null ? `      <gm:endOdometer>${trip.endOdometer}</gm:endOdometer>` : null,
+        `      <gm:notes>${escapeXml(trip.notes)}</gm:notes>`,
+        '    </extensions>',
+        '    <trkseg>',
+        trackPoints.join('\n'),
+        '    </trkseg>',
+        '  </trk>',
+      ].filter(line => line !== null).join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="GarageMinder" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gm="${GM_XML_NAMESPACE}">`,
+    '  <metadata>',
+    '    <name>GarageMinder Trips</name>',
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...tracks,
+    '</gpx>',
+  ].join('\n');
+}
+
+// Export trip routes to KML — one <Placemark> with a timestamped gx:Track per trip
+export async function exportToKML(
+  trips: Trip[],
+  vehicles: Vehicle[],
+  routes?: Map<string, LocationPoint[]>
+): Promise<string> {
+  const vehicleMap = new Map(vehicles.map(v => [v.id, v]));
+  const tripRoutes = routes ?? await loadTripRoutes(trips);
+
+  const data = (name: string, value: string) =>
+    `        <Data name="${name}"><value>${escapeXml(value)}</value></Data>`;
+
+  const placemarks = trips
+    .filter(trip => tripRoutes.has(trip.id))
+    .map(trip => {
+      const vehicle = vehicleMap.get(trip.vehicleId);
+      const points = tripRoutes.get(trip.id)!;
+
+      return [
+        '    <Placemark>',
+        `      <name>${escapeXml(getTripTitle(trip, vehicle))}</name>`,
+        trip.notes ? `      <description>${escapeXml(trip.notes)}</description>` : null,
+        '      <styleUrl>#trip</styleUrl>',
+        '      <ExtendedData>',
+        data('tripId', trip.id),
+        data('vehicle', getVehicleName(vehicle)),
+        data('vehicleId', trip.vehicleId),
+        data('classification', trip.classification),
+        data('source', trip.source ?? 'gps'),
+        data('distanceMiles', (trip.adjustedDistance || trip.calculatedDistance).toFixed(2)),
+        data('startOdometer', trip.startOdometer.toString()),
+        trip.endOdometer !== null ? data('endOdometer', trip.endOdometer.toString()) : null,
+        data('notes', trip.notes),
+        '      </ExtendedData>',
+        '      <gx:Track>',
+        ...points.map(p => `        <when>${new Date(p.timestamp).toISOString()}</when>`),
+        ...points.map(p => `        <gx:coord>${p.longitude.toFixed(6)} ${p.latitude.toFixed(6)} ${(p.altitude ?? 0).toFixed(1)}</gx:coord>`),
+        '        <ExtendedData>',
+        '          <SchemaData schemaUrl="#trackSchema">',
+        '            <gx:SimpleArrayData name="speed">',
+        ...points.map(p => `              <gx:value>${p.speed !== null && p.speed >= 0 ? p.speed.toFixed(2) : ''}</gx:value>`),
+        '            </gx:SimpleArrayData>',
+        '          </SchemaData>',
+        '        </ExtendedData>',
+        '      </gx:Track>',
+        '    </Placemark>',
+      ].filter(line => line !== null).join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    '    <name>GarageMinder Trips</name>',
+    '    <Style id="trip"><LineStyle><color>ff00d7ff</color><width>4</width></LineStyle></Style>',
+    '    <Schema id="trackSchema">',
+    '      <gx:SimpleArrayField name="speed" type="float"><displayName>Speed (m/s)</displayName></gx:SimpleArrayField>',
+    '    </Schema>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+  gpx: { mimeType: 'application/gpx+xml', UTI: 'com.topografix.gpx' },
+  kml: { mimeType: 'application/vnd.google-earth.kml+xml', UTI: 'com.google.earth.kml' },
+};
+
 // Share exported file
 export async function shareExportedFile(
   data: string,
-  format: 'csv' | 'json'
+  format: ExportFormat
 ): Promise<boolean> {
   try {
     const filename = `garageminder_trips_${Date.now()}.${format}`;
@@ -111,9 +290,9 @@ export async function shareExportedFile(
     
     if (canShare) {
       await Sharing.shareAsync(fileUri, {
-        mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+        mimeType: EXPORT_FILE_TYPES[format].mimeType,
         dialogTitle: 'Export Trip Data',
-        UTI: format === 'csv' ? 'public.comma-separated-values-text' : 'public.json',
+        UTI: EXPORT_FILE_TYPES[format].UTI,
       });
       return true;
     }
@@ -160,7 +339,13 @@ export function generateMileageReport(trips: Trip[], vehicles: Vehicle[]): strin
     report += `-`.repeat(50) + '\n';
     report += `Trips: ${vehicleTrips.length}\n`;
     report += `Total Miles: ${totalMiles.toFixed(1)}\n`;
-    report += `Average Trip: ${(totalMiles / vehicleTrips.length).toFixed(1)} mi\n\n`;
+    report += `Average Trip: ${(totalMiles / vehicleTrips.length).toFixed(1)} mi\n`;
+
+    const manualTrips = vehicleTrips.filter(t => t.source === 'manual').length;
+    if (manualTrips > 0) {
+      report += `Manually Entered: ${manualTrips} trip${manualTrips !== 1 ? 's' : ''}\n`;
+    }
+    report += '\n';
   });
 
   return report;
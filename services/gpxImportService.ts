@@ -0,0 +1,221 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { Trip, Vehicle } from '../types/trip';
+import { insertTrip, type TripPlacement } from './tripService';
+import { encodeFinishedRoute } from './routeService';
+import { calculateDistance, metersToMiles, type LocationPoint } from './locationService';
+import { fitTripIntoTimeline } from './odometerTimelineService';
+
+/**
+ * GPX import.
+ *
+ * Turns tracks recorded by another app or a head unit into completed trips.
+ * Each <trk> becomes one trip; its points are stored as the trip's route so
+ * imported trips export and display like tracked ones.
+ */
+
+export interface GpxTrack {
+  name: string | null;
+  points: LocationPoint[]; // timestamped points only, in time order
+}
+
+export interface GpxFile {
+  fileName: string;
+  tracks: GpxTrack[];
+}
+
+export type GpxTrackResult =
+  | { name: string; status: 'imported'; trip: Trip }
+  | { name: string; status: 'skipped'; reason: string }  // doesn't fit the vehicle's history
+  | { name: string; status: 'failed'; reason: string };  // couldn't be saved
+
+export interface GpxImportResult {
+  tracks: GpxTrackResult[]; // one per track, oldest first
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+const TRACK_PATTERN = /<trk\b[^>]*>([\s\S]*?)<\/trk>/g;
+const TRACKPOINT_PATTERN = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? match[1] : null;
+}
+
+// Matches both plain and namespaced tags (e.g. <speed>, <gm:speed>, <gpxtpx:speed>)
+function readTag(body: string, name: string): string | null {
+  const match = body.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+  return match ? unescapeXml(match[1]) : null;
+}
+
+function readNumber(body: string, name: string): number | null {
+  const value = readTag(body, name);
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseGpx(xml: string): GpxTrack[] {
+  if (!/<gpx\b/.test(xml)) {
+    throw new Error('This file is not a GPX document');
+  }
+
+  const tracks: GpxTrack[] = [];
+
+  for (const trackMatch of xml.matchAll(TRACK_PATTERN)) {
+    const trackBody = trackMatch[1];
+    const header = trackBody.split(/<trkseg\b/)[0];
+    const points: LocationPoint[] = [];
+
+    for (const pointMatch of trackBody.matchAll(TRACKPOINT_PATTERN)) {
+      const latitude = Number(readAttribute(pointMatch[1], 'lat'));
+      const longitude = Number(readAttribute(pointMatch[1], 'lon'));
+      const body = pointMatch[2] ?? '';
+      const time = readTag(body, 'time');
+      const timestamp = time ? Date.parse(time) : NaN;
+
+      // Without a timestamp there is no duration to record
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(timestamp)) {
+        continue;
+      }
+
+      points.push({
+        latitude,
+        longitude,
+        altitude: readNumber(body, 'ele'),
+        accuracy: null,
+        speed: readNumber(body, 'speed'),
+        timestamp,
+      });
+    }
+
+    points.sort((a, b) => a.timestamp - b.timestamp);
+    tracks.push({ name: readTag(header, 'name'), points });
+  }
+
+  if (tracks.length === 0) {
+    throw new Error('No tracks found in this GPX file');
+  }
+
+  return tracks;
+}
+
+export function getTrackDistance(points: LocationPoint[]): number {
+  let meters = 0;
+  for (let i = 1; i < points.length; i++) {
+    meters += calculateDistance(
+      points[i - 1].latitude,
+      points[i - 1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+  }
+  return metersToMiles(meters);
+}
+
+// ─── File picking ─────────────────────────────────────────────────────────────
+
+export async function pickGpxFile(): Promise<GpxFile | null> {
+  // GPX has no registered MIME type on most devices, so accept anything
+  // and let the parser reject files that are not GPX
+  const result = await DocumentPicker.getDocumentAsync({
+    type: '*/*',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const content = Platform.OS === 'web' && asset.file
+    ? await asset.file.text()
+    : await FileSystem.readAsStringAsync(asset.uri);
+
+  return { fileName: asset.name, tracks: parseGpx(content) };
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+// Each track is fitted and saved with its route and odometer change as one
+// write, so a track that fails leaves nothing behind and the rest still import
+export async function importGpxTracks(file: GpxFile, vehicle: Vehicle): Promise<GpxImportResult> {
+  const result: GpxImportResult = { tracks: [] };
+
+  const ordered = [...file.tracks].sort(
+    (a, b) => (a.points[0]?.timestamp ?? 0) - (b.points[0]?.timestamp ?? 0)
+  );
+
+  for (const [index, track] of ordered.entries()) {
+    const name = track.name ?? `${file.fileName} #${index + 1}`;
+
+    if (track.points.length < 2) {
+      result.tracks.push({ name, status: 'skipped', reason: 'Not enough timestamped points' });
+      continue;
+    }
+
+    const first = track.points[0];
+    const last = track.points[track.points.length - 1];
+    const startTime = new Date(first.timestamp);
+    const endTime = new Date(last.timestamp);
+    const distance = getTrackDistance(track.points);
+
+    let placed: TripPlacement;
+    try {
+      const route = await encodeFinishedRoute(track.points);
+      // Fitted against the stored trips, including the ones imported before it
+      placed = await insertTrip(vehicle.id, (trips, current) => {
+        const fit = fitTripIntoTimeline(current, trips, startTime, endTime, distance);
+        if (!fit.ok) return fit;
+
+        const now = new Date();
+        const trip: Trip = {
+          id: `trip-${now.getTime()}-${index}`,
+          vehicleId: current.id,
+          startTime,
+          endTime,
+          startOdometer: fit.slot.startOdometer,
+          endOdometer: fit.slot.endOdometer,
+          calculatedDistance: distance,
+          adjustedDistance: null,
+          duration: endTime.getTime() - startTime.getTime(),
+          status: 'completed',
+          classification: 'unclassified',
+          isAutoTracked: false,
+          source: 'imported',
+          notes: track.name ?? '',
+          syncedAt: null,
+          createdAt: now,
+          updatedAt: now,
+        };
+        return { ok: true, trip, isLatest: !fit.slot.nextTrip };
+      }, route);
+    } catch (error) {
+      console.error('[GpxImport] Failed to save track', name, error);
+      result.tracks.push({ name, status: 'failed', reason: 'Could not be saved' });
+      continue;
+    }
+
+    result.tracks.push(
+      placed.ok
+        ? { name, status: 'imported', trip: placed.trip }
+        : { name, status: 'skipped', reason: placed.reason }
+    );
+  }
+
+  const count = (status: GpxTrackResult['status']) => result.tracks.filter(t => t.status === status).length;
+  console.log(
+    `[GpxImport] ${file.fileName}: imported ${count('imported')}, skipped ${count('skipped')}, failed ${count('failed')}`
+  );
+  return result;
+}
@@ -15,6 +15,17 @@ export interface LocationPoint {
   timestamp: number;
 }
 
+export function toLocationPoint(location: Location.LocationObject): LocationPoint {
+  return {
+    latitude: location.coords.latitude,
+    longitude: location.coords.longitude,
+    altitude: location.coords.altitude,
+    accuracy: location.coords.accuracy,
+    speed: location.coords.speed,
+    timestamp: location.timestamp,
+  };
+}
+
 // Haversine formula for distance calculation
 export function calculateDistance(
   lat1: number,
@@ -44,6 +55,10 @@ export function milesToMeters(miles: number): number {
   return miles / 0.000621371;
 }
 
+export function metersPerSecondToMph(speed: number): number {
+  return speed * 2.23694;
+}
+
 export async function requestLocationPermissions(): Promise<boolean> {
   const { status: foregroundStatus } = await Location.requestForegroundPermissionsAsync();
   
@@ -70,14 +85,7 @@ export async function getCurrentLocation(): Promise<LocationPoint | null> {
       accuracy: Location.Accuracy.High,
     });
 
-    return {
-      latitude: location.coords.latitude,
-      longitude: location.coords.longitude,
-      altitude: location.coords.altitude,
-      accuracy: location.coords.accuracy,
-      speed: location.coords.speed,
-      timestamp: location.timestamp,
-    };
+    return toLocationPoint(location);
   } catch (error) {
     console.error('Error getting current location:', error);
     return null;
@@ -150,9 +158,132 @@ export function isMoving(
   return distance > MOVEMENT_THRESHOLD;
 }
 
+// Speed in m/s from the fix itself, or derived from the previous fix when
+// the platform reports none (iOS uses -1 for "unknown")
+export function getPointSpeed(
+  currentLocation: LocationPoint,
+  previousLocation: LocationPoint | null
+): number | null {
+  if (currentLocation.speed !== null && currentLocation.speed >= 0) {
+    return currentLocation.speed;
+  }
+  if (!previousLocation || currentLocation.timestamp <= previousLocation.timestamp) return null;
+
+  const distance = calculateDistance(
+    previousLocation.latitude,
+    previousLocation.longitude,
+    currentLocation.latitude,
+    currentLocation.longitude
+  );
+  return distance / ((currentLocation.timestamp - previousLocation.timestamp) / 1000);
+}
+
 // Check if stationary for grace period
 export function isStationaryTimeout(lastMovementTime: number): boolean {
   return Date.now() - lastMovementTime > STATIONARY_TIMEOUT;
 }
 
+// ─── GPS Noise Filtering ──────────────────────────────────────────────────────
+//
+// Sits between the location watcher (or background task) and the distance
+// accumulator. Fixes are rejected when their reported accuracy is too poor or
+// when reaching them would require an implausible speed (urban-canyon jumps);
+// accepted fixes are smoothed with a simple Kalman filter so parked-phone
+// jitter does not add up to phantom miles.
+//
+// The state is plain data so the headless accumulator can rebuild it from the
+// last stored route point between background task invocations.
+
+const MAX_ACCEPTABLE_ACCURACY = 50; // meters
+const MAX_PLAUSIBLE_SPEED = 70; // m/s (~155 mph)
+const KALMAN_PROCESS_NOISE = 3; // m/s — minimum expected drift of the true position
+const MIN_ACCURACY = 1; // meters — floor so a perfect fix cannot zero the variance
+
+export type LocationRejectReason = 'low_accuracy' | 'implausible_speed' | 'out_of_order';
+
+export interface LocationFilterState {
+  lastPoint: LocationPoint | null; // last accepted (smoothed) fix
+  variance: number;                // Kalman estimate variance in m², -1 when unseeded
+  rejectedCount: number;
+}
+
+export interface LocationFilterResult {
+  state: LocationFilterState;
+  point: LocationPoint | null;     // smoothed fix, null when rejected
+  rejectReason: LocationRejectReason | null;
+}
+
+export function createLocationFilterState(
+  seed: LocationPoint | null = null,
+  rejectedCount = 0
+): LocationFilterState {
+  const accuracy = Math.max(seed?.accuracy ?? MAX_ACCEPTABLE_ACCURACY, MIN_ACCURACY);
+  return {
+    lastPoint: seed,
+    variance: seed ? accuracy * accuracy : -1,
+    rejectedCount,
+  };
+}
+
+export function filterLocation(
+  state: LocationFilterState,
+  raw: LocationPoint
+): LocationFilterResult {
+  const reject = (reason: LocationRejectReason): LocationFilterResult => ({
+    state: { ...state, rejectedCount: state.rejectedCount + 1 },
+    point: null,
+    rejectReason: reason,
+  });
+
+  // Accuracy gating
+  if (raw.accuracy !== null && raw.accuracy > MAX_ACCEPTABLE_ACCURACY) {
+    return reject('low_accuracy');
+  }
+
+  const previous = state.lastPoint;
+  const accuracy = Math.max(raw.accuracy ?? MAX_ACCEPTABLE_ACCURACY, MIN_ACCURACY);
+
+  // First fix seeds the filter as-is
+  if (!previous || state.variance < 0) {
+    return {
+      state: { ...state, lastPoint: raw, variance: accuracy * accuracy },
+      point: raw,
+      rejectReason: null,
+    };
+  }
+
+  const elapsedSeconds = (raw.timestamp - previous.timestamp) / 1000;
+  if (elapsedSeconds <= 0) {
+    return reject('out_of_order');
+  }
+
+  // Implied-speed sanity check against the last accepted fix
+  const jump = calculateDistance(previous.latitude, previous.longitude, raw.latitude, raw.longitude);
+  if (jump / elapsedSeconds > MAX_PLAUSIBLE_SPEED) {
+    return reject('implausible_speed');
+  }
+
+  // Kalman smoothing: variance grows with time (faster when the device reports
+  // speed, so driving is barely damped), shrinks with each measurement
+  const processNoise = Math.max(KALMAN_PROCESS_NOISE, raw.speed ?? 0);
+  const predictedVariance = state.variance + elapsedSeconds * processNoise * processNoise;
+  const gain = predictedVariance / (predictedVariance + accuracy * accuracy);
+
+  const smoothed: LocationPoint = {
+    ...raw,
+    latitude: previous.latitude + gain * (raw.latitude - previous.latitude),
+    longitude: previous.longitude + gain * (raw.longitude - previous.longitude),
+  };
+
+  return {
+    state: {
+      ...state,
+      lastPoint: smoothed,
+      variance: (1 - gain) * predictedVariance,
+    },
+    point: smoothed,
+    rejectReason: null,
+  };
+}
+
 export const LOCATION_TASK_NAME_EXPORT = LOCATION_TASK_NAME;
@@ -0,0 +1,83 @@
+import { Trip, TripClassification, Vehicle } from '../types/trip';
+import { insertTrip } from './tripService';
+import { fitTripIntoTimeline, type OdometerFitResult } from './odometerTimelineService';
+
+/**
+ * Manually logged trips for drives that were never tracked.
+ * The trip is slotted into the vehicle's odometer history so later trips
+ * keep consistent start/end readings.
+ */
+
+export interface ManualTripInput {
+  vehicle: Vehicle;
+  startTime: Date;
+  endTime: Date;
+  // Either a distance, or both odometer readings
+  distance?: number;
+  startOdometer?: number;
+  endOdometer?: number;
+  classification: TripClassification;
+  notes: string;
+}
+
+export type ManualTripResult =
+  | { ok: true; trip: Trip }
+  | { ok: false; reason: string };
+
+function getInputDistance(input: ManualTripInput): number | null {
+  if (input.startOdometer !== undefined && input.endOdometer !== undefined) {
+    return input.endOdometer - input.startOdometer;
+  }
+  return input.distance ?? null;
+}
+
+// Dry run used by the form to preview where the trip lands
+export function previewManualTrip(input: ManualTripInput, trips: Trip[]): OdometerFitResult {
+  const distance = getInputDistance(input);
+  if (distance === null || !Number.isFinite(distance) || distance <= 0) {
+    return { ok: false, reason: 'Enter a distance or start and end odometer readings' };
+  }
+
+  return fitTripIntoTimeline(input.vehicle, trips, input.startTime, input.endTime, distance, {
+    startOdometer: input.startOdometer !== undefined && input.endOdometer !== undefined
+      ? input.startOdometer
+      : undefined,
+  });
+}
+
+export async function logManualTrip(input: ManualTripInput): Promise<ManualTripResult> {
+  // Fitted again against the stored trips while saving, not the form's preview
+  const placed = await insertTrip(input.vehicle.id, (trips, vehicle) => {
+    const fit = previewManualTrip({ ...input, vehicle }, trips);
+    if (!fit.ok) return fit;
+
+    const now = new Date();
+    const trip: Trip = {
+      id: `trip-${now.getTime()}`,
+      vehicleId: vehicle.id,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      startOdometer: fit.slot.startOdometer,
+      endOdometer: fit.slot.endOdometer,
+      calculatedDistance: getInputDistance(input)!,
+      adjustedDistance: null,
+      duration: input.endTime.getTime() - input.startTime.getTime(),
+      status: 'completed',
+      classification: input.classification,
+      isAutoTracked: false,
+      source: 'manual',
+      notes: input.notes,
+      syncedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return { ok: true, trip, isLatest: !fit.slot.nextTrip };
+  });
+  if (!placed.ok) return placed;
+
+  const { trip } = placed;
+  console.log(
+    `[ManualTrip] Logged ${trip.calculatedDistance.toFixed(1)} mi for ${trip.vehicleId} at odometer ${trip.startOdometer.toFixed(1)}`
+  );
+  return { ok: true, trip };
+}
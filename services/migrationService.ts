@@ -0,0 +1,279 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { storage } from './storageService';
+import { tripRepository } from './tripRepository';
+import { parseTrip, parseTrips } from './tripRecords';
+import { encryptValue, decryptValue } from './encryptionService';
+
+/**
+ * Versioned migrations for persisted data.
+ *
+ * The stored records (trips, the active trip, AutoStart and sync settings,
+ * Bluetooth mappings) share one schema version. At startup every store is
+ * loaded as plain JSON and the migration steps newer than the stored
+ * version run in order over that in-memory copy. Only when all steps
+ * succeed is the original backed up, the result written back and the
+ * version bumped.
+ *
+ * If writing back fails, or the app is killed while writing, the backup is
+ * restored — immediately or on the next launch — and the data stays on the
+ * old version until a later launch migrates it successfully.
+ */
+
+const SCHEMA_VERSION_KEY = '@garageminder_schema_version';
+const MIGRATION_FAILURE_KEY = '@garageminder_migration_failure';
+const BACKUP_STORAGE_KEY = '@garageminder_migration_backup';
+const BACKUP_FILE_NAME = 'garageminder-migration-backup.json';
+
+// Settings stores, keyed by the services that own them
+const AUTOSTART_SETTINGS_KEY = '@garageminder_autostart_settings';
+const SYNC_SETTINGS_KEY = '@garageminder_sync_settings';
+const BT_DEVICE_MAPPINGS_KEY = '@garageminder_bt_mappings';
+
+type JsonRecord = Record<string, unknown>;
+
+// Every store as plain JSON, the way migration steps see it
+export interface PersistedData {
+  trips: JsonRecord[];
+  activeTrip: JsonRecord | null;
+  autoStartSettings: JsonRecord | null;
+  syncSettings: JsonRecord | null;
+  deviceMappings: JsonRecord[] | null;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate(data: PersistedData): PersistedData;
+}
+
+interface MigrationBackup {
+  version: number;
+  createdAt: number;
+  data: PersistedData;
+}
+
+export interface MigrationFailure {
+  version: number; // the step that failed, or the target version if writing back failed
+  reason: string;
+  at: number;
+}
+
+export type MigrationResult =
+  | { status: 'current'; version: number }
+  | { status: 'migrated'; from: number; to: number }
+  | { status: 'failed'; version: number; failure: MigrationFailure };
+
+// ─── Migration Steps ──────────────────────────────────────────────────────────
+// Append new steps with the next version number; never edit a released one.
+
+function backfillTrip(trip: JsonRecord): JsonRecord {
+  return {
+    ...trip,
+    classification: trip.classification ?? 'unclassified',
+    isAutoTracked: trip.isAutoTracked ?? false,
+    notes: trip.notes ?? '',
+  };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Backfill classification, isAutoTracked and notes on trips saved before they existed',
+    migrate: (data) => ({
+      ...data,
+      trips: data.trips.map(backfillTrip),
+      activeTrip: data.activeTrip && backfillTrip(data.activeTrip),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Give Bluetooth mappings saved before priorities existed the normal priority',
+    migrate: (data) => ({
+      ...data,
+      deviceMappings: data.deviceMappings?.map(mapping => ({
+        ...mapping,
+        priority: mapping.priority ?? 1, // MAPPING_PRIORITY_NORMAL
+        addedAt: mapping.addedAt ?? 0,
+      })) ?? null,
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ─── Loading and Saving ───────────────────────────────────────────────────────
+
+function parseJson<T>(data: string | null): T | null {
+  return data ? JSON.parse(data) : null;
+}
+
+// Dates become ISO strings, exactly as they are stored
+function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+async function loadPersistedData(): Promise<PersistedData> {
+  const [trips, activeTrip] = await Promise.all([
+    tripRepository.getTrips(),
+    tripRepository.getActiveTrip(),
+  ]);
+  const [[, autoStartSettings], [, syncSettings], [, deviceMappings]] = await storage.multiGet([
+    AUTOSTART_SETTINGS_KEY,
+    SYNC_SETTINGS_KEY,
+    BT_DEVICE_MAPPINGS_KEY,
+  ]);
+
+  return {
+    trips: toJson(trips) as unknown as JsonRecord[],
+    activeTrip: toJson(activeTrip) as unknown as JsonRecord | null,
+    autoStartSettings: parseJson(autoStartSettings),
+    syncSettings: parseJson(syncSettings),
+    deviceMappings: parseJson(deviceMappings),
+  };
+}
+
+async function savePersistedData(data: PersistedData): Promise<void> {
+  await tripRepository.replaceTrips(parseTrips(JSON.stringify(data.trips)));
+  await tripRepository.setActiveTrip(data.activeTrip ? parseTrip(JSON.stringify(data.activeTrip)) : null);
+
+  const settings: [string, JsonRecord | JsonRecord[] | null][] = [
+    [AUTOSTART_SETTINGS_KEY, data.autoStartSettings],
+    [SYNC_SETTINGS_KEY, data.syncSettings],
+    [BT_DEVICE_MAPPINGS_KEY, data.deviceMappings],
+  ];
+  const present = settings.filter(([, value]) => value !== null);
+  const absent = settings.filter(([, value]) => value === null);
+
+  if (present.length > 0) {
+    await storage.multiSet(present.map(([key, value]) => [key, JSON.stringify(value)]));
+  }
+  if (absent.length > 0) {
+    await storage.multiRemove(absent.map(([key]) => key));
+  }
+}
+
+async function getStoredVersion(): Promise<number> {
+  const data = await storage.getItem(SCHEMA_VERSION_KEY);
+  return data ? Number(data) : 0;
+}
+
+// ─── Backup ───────────────────────────────────────────────────────────────────
+// Native keeps the backup in a file: trips can outgrow an AsyncStorage entry.
+// It's encrypted like everything else; storage does that itself on web.
+
+const isWeb = Platform.OS === 'web';
+
+function getBackupFileUri(): string {
+  return `${FileSystem.documentDirectory}${BACKUP_FILE_NAME}`;
+}
+
+async function writeBackup(backup: MigrationBackup): Promise<void> {
+  const data = JSON.stringify(backup);
+  if (isWeb) {
+    await storage.setItem(BACKUP_STORAGE_KEY, data);
+  } else {
+    await FileSystem.writeAsStringAsync(getBackupFileUri(), await encryptValue(data));
+  }
+}
+
+async function readBackup(): Promise<MigrationBackup | null> {
+  if (isWeb) {
+    return parseJson(await storage.getItem(BACKUP_STORAGE_KEY));
+  }
+  const info = await FileSystem.getInfoAsync(getBackupFileUri());
+  if (!info.exists) return null;
+  return JSON.parse(await decryptValue(await FileSystem.readAsStringAsync(getBackupFileUri())));
+}
+
+async function deleteBackup(): Promise<void> {
+  if (isWeb) {
+    await storage.removeItem(BACKUP_STORAGE_KEY);
+  } else {
+    await FileSystem.deleteAsync(getBackupFileUri(), { idempotent: true });
+  }
+}
+
+async function restoreBackup(backup: MigrationBackup): Promise<void> {
+  await savePersistedData(backup.data);
+  await storage.setItem(SCHEMA_VERSION_KEY, String(backup.version));
+  await deleteBackup();
+  console.log(`[Migration] Restored data from the version ${backup.version} backup`);
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+async function recordFailure(failure: MigrationFailure): Promise<void> {
+  console.error(`[Migration] Migration to version ${failure.version} failed:`, failure.reason);
+  try {
+    await storage.setItem(MIGRATION_FAILURE_KEY, JSON.stringify(failure));
+  } catch {
+    // Nothing more to do — the data itself is already safe
+  }
+}
+
+export async function getLastMigrationFailure(): Promise<MigrationFailure | null> {
+  try {
+    return parseJson(await storage.getItem(MIGRATION_FAILURE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bring persisted data up to CURRENT_SCHEMA_VERSION. Safe to call on every
+ * launch: it returns straight away once the data is current.
+ */
+export async function runMigrations(): Promise<MigrationResult> {
+  // A backup still on disk means the last run died while writing
+  const leftover = await readBackup();
+  if (leftover) {
+    console.warn('[Migration] Found an unfinished migration, restoring its backup');
+    await restoreBackup(leftover);
+  }
+
+  const from = await getStoredVersion();
+  if (from >= CURRENT_SCHEMA_VERSION) {
+    if (from > CURRENT_SCHEMA_VERSION) {
+      console.warn(`[Migration] Data is at version ${from}, newer than this app's ${CURRENT_SCHEMA_VERSION}; leaving it alone`);
+    }
+    return { status: 'current', version: from };
+  }
+
+  const original = await loadPersistedData();
+  let data = original;
+  for (const migration of MIGRATIONS.filter(m => m.version > from)) {
+    try {
+      data = migration.migrate(data);
+      console.log(`[Migration] ${migration.version}: ${migration.description}`);
+    } catch (error) {
+      // Nothing has been written yet, so the stored data is untouched
+      const failure = { version: migration.version, reason: String(error), at: Date.now() };
+      await recordFailure(failure);
+      return { status: 'failed', version: from, failure };
+    }
+  }
+
+  const backup: MigrationBackup = { version: from, createdAt: Date.now(), data: original };
+  await writeBackup(backup);
+
+  try {
+    await savePersistedData(data);
+    await storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  } catch (error) {
+    const failure = { version: CURRENT_SCHEMA_VERSION, reason: String(error), at: Date.now() };
+    await recordFailure(failure);
+    try {
+      await restoreBackup(backup);
+    } catch (restoreError) {
+      // The backup stays on disk and is restored on the next launch
+      console.error('[Migration] Restoring the backup failed:', restoreError);
+    }
+    return { status: 'failed', version: from, failure };
+  }
+
+  await deleteBackup();
+  await storage.removeItem(MIGRATION_FAILURE_KEY);
+  console.log(`[Migration] Migrated persisted data from version ${from} to ${CURRENT_SCHEMA_VERSION}`);
+  return { status: 'migrated', from, to: CURRENT_SCHEMA_VERSION };
+}
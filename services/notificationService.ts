@@ -10,6 +10,34 @@ Notifications.setNotificationHandler({
   }),
 });
 
+// Action buttons on the active-trip notification
+export const TRIP_ACTIVE_CATEGORY = 'trip_active';
+export const TRIP_PAUSED_CATEGORY = 'trip_paused';
+export const TRIP_ACTION_PAUSE = 'pause_trip';
+export const TRIP_ACTION_RESUME = 'resume_trip';
+
+// One button per connected vehicle on the AutoStart conflict notification
+export const VEHICLE_CONFLICT_CATEGORY = 'vehicle_conflict';
+const VEHICLE_CHOICE_ACTION_PREFIX = 'choose_vehicle:';
+
+// The vehicle picked with a conflict notification button, if that's what was pressed
+export function getChosenVehicleId(actionIdentifier: string): string | null {
+  return actionIdentifier.startsWith(VEHICLE_CHOICE_ACTION_PREFIX)
+    ? actionIdentifier.slice(VEHICLE_CHOICE_ACTION_PREFIX.length)
+    : null;
+}
+
+export async function registerTripNotificationCategories(): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  await Notifications.setNotificationCategoryAsync(TRIP_ACTIVE_CATEGORY, [
+    { identifier: TRIP_ACTION_PAUSE, buttonTitle: 'Pause', options: { opensAppToForeground: false } },
+  ]);
+  await Notifications.setNotificationCategoryAsync(TRIP_PAUSED_CATEGORY, [
+    { identifier: TRIP_ACTION_RESUME, buttonTitle: 'Resume', options: { opensAppToForeground: false } },
+  ]);
+}
+
 export async function requestNotificationPermissions(): Promise<boolean> {
   const { status: existingStatus } = await Notifications.getPermissionsAsync();
   let finalStatus = existingStatus;
@@ -25,13 +53,15 @@ export async function requestNotificationPermissions(): Promise<boolean> {
 export async function scheduleNotification(
   title: string,
   body: string,
-  data?: any
+  data?: any,
+  categoryIdentifier?: string
 ): Promise<string> {
   return await Notifications.scheduleNotificationAsync({
     content: {
       title,
       body,
       data,
+      categoryIdentifier,
     },
     trigger: null, // Show immediately
   });
@@ -71,7 +101,55 @@ export async function showTripStartedNotification(vehicleName: string): Promise<
   await scheduleNotification(
     'Trip Started',
     `Tracking mileage for ${vehicleName}`,
-    { type: 'trip_started' }
+    { type: 'trip_started' },
+    TRIP_ACTIVE_CATEGORY
+  );
+}
+
+export async function showTripResumedNotification(vehicleName: string): Promise<void> {
+  await scheduleNotification(
+    'Trip Resumed',
+    `Continuing to track mileage for ${vehicleName}`,
+    { type: 'trip_resumed' },
+    TRIP_ACTIVE_CATEGORY
+  );
+}
+
+export async function showTripPausedNotification(vehicleName: string): Promise<void> {
+  await scheduleNotification(
+    'Trip Paused',
+    `Mileage for ${vehicleName} is on hold until you resume`,
+    { type: 'trip_paused' },
+    TRIP_PAUSED_CATEGORY
+  );
+}
+
+export async function showDrivingDetectedNotification(): Promise<void> {
+  await scheduleNotification(
+    'Driving Detected',
+    'Open GarageMinder to choose which vehicle you are driving',
+    { type: 'driving_detected' }
+  );
+}
+
+export async function showVehicleConflictNotification(vehicles: { id: string; name: string }[]): Promise<void> {
+  // The buttons depend on which vehicles are connected, so the category is set per conflict.
+  // Choosing opens the app: the choice is handled by AutoStart, which only runs there.
+  if (Platform.OS !== 'web') {
+    await Notifications.setNotificationCategoryAsync(
+      VEHICLE_CONFLICT_CATEGORY,
+      vehicles.map(vehicle => ({
+        identifier: `${VEHICLE_CHOICE_ACTION_PREFIX}${vehicle.id}`,
+        buttonTitle: vehicle.name,
+        options: { opensAppToForeground: true },
+      }))
+    );
+  }
+  await scheduleNotification(
+    'Which Vehicle?',
+    `Connected to ${vehicles.map(v => v.name).join(' and ')} — choose the one you're driving before the trip starts`,
+    { type: 'vehicle_conflict' },
+    VEHICLE_CONFLICT_CATEGORY
   );
 }
 
@@ -0,0 +1,150 @@
+/**
+ * OBD-II PID encoding and decoding for ELM327-style adapters.
+ *
+ * Pure functions over the adapter's text replies. They accept replies with or
+ * without spaces (ATS0/ATS1), from several ECUs at once, and both CAN
+ * multi-frame and legacy (J1850/ISO 9141) layouts for mode 09.
+ */
+
+export const OBD_MODE_CURRENT_DATA = 0x01;
+export const OBD_MODE_VEHICLE_INFO = 0x09;
+
+export const OBD_PID = {
+  SUPPORTED_01_20: 0x00,
+  ENGINE_RPM: 0x0c,
+  VEHICLE_SPEED: 0x0d,
+  DISTANCE_SINCE_CODES_CLEARED: 0x31,
+  ODOMETER: 0xa6,
+  VIN: 0x02, // mode 09
+} as const;
+
+// PIDs 0x00, 0x20, 0x40 … each report which of the next 32 PIDs are supported
+const SUPPORT_PID_STEP = 0x20;
+
+const VIN_LENGTH = 17;
+const VIN_CHARACTER = /[A-HJ-NPR-Z0-9]/; // I, O and Q are never used
+
+function toHex(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
+
+// "01" + "0D" → "010D"
+export function formatPidCommand(mode: number, pid: number): string {
+  return `${toHex(mode)}${toHex(pid)}`;
+}
+
+function parseHexBytes(hex: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i + 1 < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+// Lines of hex digits only; prompts, echoes and status text are dropped
+function getHexLines(raw: string): string[] {
+  return raw
+    .split(/[\r\n]+/)
+    .map(line => line.replace(/\s+/g, '').toUpperCase())
+    .filter(line => /^([0-9A-F]+:)?[0-9A-F]+$/.test(line));
+}
+
+/**
+ * Data bytes of the first ECU reply to a mode/PID request, without the
+ * response header (mode + 0x40, PID). Null when no ECU answered it.
+ */
+export function parsePidResponse(raw: string, mode: number, pid: number): number[] | null {
+  const header = formatPidCommand(mode + 0x40, pid);
+  for (const line of getHexLines(raw)) {
+    if (line.startsWith(header) && line.length > header.length) {
+      return parseHexBytes(line.slice(header.length));
+    }
+  }
+  return null;
+}
+
+// ─── Mode 01 decoders ─────────────────────────────────────────────────────────
+
+export function decodeVehicleSpeed(bytes: number[]): number | null {
+  return bytes.length >= 1 ? bytes[0] : null; // km/h
+}
+
+export function decodeEngineRpm(bytes: number[]): number | null {
+  return bytes.length >= 2 ? (bytes[0] * 256 + bytes[1]) / 4 : null;
+}
+
+export function decodeDistanceSinceCodesCleared(bytes: number[]): number | null {
+  return bytes.length >= 2 ? bytes[0] * 256 + bytes[1] : null; // km
+}
+
+export function decodeOdometer(bytes: number[]): number | null {
+  if (bytes.length < 4) return null;
+  // Multiply instead of shifting — the top byte would overflow a signed 32-bit int
+  return (bytes[0] * 2 ** 24 + bytes[1] * 2 ** 16 + bytes[2] * 2 ** 8 + bytes[3]) / 10; // km
+}
+
+/**
+ * PIDs flagged in a support bitmask reply to `basePid` (0x00, 0x20, …).
+ * Bit 31 of the four bytes is basePid + 1, bit 0 is basePid + 32.
+ */
+export function decodeSupportedPids(basePid: number, bytes: number[]): number[] {
+  const supported: number[] = [];
+  bytes.slice(0, 4).forEach((byte, byteIndex) => {
+    for (let bit = 0; bit < 8; bit++) {
+      if (byte & (0x80 >> bit)) supported.push(basePid + byteIndex * 8 + bit + 1);
+    }
+  });
+  return supported;
+}
+
+// The next support PID to ask for, or null when the chain ends here
+export function getNextSupportPid(basePid: number, supported: number[]): number | null {
+  const next = basePid + SUPPORT_PID_STEP;
+  return supported.includes(next) ? next : null;
+}
+
+// ─── Mode 09 (VIN) ────────────────────────────────────────────────────────────
+
+/**
+ * VIN from a 0902 reply.
+ *
+ * CAN replies arrive as ISO-TP frames ("014", "0:490201314731", "1:…") whose
+ * payload starts 49 02 01; legacy replies are one "49 02 nn …" line per four
+ * characters. Padding and framing bytes are dropped and the last 17 valid
+ * VIN characters are kept.
+ */
+export function parseVin(raw: string): string | null {
+  const lines = getHexLines(raw);
+  const isCan = lines.some(line => line.includes(':'));
+
+  let payload: number[] = [];
+  if (isCan) {
+    const frames = lines
+      .filter(line => line.includes(':'))
+      .map(line => line.slice(line.indexOf(':') + 1))
+      .join('');
+    const start = frames.indexOf('4902');
+    if (start < 0) return null;
+    payload = parseHexBytes(frames.slice(start + 6)); // 49 02 + item count
+  } else {
+    for (const line of lines) {
+      if (line.startsWith('4902')) payload.push(...parseHexBytes(line.slice(6))); // 49 02 + frame number
+    }
+  }
+
+  const characters = payload
+    .map(byte => String.fromCharCode(byte))
+    .filter(character => VIN_CHARACTER.test(character))
+    .join('');
+  return characters.length >= VIN_LENGTH ? characters.slice(-VIN_LENGTH) : null;
+}
+
+// ─── Units ────────────────────────────────────────────────────────────────────
+
+export function kmToMiles(km: number): number {
+  return km * 0.621371;
+}
+
+export function milesToKm(miles: number): number {
+  return miles / 0.621371;
+}
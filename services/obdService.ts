@@ -0,0 +1,543 @@
+import { storage } from './storageService';
+import { withWriteLock } from './writeQueue';
+import type { ObdDistanceMethod } from '../types/trip';
+import { createBluetoothSerialTransport, type ObdTransport } from './obdTransport';
+import { SimulatedElm327, createSimulatedObdTransport, cityDriveProfile } from './obdSimulator';
+import {
+  OBD_MODE_CURRENT_DATA,
+  OBD_MODE_VEHICLE_INFO,
+  OBD_PID,
+  formatPidCommand,
+  parsePidResponse,
+  parseVin,
+  decodeVehicleSpeed,
+  decodeEngineRpm,
+  decodeDistanceSinceCodesCleared,
+  decodeOdometer,
+  decodeSupportedPids,
+  getNextSupportPid,
+  kmToMiles,
+} from './obdPids';
+
+/**
+ * OBD-II over an ELM327-style adapter.
+ *
+ * Talks to the adapter through an ObdTransport (Classic Bluetooth serial, or
+ * the simulated adapter in development), reads standard PIDs and can measure
+ * a trip's distance from the car instead of GPS: from the odometer (PID A6)
+ * where the car reports it, otherwise by integrating vehicle speed.
+ *
+ * One adapter connection is shared; commands are queued because the ELM327
+ * handles a single request at a time and answers each with a '>' prompt.
+ */
+
+const OBD_SETTINGS_KEY = '@garageminder_obd_settings';
+
+const COMMAND_TIMEOUT = 3000;         // ms, AT commands and most PIDs
+const SEARCH_TIMEOUT = 10000;         // ms, first request while the adapter finds the protocol
+const POLL_INTERVAL = 1000;           // ms between distance readings
+const MAX_FAILED_POLLS = 3;           // consecutive failures before the session counts as lost
+const MAX_INTEGRATION_GAP = 5000;     // ms — longer gaps in speed readings are not guessed across
+
+const INIT_COMMANDS = ['ATE0', 'ATL0', 'ATS0', 'ATH0', 'ATSP0'];
+const ERROR_REPLIES = ['NO DATA', 'UNABLE TO CONNECT', 'ERROR', 'STOPPED', 'BUFFER FULL'];
+
+// ─── Settings ─────────────────────────────────────────────────────────────────
+
+export interface ObdSettings {
+  enabled: boolean;
+  adapterAddress: string | null;   // bonded Classic Bluetooth adapter
+  adapterName: string | null;
+  useAsDistanceSource: boolean;    // measure trips from the car instead of GPS
+  simulated: boolean;              // development: use the simulated ELM327
+}
+
+const DEFAULT_OBD_SETTINGS: ObdSettings = {
+  enabled: false,
+  adapterAddress: null,
+  adapterName: null,
+  useAsDistanceSource: false,
+  simulated: false,
+};
+
+export async function getObdSettings(): Promise<ObdSettings> {
+  try {
+    const data = await storage.getItem(OBD_SETTINGS_KEY);
+    if (!data) return DEFAULT_OBD_SETTINGS;
+    return { ...DEFAULT_OBD_SETTINGS, ...JSON.parse(data) };
+  } catch {
+    return DEFAULT_OBD_SETTINGS;
+  }
+}
+
+export async function updateObdSettings(partial: Partial<ObdSettings>): Promise<ObdSettings> {
+  return withWriteLock([OBD_SETTINGS_KEY], async () => {
+    const current = await getObdSettings();
+    const updated = { ...current, ...partial };
+    await storage.setItem(OBD_SETTINGS_KEY, JSON.stringify(updated));
+    return updated;
+  });
+}
+
+export function isObdConfigured(settings: ObdSettings): boolean {
+  return settings.enabled && (settings.simulated || settings.adapterAddress !== null);
+}
+
+// ─── Simulated adapter ────────────────────────────────────────────────────────
+
+let simulatedAdapter: SimulatedElm327 | null = null;
+
+// Shared so a development screen can change its speed or switch the ignition off
+export function getSimulatedObdAdapter(): SimulatedElm327 {
+  if (!simulatedAdapter) {
+    simulatedAdapter = new SimulatedElm327({ speedProfile: cityDriveProfile });
+  }
+  return simulatedAdapter;
+}
+
+function createTransport(settings: ObdSettings): ObdTransport | null {
+  if (settings.simulated) return createSimulatedObdTransport(getSimulatedObdAdapter());
+  if (!settings.adapterAddress) return null;
+  return createBluetoothSerialTransport(settings.adapterAddress, settings.adapterName ?? 'OBD-II adapter');
+}
+
+// ─── ELM327 connection ────────────────────────────────────────────────────────
+
+interface Elm327Connection {
+  name: string;
+  isOpen(): boolean;
+  send(command: string, timeoutMs?: number): Promise<string | null>;
+  onClose(callback: () => void): () => void;
+  close(): Promise<void>;
+}
+
+function createElm327Connection(transport: ObdTransport): Elm327Connection {
+  let open = true;
+  let buffer = '';
+  let pending: ((reply: string | null) => void) | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  const closeListeners = new Set<() => void>();
+
+  const finish = (reply: string | null) => {
+    const resolve = pending;
+    pending = null;
+    resolve?.(reply);
+  };
+
+  const removeData = transport.onData(data => {
+    buffer += data;
+    const prompt = buffer.indexOf('>');
+    if (prompt < 0) return;
+    const reply = buffer.slice(0, prompt);
+    buffer = buffer.slice(prompt + 1);
+    finish(reply);
+  });
+
+  const removeClose = transport.onClose(() => {
+    if (!open) return;
+    open = false;
+    finish(null);
+    closeListeners.forEach(listener => listener());
+  });
+
+  const send = (command: string, timeoutMs = COMMAND_TIMEOUT): Promise<string | null> => {
+    const run = queue.then(() => new Promise<string | null>(resolve => {
+      if (!open) {
+        resolve(null);
+        return;
+      }
+      buffer = '';
+      const timer = setTimeout(() => finish(null), timeoutMs);
+      pending = reply => {
+        clearTimeout(timer);
+        resolve(reply === null ? null : cleanReply(reply, command));
+      };
+      transport.write(`${command}\r`).then(ok => {
+        if (!ok) finish(null);
+      });
+    }));
+    queue = run;
+    return run;
+  };
+
+  return {
+    name: transport.name,
+    isOpen: () => open,
+    send,
+    onClose: (callback) => {
+      closeListeners.add(callback);
+      return () => closeListeners.delete(callback);
+    },
+    close: async () => {
+      if (!open) return;
+      open = false;
+      finish(null);
+      removeData();
+      removeClose();
+      await transport.close();
+    },
+  };
+}
+
+// Drops the echoed command and progress lines such as SEARCHING...
+function cleanReply(reply: string, command: string): string {
+  return reply
+    .split(/[\r\n]+/)
+    .map(line => line.trim())
+    .filter(line => line && line.replace(/\s+/g, '') !== command && !line.startsWith('SEARCHING'))
+    .join('\r');
+}
+
+// No reply at all, '?' (command not understood) or an ELM327 error message
+function isErrorReply(reply: string | null): boolean {
+  if (!reply) return true;
+  return reply.split('\r').some(line =>
+    line === '?' || ERROR_REPLIES.some(error => line.toUpperCase().includes(error))
+  );
+}
+
+async function queryPid(
+  connection: Elm327Connection,
+  mode: number,
+  pid: number,
+  timeoutMs?: number
+): Promise<number[] | null> {
+  const reply = await connection.send(formatPidCommand(mode, pid), timeoutMs);
+  if (isErrorReply(reply)) return null;
+  return parsePidResponse(reply!, mode, pid);
+}
+
+type ConnectResult = { ok: true; connection: Elm327Connection } | { ok: false; reason: string };
+
+let activeConnection: Elm327Connection | null = null;
+let connecting: Promise<ConnectResult> | null = null;
+// Callers still using each connection; the last one to let go closes it
+const connectionUsers = new Map<Elm327Connection, number>();
+let sessionInProgress = false; // set before a session's first await, so only one starts
+
+/**
+ * Open the configured adapter and set it up (echo, spaces and headers off,
+ * automatic protocol). Reuses the open connection if there is one, and
+ * callers arriving while it opens wait for it instead of opening another.
+ */
+function connect(settings: ObdSettings): Promise<ConnectResult> {
+  if (activeConnection?.isOpen()) return Promise.resolve({ ok: true, connection: activeConnection });
+  if (!connecting) {
+    connecting = openConnection(settings).finally(() => {
+      connecting = null;
+    });
+  }
+  return connecting;
+}
+
+async function openConnection(settings: ObdSettings): Promise<ConnectResult> {
+  const transport = createTransport(settings);
+  if (!transport) return { ok: false, reason: 'Choose an OBD-II adapter first' };
+
+  const opened = await transport.open();
+  if (!opened) return { ok: false, reason: `Could not connect to ${transport.name}` };
+
+  const connection = createElm327Connection(transport);
+  const reset = await connection.send('ATZ');
+  if (!reset?.includes('ELM')) {
+    await connection.close();
+    return { ok: false, reason: `${transport.name} did not answer like an ELM327 adapter` };
+  }
+  for (const command of INIT_COMMANDS) {
+    const reply = await connection.send(command);
+    if (!reply?.includes('OK')) console.warn('[ObdService] Adapter rejected', command, reply);
+  }
+
+  activeConnection = connection;
+  connection.onClose(() => {
+    if (activeConnection === connection) activeConnection = null;
+    console.log('[ObdService] Adapter connection closed');
+  });
+  console.log('[ObdService] Connected to', transport.name);
+  return { ok: true, connection };
+}
+
+async function disconnect(connection: Elm327Connection): Promise<void> {
+  if (activeConnection === connection) activeConnection = null;
+  await connection.close();
+}
+
+// connect() for a caller that releases the connection when it's done with it
+async function acquireConnection(settings: ObdSettings): Promise<ConnectResult> {
+  const connected = await connect(settings);
+  if (connected.ok) {
+    connectionUsers.set(connected.connection, (connectionUsers.get(connected.connection) ?? 0) + 1);
+  }
+  return connected;
+}
+
+async function releaseConnection(connection: Elm327Connection): Promise<void> {
+  const users = (connectionUsers.get(connection) ?? 1) - 1;
+  if (users > 0) {
+    connectionUsers.set(connection, users);
+    return;
+  }
+  connectionUsers.delete(connection);
+  await disconnect(connection);
+}
+
+// Walks the 0x00, 0x20, … support chain; null when the car doesn't answer at all
+async function getSupportedPids(connection: Elm327Connection): Promise<number[] | null> {
+  const supported: number[] = [];
+  let base: number | null = OBD_PID.SUPPORTED_01_20;
+
+  while (base !== null) {
+    // The first request also triggers the protocol search
+    const timeout = base === OBD_PID.SUPPORTED_01_20 ? SEARCH_TIMEOUT : COMMAND_TIMEOUT;
+    const bytes = await queryPid(connection, OBD_MODE_CURRENT_DATA, base, timeout);
+    if (!bytes) return base === OBD_PID.SUPPORTED_01_20 ? null : supported;
+
+    const pids = decodeSupportedPids(base, bytes);
+    supported.push(...pids);
+    base = getNextSupportPid(base, pids);
+  }
+  return supported;
+}
+
+async function readOdometerKm(connection: Elm327Connection): Promise<number | null> {
+  const bytes = await queryPid(connection, OBD_MODE_CURRENT_DATA, OBD_PID.ODOMETER);
+  return bytes ? decodeOdometer(bytes) : null;
+}
+
+async function readSpeedKmh(connection: Elm327Connection): Promise<number | null> {
+  const bytes = await queryPid(connection, OBD_MODE_CURRENT_DATA, OBD_PID.VEHICLE_SPEED);
+  return bytes ? decodeVehicleSpeed(bytes) : null;
+}
+
+async function readVin(connection: Elm327Connection): Promise<string | null> {
+  const reply = await connection.send(formatPidCommand(OBD_MODE_VEHICLE_INFO, OBD_PID.VIN), SEARCH_TIMEOUT);
+  return isErrorReply(reply) ? null : parseVin(reply!);
+}
+
+// ─── Connection test ──────────────────────────────────────────────────────────
+
+export interface ObdVehicleReport {
+  adapterName: string;
+  vin: string | null;
+  speedKmh: number | null;
+  rpm: number | null;
+  odometerKm: number | null;              // null when the car doesn't report it (PID A6)
+  distanceSinceClearedKm: number | null;
+  distanceMethod: ObdDistanceMethod | null; // how trips would be measured
+}
+
+export type ObdTestResult =
+  | { ok: true; report: ObdVehicleReport }
+  | { ok: false; reason: string };
+
+// One-off read of everything the app uses, for the Settings "Test connection" button
+export async function testObdConnection(): Promise<ObdTestResult> {
+  const settings = await getObdSettings();
+  const connected = await acquireConnection(settings);
+  if (!connected.ok) return connected;
+
+  const { connection } = connected;
+  try {
+    const supported = await getSupportedPids(connection);
+    if (!supported) {
+      return { ok: false, reason: 'The adapter could not reach the car — is the ignition on?' };
+    }
+
+    const has = (pid: number) => supported.includes(pid);
+    const rpmBytes = has(OBD_PID.ENGINE_RPM)
+      ? await queryPid(connection, OBD_MODE_CURRENT_DATA, OBD_PID.ENGINE_RPM)
+      : null;
+    const clearedBytes = has(OBD_PID.DISTANCE_SINCE_CODES_CLEARED)
+      ? await queryPid(connection, OBD_MODE_CURRENT_DATA, OBD_PID.DISTANCE_SINCE_CODES_CLEARED)
+      : null;
+    const speedKmh = has(OBD_PID.VEHICLE_SPEED) ? await readSpeedKmh(connection) : null;
+    const odometerKm = has(OBD_PID.ODOMETER) ? await readOdometerKm(connection) : null;
+
+    const report: ObdVehicleReport = {
+      adapterName: connection.name,
+      vin: await readVin(connection),
+      speedKmh,
+      rpm: rpmBytes ? decodeEngineRpm(rpmBytes) : null,
+      odometerKm,
+      distanceSinceClearedKm: clearedBytes ? decodeDistanceSinceCodesCleared(clearedBytes) : null,
+      distanceMethod: odometerKm !== null ? 'odometer' : speedKmh !== null ? 'speed' : null,
+    };
+    console.log('[ObdService] Test report:', report);
+    return { ok: true, report };
+  } finally {
+    await releaseConnection(connection);
+  }
+}
+
+// VIN of the car the adapter is plugged into, or null if it can't be read
+export async function readObdVin(): Promise<string | null> {
+  const settings = await getObdSettings();
+  if (!isObdConfigured(settings)) return null;
+
+  const connected = await acquireConnection(settings);
+  if (!connected.ok) return null;
+  try {
+    return await readVin(connected.connection);
+  } finally {
+    await releaseConnection(connected.connection);
+  }
+}
+
+// ─── Trip distance sessions ───────────────────────────────────────────────────
+
+export interface ObdDistanceSession {
+  adapterName: string;
+  method: ObdDistanceMethod;
+  getDistanceMiles(): number;
+  stop(): Promise<number>; // final distance in miles
+}
+
+interface ObdDistanceCallbacks {
+  onUpdate?: (distanceMiles: number) => void;
+  // The adapter stopped answering or disconnected; distance so far is final
+  onLost?: (distanceMiles: number) => void;
+}
+
+/**
+ * Measure a trip's distance from the car. Resolves null (after logging why)
+ * when OBD isn't set up or the car can't be read, so the caller can stay on
+ * GPS. Only one session runs at a time.
+ */
+export async function startObdDistanceSession(
+  callbacks: ObdDistanceCallbacks = {}
+): Promise<ObdDistanceSession | null> {
+  if (sessionInProgress) {
+    console.warn('[ObdService] A distance session is already running');
+    return null;
+  }
+  sessionInProgress = true;
+  try {
+    const session = await openDistanceSession(callbacks);
+    if (!session) sessionInProgress = false;
+    return session;
+  } catch (error) {
+    sessionInProgress = false;
+    throw error;
+  }
+}
+
+async function openDistanceSession(callbacks: ObdDistanceCallbacks): Promise<ObdDistanceSession | null> {
+  const settings = await getObdSettings();
+  if (!isObdConfigured(settings) || !settings.useAsDistanceSource) return null;
+
+  const connected = await acquireConnection(settings);
+  if (!connected.ok) {
+    console.warn('[ObdService] Distance session not started:', connected.reason);
+    return null;
+  }
+  const { connection } = connected;
+
+  let startOdometer: number | null;
+  let firstSpeed: number | null;
+  try {
+    const supported = await getSupportedPids(connection);
+    startOdometer = supported?.includes(OBD_PID.ODOMETER) ? await readOdometerKm(connection) : null;
+    firstSpeed = supported?.includes(OBD_PID.VEHICLE_SPEED) ? await readSpeedKmh(connection) : null;
+  } catch (error) {
+    await releaseConnection(connection);
+    throw error;
+  }
+
+  if (startOdometer === null && firstSpeed === null) {
+    console.warn('[ObdService] Distance session not started: car reports neither odometer nor speed');
+    await releaseConnection(connection);
+    return null;
+  }
+
+  const method: ObdDistanceMethod = startOdometer !== null ? 'odometer' : 'speed';
+  let distanceKm = 0;
+  let speedKmh = firstSpeed;
+  let lastSampleAt = Date.now();
+  let failedPolls = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = true;
+
+  let removeClose: () => void = () => {};
+
+  console.log('[ObdService] Distance session started using', method);
+
+  const end = async () => {
+    running = false;
+    sessionInProgress = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    removeClose();
+    await releaseConnection(connection);
+  };
+
+  const lose = (reason: string) => {
+    if (!running) return;
+    console.warn('[ObdService] Distance session lost:', reason);
+    const miles = kmToMiles(distanceKm);
+    end().catch(() => {});
+    callbacks.onLost?.(miles);
+  };
+
+  removeClose = connection.onClose(() => lose('adapter disconnected'));
+
+  // Returns false when the car didn't answer
+  const sample = async (): Promise<boolean> => {
+    if (method === 'odometer') {
+      const odometer = await readOdometerKm(connection);
+      if (odometer === null) return false;
+      // The odometer only moves forward; ignore a glitchy lower reading
+      distanceKm = Math.max(distanceKm, odometer - startOdometer!);
+      return true;
+    }
+
+    const speed = await readSpeedKmh(connection);
+    if (speed === null) return false;
+    const now = Date.now();
+    const elapsed = now - lastSampleAt;
+    if (elapsed <= MAX_INTEGRATION_GAP) {
+      distanceKm += (((speedKmh ?? speed) + speed) / 2) * (elapsed / 3600000);
+    }
+    speedKmh = speed;
+    lastSampleAt = now;
+    return true;
+  };
+
+  const poll = async () => {
+    if (!running) return;
+    try {
+      const ok = await sample();
+      if (!running) return;
+      failedPolls = ok ? 0 : failedPolls + 1;
+      if (failedPolls >= MAX_FAILED_POLLS) {
+        lose('no response from the car');
+        return;
+      }
+      if (ok) callbacks.onUpdate?.(kmToMiles(distanceKm));
+    } catch (error) {
+      console.error('[ObdService] Poll error:', error);
+    }
+    if (running) timer = setTimeout(poll, POLL_INTERVAL);
+  };
+  timer = setTimeout(poll, POLL_INTERVAL);
+
+  return {
+    adapterName: connection.name,
+    method,
+    getDistanceMiles: () => kmToMiles(distanceKm),
+    stop: async () => {
+      if (running) {
+        // One last reading so the final stretch counts
+        if (timer) clearTimeout(timer);
+        timer = null;
+        try {
+          await sample();
+        } catch {
+          // Keep the distance we already have
+        }
+        await end();
+        console.log('[ObdService] Distance session stopped:', kmToMiles(distanceKm).toFixed(2), 'miles');
+      }
+      return kmToMiles(distanceKm);
+    },
+  };
+}
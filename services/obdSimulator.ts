@@ -0,0 +1,338 @@
+import type { ObdTransport } from './obdTransport';
+import { OBD_PID } from './obdPids';
+
+/**
+ * Simulated ELM327 adapter plugged into a simulated car.
+ *
+ * Speaks enough of the ELM327 command set for ObdService (AT setup commands,
+ * the mode 01 support chain, speed, RPM, distance since codes cleared,
+ * odometer, and the mode 09 VIN in CAN or legacy framing) so OBD-II trips
+ * can be exercised without a car. The car's odometer advances with its
+ * speed as time passes.
+ *
+ * handle() has the FakeSerialResponder shape, so the same adapter can sit
+ * behind FakeBluetoothClassicModule.attachSerialDevice() or be used directly
+ * through createSimulatedObdTransport().
+ */
+
+export type SimulatedObdProtocol = 'can' | 'legacy';
+
+export interface SimulatedVehicleOptions {
+  vin?: string;
+  protocol?: SimulatedObdProtocol;
+  supportsOdometer?: boolean;                  // PID A6 is only on newer (2019+) cars
+  odometerKm?: number;
+  distanceSinceClearedKm?: number;
+  speedProfile?: (elapsedMs: number) => number; // km/h; a fixed speed when omitted
+  clock?: () => number;
+}
+
+export const SIMULATED_VIN = '1HGCM82633A004352';
+
+const PROMPT = '>';
+const ELM_VERSION = 'ELM327 v1.5';
+
+// Stop-and-go city driving: a three-minute cycle between traffic lights
+export function cityDriveProfile(elapsedMs: number): number {
+  const cycle = (elapsedMs / 1000) % 180;
+  if (cycle < 20) return cycle * 2.5;                               // pull away to 50 km/h
+  if (cycle < 150) return 50 + 8 * Math.sin((cycle - 20) / 10);     // cruise
+  if (cycle < 165) return (50 * (165 - cycle)) / 15;                // brake
+  return 0;                                                          // wait at the light
+}
+
+export class SimulatedElm327 {
+  private echo = true;
+  private spaces = true;
+  private headers = false;
+  private linefeeds = false;
+  private searching = true;
+  private ignitionOn = true;
+  private buffer = '';
+
+  private readonly vin: string;
+  private readonly protocol: SimulatedObdProtocol;
+  private readonly supportsOdometer: boolean;
+  private readonly speedProfile: ((elapsedMs: number) => number) | null;
+  private readonly clock: () => number;
+  private readonly startedAt: number;
+  private updatedAt: number;
+  private speed: number;
+  private odometer: number;
+  private clearedDistance: number;
+
+  constructor(options: SimulatedVehicleOptions = {}) {
+    this.vin = options.vin ?? SIMULATED_VIN;
+    this.protocol = options.protocol ?? 'can';
+    this.supportsOdometer = options.supportsOdometer ?? true;
+    this.speedProfile = options.speedProfile ?? null;
+    this.clock = options.clock ?? Date.now;
+    this.startedAt = this.clock();
+    this.updatedAt = this.startedAt;
+    this.speed = 0;
+    this.odometer = options.odometerKm ?? 48250;
+    this.clearedDistance = options.distanceSinceClearedKm ?? 1200;
+  }
+
+  // ─── The simulated car ──────────────────────────────────────────────────────
+
+  get speedKmh(): number {
+    this.update();
+    return this.speed;
+  }
+
+  get odometerKm(): number {
+    this.update();
+    return this.odometer;
+  }
+
+  // Ignored while a speed profile drives the car
+  setSpeed(kmh: number): void {
+    this.update();
+    this.speed = Math.max(0, kmh);
+  }
+
+  // With the ignition off the ECUs stop answering, like a parked car
+  setIgnition(on: boolean): void {
+    this.update();
+    this.ignitionOn = on;
+    if (!on) this.speed = 0;
+  }
+
+  private update(): void {
+    const now = this.clock();
+    const elapsedHours = Math.max(0, now - this.updatedAt) / 3600000;
+    const travelled = this.speed * elapsedHours;
+    this.odometer += travelled;
+    this.clearedDistance += travelled;
+    this.updatedAt = now;
+
+    if (this.speedProfile && this.ignitionOn) {
+      this.speed = Math.max(0, this.speedProfile(now - this.startedAt));
+    }
+  }
+
+  // ─── ELM327 ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Feed raw text written by the client. Commands end with a carriage return;
+   * returns the adapter's reply (ending in the '>' prompt) once a command is
+   * complete, or null while it is still buffering.
+   */
+  handle(data: string): string | null {
+    this.buffer += data;
+    const end = this.buffer.indexOf('\r');
+    if (end < 0) return null;
+
+    const command = this.buffer.slice(0, end).replace(/\s+/g, '').toUpperCase();
+    this.buffer = this.buffer.slice(end + 1);
+
+    const lines = command.startsWith('AT') ? this.handleAt(command.slice(2)) : this.handleObd(command);
+    const newline = this.linefeeds ? '\r\n' : '\r';
+    const echo = this.echo ? command + newline : '';
+    return echo + lines.join(newline) + newline + newline + PROMPT;
+  }
+
+  private handleAt(command: string): string[] {
+    const flag = (prefix: string): boolean | null => {
+      if (command === `${prefix}0`) return false;
+      if (command === `${prefix}1`) return true;
+      return null;
+    };
+
+    if (command === 'Z' || command === 'WS') {
+      this.echo = true;
+      this.spaces = true;
+      this.headers = false;
+      this.linefeeds = false;
+      this.searching = true;
+      return ['', ELM_VERSION];
+    }
+    if (command === 'I') return [ELM_VERSION];
+    if (command === '@1') return ['OBDII to RS232 Interpreter'];
+    if (command === 'RV') return [this.ignitionOn ? '14.2V' : '12.4V'];
+    if (command === 'DPN') return [this.protocol === 'can' ? 'A6' : 'A3'];
+    if (command.startsWith('SP')) {
+      this.searching = true;
+      return ['OK'];
+    }
+    if (command.startsWith('ST') || command.startsWith('AT')) return ['OK']; // timeouts
+
+    const settings: [string, (value: boolean) => void][] = [
+      ['E', value => { this.echo = value; }],
+      ['S', value => { this.spaces = value; }],
+      ['H', value => { this.headers = value; }],
+      ['L', value => { this.linefeeds = value; }],
+    ];
+    for (const [prefix, apply] of settings) {
+      const value = flag(prefix);
+      if (value !== null) {
+        apply(value);
+        return ['OK'];
+      }
+    }
+    return ['?'];
+  }
+
+  private handleObd(command: string): string[] {
+    if (!/^[0-9A-F]{4}$/.test(command)) return ['?'];
+    if (!this.ignitionOn) return this.withSearching(['UNABLE TO CONNECT']);
+
+    const mode = parseInt(command.slice(0, 2), 16);
+    const pid = parseInt(command.slice(2, 4), 16);
+    this.update();
+
+    if (mode === 0x09 && pid === OBD_PID.VIN) return this.withSearching(this.formatVin());
+    if (mode === 0x09 && pid === 0x00) return this.withSearching([this.formatReply(mode, pid, [0x40, 0, 0, 0])]);
+    if (mode !== 0x01) return this.withSearching(['NO DATA']);
+
+    const data = this.readPid(pid);
+    return this.withSearching([data ? this.formatReply(mode, pid, data) : 'NO DATA']);
+  }
+
+  private readPid(pid: number): number[] | null {
+    const supported = this.getSupportedPids();
+    if (pid % 0x20 === 0) {
+      if (pid !== 0 && !supported.includes(pid)) return null;
+      const bytes = [0, 0, 0, 0];
+      supported
+        .filter(p => p > pid && p <= pid + 0x20)
+        .forEach(p => {
+          const bit = p - pid - 1;
+          bytes[Math.floor(bit / 8)] |= 0x80 >> (bit % 8);
+        });
+      return bytes;
+    }
+
+    switch (pid) {
+      case OBD_PID.VEHICLE_SPEED:
+        return [Math.min(255, Math.round(this.speed))];
+      case OBD_PID.ENGINE_RPM: {
+        const rpm = this.speed > 0 ? 900 + this.speed * 30 : 750;
+        const raw = Math.round(rpm * 4);
+        return [raw >> 8, raw & 0xff];
+      }
+      case OBD_PID.DISTANCE_SINCE_CODES_CLEARED: {
+        const km = Math.min(0xffff, Math.floor(this.clearedDistance));
+        return [km >> 8, km & 0xff];
+      }
+      case OBD_PID.ODOMETER: {
+        if (!this.supportsOdometer) return null;
+        const tenths = Math.floor(this.odometer * 10);
+        return [
+          Math.floor(tenths / 2 ** 24) & 0xff,
+          Math.floor(tenths / 2 ** 16) & 0xff,
+          Math.floor(tenths / 2 ** 8) & 0xff,
+          tenths & 0xff,
+        ];
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Data PIDs plus every support PID needed to reach them
+  private getSupportedPids(): number[] {
+    const data: number[] = [OBD_PID.ENGINE_RPM, OBD_PID.VEHICLE_SPEED, OBD_PID.DISTANCE_SINCE_CODES_CLEARED];
+    if (this.supportsOdometer) data.push(OBD_PID.ODOMETER);
+
+    const highest = Math.max(...data);
+    const chain: number[] = [];
+    for (let base = 0x20; base < highest; base += 0x20) chain.push(base);
+    return [...chain, ...data];
+  }
+
+  // The first request after a reset makes the adapter search for the protocol
+  private withSearching(lines: string[]): string[] {
+    if (!this.searching) return lines;
+    this.searching = false;
+    return ['SEARCHING...', ...lines];
+  }
+
+  private formatBytes(bytes: number[]): string {
+    const hex = bytes.map(byte => byte.toString(16).toUpperCase().padStart(2, '0'));
+    return hex.join(this.spaces ? ' ' : '');
+  }
+
+  private formatReply(mode: number, pid: number, data: number[]): string {
+    const payload = [mode + 0x40, pid, ...data];
+    if (!this.headers) return this.formatBytes(payload);
+
+    if (this.protocol === 'can') {
+      return (this.spaces ? '7E8 ' : '7E8') + this.formatBytes([payload.length, ...payload]);
+    }
+    const frame = [0x48, 0x6b, 0x10, ...payload];
+    const checksum = frame.reduce((sum, byte) => sum + byte, 0) & 0xff;
+    return this.formatBytes([...frame, checksum]);
+  }
+
+  private formatVin(): string[] {
+    const characters = this.vin.split('').map(c => c.charCodeAt(0));
+
+    if (this.protocol === 'legacy') {
+      // Five frames of four bytes, the first padded with zeros
+      const padded = [0, 0, 0, ...characters];
+      const lines: string[] = [];
+      for (let frame = 0; frame < 5; frame++) {
+        const chunk = padded.slice(frame * 4, frame * 4 + 4);
+        lines.push(this.formatReply(0x09, OBD_PID.VIN, [frame + 1, ...chunk]));
+      }
+      return lines;
+    }
+
+    // ISO-TP: a length line, then frames of 6 and 7 bytes
+    const payload = [0x49, OBD_PID.VIN, 0x01, ...characters];
+    const lines = [payload.length.toString(16).toUpperCase().padStart(3, '0')];
+    let offset = 0;
+    for (let frame = 0; offset < payload.length; frame++) {
+      const size = frame === 0 ? 6 : 7;
+      lines.push(`${frame.toString(16).toUpperCase()}:${this.spaces ? ' ' : ''}${this.formatBytes(payload.slice(offset, offset + size))}`);
+      offset += size;
+    }
+    return lines;
+  }
+}
+
+/**
+ * Transport straight to a simulated adapter, no Bluetooth involved.
+ * Replies arrive asynchronously after `latencyMs`, like a real serial link.
+ */
+export function createSimulatedObdTransport(
+  adapter: SimulatedElm327,
+  options: { name?: string; latencyMs?: number } = {}
+): ObdTransport {
+  const dataListeners = new Set<(data: string) => void>();
+  const closeListeners = new Set<() => void>();
+  let open = false;
+
+  return {
+    name: options.name ?? 'Simulated ELM327',
+    open: async () => {
+      open = true;
+      return true;
+    },
+    write: async (data) => {
+      if (!open) return false;
+      const reply = adapter.handle(data);
+      if (reply) {
+        setTimeout(() => {
+          if (open) dataListeners.forEach(listener => listener(reply));
+        }, options.latencyMs ?? 20);
+      }
+      return true;
+    },
+    onData: (callback) => {
+      dataListeners.add(callback);
+      return () => dataListeners.delete(callback);
+    },
+    onClose: (callback) => {
+      closeListeners.add(callback);
+      return () => closeListeners.delete(callback);
+    },
+    close: async () => {
+      if (!open) return;
+      open = false;
+      closeListeners.forEach(listener => listener());
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import {
+  openSerialConnection,
+  writeSerial,
+  closeSerialConnection,
+  addSerialDataListener,
+  addSerialClosedListener,
+} from '../modules/expo-bluetooth-classic';
+
+/**
+ * Byte pipe to an ELM327-style OBD-II adapter.
+ *
+ * The OBD client only needs to open a link, write commands and hear text
+ * back, so it runs the same over a Classic Bluetooth serial port and over
+ * the simulated adapter in obdSimulator.
+ */
+
+export interface ObdTransport {
+  name: string;
+  open(): Promise<boolean>;
+  write(data: string): Promise<boolean>;
+  onData(callback: (data: string) => void): () => void;
+  onClose(callback: () => void): () => void;
+  close(): Promise<void>;
+}
+
+// Serial Port Profile connection to a bonded adapter (Android only)
+export function createBluetoothSerialTransport(address: string, name: string): ObdTransport {
+  return {
+    name,
+    open: () => openSerialConnection(address),
+    write: (data) => writeSerial(address, data),
+    onData: (callback) => {
+      const subscription = addSerialDataListener(event => {
+        if (event.address === address) callback(event.data);
+      });
+      return () => subscription?.remove();
+    },
+    onClose: (callback) => {
+      const subscription = addSerialClosedListener(event => {
+        if (event.address === address) callback();
+      });
+      return () => subscription?.remove();
+    },
+    close: async () => {
+      await closeSerialConnection(address);
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { Trip, Vehicle } from '../types/trip';
+
+/**
+ * Odometer timeline for trips that are added after the fact (imports, manual
+ * entries). Each vehicle's completed trips form an ordered sequence of
+ * odometer readings; a new trip has to slot in between its neighbours
+ * without overlapping them in time or running past the next reading.
+ */
+
+// Rounding slack between neighbouring readings (miles)
+const ODOMETER_TOLERANCE_MILES = 0.5;
+
+export interface OdometerSlot {
+  startOdometer: number;
+  endOdometer: number;
+  previousTrip: Trip | null;
+  nextTrip: Trip | null;
+}
+
+export type OdometerFitResult =
+  | { ok: true; slot: OdometerSlot }
+  | { ok: false; reason: string };
+
+export function getTripEndOdometer(trip: Trip): number {
+  return trip.endOdometer ?? trip.startOdometer + (trip.adjustedDistance ?? trip.calculatedDistance);
+}
+
+function getTripEndTime(trip: Trip): Date {
+  return trip.endTime ?? new Date(trip.startTime.getTime() + trip.duration);
+}
+
+export interface TimelineFitOptions {
+  startOdometer?: number; // reading entered by the user instead of derived from neighbours
+  ignoreTripId?: string;
+}
+
+export function fitTripIntoTimeline(
+  vehicle: Vehicle,
+  trips: Trip[],
+  startTime: Date,
+  endTime: Date,
+  distance: number,
+  options: TimelineFitOptions = {}
+): OdometerFitResult {
+  if (endTime.getTime() <= startTime.getTime()) {
+    return { ok: false, reason: 'Trip must end after it starts' };
+  }
+  if (endTime.getTime() > Date.now()) {
+    return { ok: false, reason: 'Trip cannot end in the future' };
+  }
+
+  const vehicleTrips = trips
+    .filter(t => t.vehicleId === vehicle.id && t.status !== 'active' && t.id !== options.ignoreTripId)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  const overlapping = vehicleTrips.find(
+    t => t.startTime.getTime() < endTime.getTime() && getTripEndTime(t).getTime() > startTime.getTime()
+  );
+  if (overlapping) {
+    return {
+      ok: false,
+      reason: `Overlaps an existing trip on ${overlapping.startTime.toLocaleString()}`,
+    };
+  }
+
+  const previousTrip = [...vehicleTrips].reverse()
+    .find(t => getTripEndTime(t).getTime() <= startTime.getTime()) ?? null;
+  const nextTrip = vehicleTrips.find(t => t.startTime.getTime() >= endTime.getTime()) ?? null;
+
+  // Anchor to the previous reading; a trip older than all history is
+  // anchored backwards from the next one. With no history at all the
+  // vehicle's current odometer already includes the drive.
+  let startOdometer: number;
+  if (options.startOdometer !== undefined) {
+    startOdometer = options.startOdometer;
+    const previousEnd = previousTrip ? getTripEndOdometer(previousTrip) : null;
+    if (previousEnd !== null && startOdometer < previousEnd - ODOMETER_TOLERANCE_MILES) {
+      return {
+        ok: false,
+        reason: `Start odometer ${startOdometer.toFixed(1)} mi is below the previous trip's end reading of ${previousEnd.toFixed(1)} mi`,
+      };
+    }
+  } else if (previousTrip) {
+    startOdometer = getTripEndOdometer(previousTrip);
+  } else if (nextTrip) {
+    startOdometer = nextTrip.startOdometer - distance;
+  } else {
+    startOdometer = vehicle.currentOdometer - distance;
+  }
+
+  if (startOdometer < 0) {
+    return { ok: false, reason: `${distance.toFixed(1)} mi is more than the odometer had recorded at that time` };
+  }
+
+  if (nextTrip && startOdometer + distance > nextTrip.startOdometer + ODOMETER_TOLERANCE_MILES) {
+    return {
+      ok: false,
+      reason: `${distance.toFixed(1)} mi does not fit between odometer readings ` +
+        `${startOdometer.toFixed(1)} and ${nextTrip.startOdometer.toFixed(1)} mi`,
+    };
+  }
+
+  return { ok: true, slot: { startOdometer, endOdometer: startOdometer + distance, previousTrip, nextTrip } };
+}
@@ -0,0 +1,215 @@
+import type { LocationPoint } from './locationService';
+
+/**
+ * Route compaction: Douglas-Peucker simplification plus a compact encoding
+ * based on the Google encoded polyline algorithm.
+ *
+ * Coordinates are stored as a standard encoded polyline (precision 5, ~1 m)
+ * so they can be handed to map tooling as-is. Timestamps, speed and altitude
+ * ride along as parallel delta-encoded streams using the same varint scheme.
+ */
+
+const COORDINATE_PRECISION = 1e5;
+const ALTITUDE_OFFSET = 1000; // meters — keeps below-sea-level values positive; 0 means unknown
+
+export interface CompactRoute {
+  version: 1;
+  startTime: number;            // epoch ms of the first point
+  polyline: string;             // lat/lng, encoded polyline precision 5
+  timeOffsets: string;          // seconds since startTime
+  speeds: string;               // dm/s + 1, 0 = unknown
+  altitudes: string;            // meters + ALTITUDE_OFFSET, 0 = unknown
+  toleranceMeters: number;      // Douglas-Peucker tolerance used
+  originalPointCount: number;   // points before simplification
+  averageAccuracy: number | null; // meters, from the raw points
+}
+
+// ─── Douglas-Peucker ──────────────────────────────────────────────────────────
+
+// Perpendicular distance (meters) from p to segment a→b on a local
+// equirectangular projection — accurate enough at trip scale
+function perpendicularDistance(p: LocationPoint, a: LocationPoint, b: LocationPoint): number {
+  const metersPerDegLat = 111320;
+  const metersPerDegLon = 111320 * Math.cos((a.latitude * Math.PI) / 180);
+
+  // a is the origin of the projection
+  const dx = (b.longitude - a.longitude) * metersPerDegLon;
+  const dy = (b.latitude - a.latitude) * metersPerDegLat;
+  const px = (p.longitude - a.longitude) * metersPerDegLon;
+  const py = (p.latitude - a.latitude) * metersPerDegLat;
+
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return Math.sqrt(px * px + py * py);
+  }
+
+  const t = Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSquared));
+  const cx = t * dx;
+  const cy = t * dy;
+  return Math.sqrt((px - cx) * (px - cx) + (py - cy) * (py - cy));
+}
+
+export function simplifyRoute(points: LocationPoint[], toleranceMeters: number): LocationPoint[] {
+  if (points.length <= 2 || toleranceMeters <= 0) return [...points];
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid blowing the stack on multi-hour routes
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistance(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// ─── Encoded polyline primitives ──────────────────────────────────────────────
+
+function encodeSignedValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let output = '';
+  while (v >= 0x20) {
+    output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  output += String.fromCharCode(v + 63);
+  return output;
+}
+
+// Delta-encodes one integer stream
+function encodeIntegerStream(values: number[]): string {
+  let previous = 0;
+  let output = '';
+  for (const value of values) {
+    output += encodeSignedValue(value - previous);
+    previous = value;
+  }
+  return output;
+}
+
+// Raw signed values, before undoing the delta encoding
+function decodeSignedValues(encoded: string): number[] {
+  const values: number[] = [];
+  let index = 0;
+
+  while (index < encoded.length) {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+
+    values.push(result & 1 ? ~(result >> 1) : result >> 1);
+  }
+
+  return values;
+}
+
+function decodeIntegerStream(encoded: string): number[] {
+  let current = 0;
+  return decodeSignedValues(encoded).map(delta => (current += delta));
+}
+
+export function encodePolyline(coordinates: { latitude: number; longitude: number }[]): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let output = '';
+
+  for (const { latitude, longitude } of coordinates) {
+    const lat = Math.round(latitude * COORDINATE_PRECISION);
+    const lng = Math.round(longitude * COORDINATE_PRECISION);
+    output += encodeSignedValue(lat - previousLat) + encodeSignedValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return output;
+}
+
+export function decodePolyline(encoded: string): { latitude: number; longitude: number }[] {
+  const deltas = decodeSignedValues(encoded);
+  const coordinates: { latitude: number; longitude: number }[] = [];
+  let lat = 0;
+  let lng = 0;
+
+  for (let i = 0; i + 1 < deltas.length; i += 2) {
+    lat += deltas[i];
+    lng += deltas[i + 1];
+    coordinates.push({
+      latitude: lat / COORDINATE_PRECISION,
+      longitude: lng / COORDINATE_PRECISION,
+    });
+  }
+
+  return coordinates;
+}
+
+// ─── Route encode / decode ────────────────────────────────────────────────────
+
+export function encodeRoute(points: LocationPoint[], toleranceMeters: number): CompactRoute {
+  const accuracies = points.map(p => p.accuracy).filter((a): a is number => a !== null);
+  const simplified = simplifyRoute(points, toleranceMeters);
+  const startTime = simplified.length > 0 ? simplified[0].timestamp : 0;
+
+  return {
+    version: 1,
+    startTime,
+    polyline: encodePolyline(simplified),
+    timeOffsets: encodeIntegerStream(
+      simplified.map(p => Math.round((p.timestamp - startTime) / 1000))
+    ),
+    speeds: encodeIntegerStream(
+      simplified.map(p => (p.speed === null || p.speed < 0 ? 0 : Math.round(p.speed * 10) + 1))
+    ),
+    altitudes: encodeIntegerStream(
+      simplified.map(p => (p.altitude === null ? 0 : Math.max(1, Math.round(p.altitude) + ALTITUDE_OFFSET)))
+    ),
+    toleranceMeters,
+    originalPointCount: points.length,
+    averageAccuracy: accuracies.length > 0
+      ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length
+      : null,
+  };
+}
+
+export function decodeRoute(route: CompactRoute): LocationPoint[] {
+  const coordinates = decodePolyline(route.polyline);
+  const timeOffsets = decodeIntegerStream(route.timeOffsets);
+  const speeds = decodeIntegerStream(route.speeds);
+  const altitudes = decodeIntegerStream(route.altitudes);
+
+  return coordinates.map((coordinate, i) => ({
+    latitude: coordinate.latitude,
+    longitude: coordinate.longitude,
+    altitude: altitudes[i] ? altitudes[i] - ALTITUDE_OFFSET : null,
+    accuracy: null, // per-point accuracy is not kept once compacted
+    speed: speeds[i] ? (speeds[i] - 1) / 10 : null,
+    timestamp: route.startTime + (timeOffsets[i] ?? 0) * 1000,
+  }));
+}
+
+export function isCompactRoute(value: unknown): value is CompactRoute {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && (value as CompactRoute).version === 1
+    && typeof (value as CompactRoute).polyline === 'string';
+}
@@ -0,0 +1,172 @@
+import { storage } from './storageService';
+import { tripRepository } from './tripRepository';
+import { withWriteLock } from './writeQueue';
+import type { LocationPoint } from './locationService';
+import { encodeRoute, decodeRoute, isCompactRoute, type CompactRoute } from './routeCompactionService';
+
+/**
+ * Per-trip GPS route store.
+ *
+ * Each trip's breadcrumb trail is stored on its own, apart from the trip
+ * record, so a busy GPS callback only rewrites the route of the trip
+ * currently being recorded.
+ */
+
+const ROUTE_SETTINGS_KEY = '@garageminder_route_settings';
+
+export interface RouteSettings {
+  simplifyToleranceMeters: number; // Douglas-Peucker tolerance applied when a trip ends; 0 keeps every point
+}
+
+const DEFAULT_ROUTE_SETTINGS: RouteSettings = {
+  simplifyToleranceMeters: 5,
+};
+
+// Raw routes are stored as a point array while recording; finished trips are
+// compacted into an encoded CompactRoute. Readers always get decoded points.
+async function readStoredRoute(tripId: string): Promise<LocationPoint[] | CompactRoute | null> {
+  const data = await tripRepository.getRoute(tripId);
+  if (!data) return null;
+  return JSON.parse(data);
+}
+
+export async function getRoute(tripId: string): Promise<LocationPoint[]> {
+  try {
+    const stored = await readStoredRoute(tripId);
+    if (!stored) return [];
+    return isCompactRoute(stored) ? decodeRoute(stored) : stored;
+  } catch (error) {
+    console.error('[RouteService] Failed to read route for', tripId, error);
+    return [];
+  }
+}
+
+// Appends from the foreground and the background task are queued per trip
+export function routeResource(tripId: string): string {
+  return `route:${tripId}`;
+}
+
+export async function appendRoutePoints(tripId: string, points: LocationPoint[]): Promise<void> {
+  if (points.length === 0) return;
+
+  await withWriteLock([routeResource(tripId)], async () => {
+    const existing = await getRoute(tripId);
+    const lastTimestamp = existing.length > 0 ? existing[existing.length - 1].timestamp : -Infinity;
+
+    // Skip points we already have (foreground + background can deliver the same fix)
+    const fresh = points.filter(p => p.timestamp > lastTimestamp);
+    if (fresh.length === 0) return;
+
+    await tripRepository.putRoute(tripId, JSON.stringify([...existing, ...fresh]));
+  });
+}
+
+export async function appendRoutePoint(tripId: string, point: LocationPoint): Promise<void> {
+  await appendRoutePoints(tripId, [point]);
+}
+
+export async function deleteRoute(tripId: string): Promise<void> {
+  await withWriteLock([routeResource(tripId)], () => tripRepository.removeRoute(tripId));
+}
+
+// Stored form of a finished route, for writing it along with its trip
+export async function encodeFinishedRoute(points: LocationPoint[]): Promise<string> {
+  const { simplifyToleranceMeters } = await getRouteSettings();
+  return JSON.stringify(encodeRoute(points, simplifyToleranceMeters));
+}
+
+/**
+ * Simplify and encode a finished trip's route in place.
+ * Safe to call more than once — an already compacted route is left alone.
+ */
+export async function compactRoute(tripId: string): Promise<void> {
+  await withWriteLock([routeResource(tripId)], async () => {
+    const stored = await readStoredRoute(tripId);
+    if (!stored || isCompactRoute(stored) || stored.length === 0) return;
+
+    const { simplifyToleranceMeters } = await getRouteSettings();
+    const compact = encodeRoute(stored, simplifyToleranceMeters);
+    const serialized = JSON.stringify(compact);
+    await tripRepository.putRoute(tripId, serialized);
+
+    console.log(
+      `[RouteService] Compacted route ${tripId}: ${stored.length} points → ${serialized.length} bytes (${simplifyToleranceMeters}m tolerance)`
+    );
+  });
+}
+
+// ─── Route Settings ───────────────────────────────────────────────────────────
+
+export async function getRouteSettings(): Promise<RouteSettings> {
+  try {
+    const data = await storage.getItem(ROUTE_SETTINGS_KEY);
+    if (!data) return DEFAULT_ROUTE_SETTINGS;
+    return { ...DEFAULT_ROUTE_SETTINGS, ...JSON.parse(data) };
+  } catch {
+    return DEFAULT_ROUTE_SETTINGS;
+  }
+}
+
+export async function updateRouteSettings(partial: Partial<RouteSettings>): Promise<RouteSettings> {
+  return withWriteLock([ROUTE_SETTINGS_KEY], async () => {
+    const current = await getRouteSettings();
+    const updated = { ...current, ...partial };
+    await storage.setItem(ROUTE_SETTINGS_KEY, JSON.stringify(updated));
+    return updated;
+  });
+}
+
+export interface RouteSummary {
+  pointCount: number;             // fixes recorded during the trip
+  storedPointCount: number;       // fixes kept after simplification
+  firstFixAt: number | null;
+  lastFixAt: number | null;
+  maxSpeedMph: number | null;
+  averageAccuracy: number | null; // meters
+}
+
+export function summarizeRoute(points: LocationPoint[]): RouteSummary {
+  if (points.length === 0) {
+    return {
+      pointCount: 0,
+      storedPointCount: 0,
+      firstFixAt: null,
+      lastFixAt: null,
+      maxSpeedMph: null,
+      averageAccuracy: null,
+    };
+  }
+
+  const speeds = points.map(p => p.speed).filter((s): s is number => s !== null && s >= 0);
+  const accuracies = points.map(p => p.accuracy).filter((a): a is number => a !== null);
+
+  return {
+    pointCount: points.length,
+    storedPointCount: points.length,
+    firstFixAt: points[0].timestamp,
+    lastFixAt: points[points.length - 1].timestamp,
+    // expo-location reports speed in m/s
+    maxSpeedMph: speeds.length > 0 ? Math.max(...speeds) * 2.23694 : null,
+    averageAccuracy: accuracies.length > 0
+      ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length
+      : null,
+  };
+}
+
+// Summary that accounts for compaction (original count, raw accuracy)
+export async function getRouteSummary(tripId: string): Promise<RouteSummary> {
+  try {
+    const stored = await readStoredRoute(tripId);
+    if (!stored) return summarizeRoute([]);
+    if (!isCompactRoute(stored)) return summarizeRoute(stored);
+
+    return {
+      ...summarizeRoute(decodeRoute(stored)),
+      pointCount: stored.originalPointCount,
+      averageAccuracy: stored.averageAccuracy,
+    };
+  } catch (error) {
+    console.error('[RouteService] Failed to summarize route for', tripId, error);
+    return summarizeRoute([]);
+  }
+}
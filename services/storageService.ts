@@ -1,14 +1,27 @@
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  encryptValue,
+  decryptValue,
+  needsReencryption,
+  isEncryptionSupported,
+} from './encryptionService';
 
 /**
  * Cross-platform storage service
  * Uses AsyncStorage on native (iOS/Android) and localStorage on web
+ *
+ * Values are encrypted on write and decrypted on read (see
+ * encryptionService); callers only ever see plaintext.
  */
 
 const isWeb = Platform.OS === 'web';
 
-export const storage = {
+// Keys written through this service; anything else in AsyncStorage belongs to a library
+const APP_KEY_PREFIX = '@garageminder_';
+
+// Values as they sit on disk
+const rawStorage = {
   async getItem(key: string): Promise<string | null> {
     if (isWeb) {
       try {
@@ -33,18 +46,6 @@ export const storage = {
     return AsyncStorage.setItem(key, value);
   },
 
-  async removeItem(key: string): Promise<void> {
-    if (isWeb) {
-      try {
-        localStorage.removeItem(key);
-      } catch (error) {
-        console.error('[Storage] Web removeItem error:', error);
-      }
-      return;
-    }
-    return AsyncStorage.removeItem(key);
-  },
-
   async multiGet(keys: string[]): Promise<readonly [string, string | null][]> {
     if (isWeb) {
       try {
@@ -70,6 +71,50 @@ export const storage = {
     }
     return AsyncStorage.multiSet(keyValuePairs);
   },
+};
+
+async function readValue(key: string, value: string | null): Promise<string | null> {
+  if (value === null) return null;
+  try {
+    return await decryptValue(value);
+  } catch (error) {
+    console.error(`[Storage] Could not decrypt ${key}:`, error);
+    return null;
+  }
+}
+
+export const storage = {
+  async getItem(key: string): Promise<string | null> {
+    return readValue(key, await rawStorage.getItem(key));
+  },
+
+  async setItem(key: string, value: string): Promise<void> {
+    return rawStorage.setItem(key, await encryptValue(value));
+  },
+
+  async removeItem(key: string): Promise<void> {
+    if (isWeb) {
+      try {
+        localStorage.removeItem(key);
+      } catch (error) {
+        console.error('[Storage] Web removeItem error:', error);
+      }
+      return;
+    }
+    return AsyncStorage.removeItem(key);
+  },
+
+  async multiGet(keys: string[]): Promise<readonly [string, string | null][]> {
+    const entries = await rawStorage.multiGet(keys);
+    return Promise.all(entries.map(async ([key, value]) => [key, await readValue(key, value)] as [string, string | null]));
+  },
+
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    const encrypted = await Promise.all(
+      keyValuePairs.map(async ([key, value]) => [key, await encryptValue(value)] as [string, string])
+    );
+    return rawStorage.multiSet(encrypted);
+  },
 
   async multiRemove(keys: string[]): Promise<void> {
     if (isWeb) {
@@ -107,3 +152,30 @@ export const storage = {
     return AsyncStorage.getAllKeys();
   },
 };
+
+/**
+ * Rewrite every app value that is still plaintext, or still under a key
+ * being rotated out, under the key new writes use. Run it with writes
+ * held off (withAllWritesLocked) so nothing lands in between.
+ * Resolves with the number of values rewritten.
+ */
+export async function reencryptStoredValues(): Promise<number> {
+  if (!isEncryptionSupported()) return 0;
+
+  const keys = (await storage.getAllKeys()).filter(key => key.startsWith(APP_KEY_PREFIX));
+  const rewritten: [string, string][] = [];
+  for (const [key, value] of await rawStorage.multiGet(keys)) {
+    if (value === null || !(await needsReencryption(value))) continue;
+    try {
+      rewritten.push([key, await encryptValue(await decryptValue(value))]);
+    } catch (error) {
+      // Its key is gone (e.g. the keychain was reset); nothing can read it again
+      console.error(`[Storage] Could not re-encrypt ${key}, leaving it as is:`, error);
+    }
+  }
+
+  if (rewritten.length > 0) {
+    await rawStorage.multiSet(rewritten);
+  }
+  return rewritten.length;
+}
@@ -1,4 +1,5 @@
 import { storage } from './storageService';
+import { withWriteLock } from './writeQueue';
 
 const SUBSCRIPTION_KEY = '@garageminder_subscription';
 const SYNC_SETTINGS_KEY = '@garageminder_sync_settings';
@@ -49,7 +50,7 @@ export async function setSubscriptionLevel(level: SubscriptionLevel): Promise<vo
     level,
     lastChecked: Date.now(),
   };
-  await storage.setItem(SUBSCRIPTION_KEY, JSON.stringify(info));
+  await withWriteLock([SUBSCRIPTION_KEY], () => storage.setItem(SUBSCRIPTION_KEY, JSON.stringify(info)));
 }
 
 // Check if user is paid subscriber
@@ -72,9 +73,11 @@ export async function getSyncSettings(): Promise<SyncSettings> {
 
 // Update sync settings
 export async function updateSyncSettings(settings: Partial<SyncSettings>): Promise<void> {
-  const current = await getSyncSettings();
-  const updated = { ...current, ...settings };
-  await storage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(updated));
+  await withWriteLock([SYNC_SETTINGS_KEY], async () => {
+    const current = await getSyncSettings();
+    const updated = { ...current, ...settings };
+    await storage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(updated));
+  });
 }
 
 // Check if auto-sync is allowed
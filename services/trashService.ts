@@ -0,0 +1,106 @@
+import { storage } from './storageService';
+import { withWriteLock } from './writeQueue';
+import { deleteTrip, getTrashedTrips, purgeTrips } from './tripService';
+import type { Trip } from '../types/trip';
+import type { TrashedTrip } from './tripRecords';
+
+/**
+ * Trash for deleted trips.
+ *
+ * Deleting a trip moves it to the trash (tripService.deleteTrip) instead of
+ * erasing it. It can be restored from there until it's older than the
+ * retention period; purgeExpiredTrash() then deletes it for good, and runs
+ * at launch and whenever the Trash screen opens.
+ */
+
+const TRASH_SETTINGS_KEY = '@garageminder_trash_settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90]; // days
+
+export interface TrashSettings {
+  retentionDays: number;
+}
+
+const DEFAULT_TRASH_SETTINGS: TrashSettings = {
+  retentionDays: 30,
+};
+
+// ─── Settings ─────────────────────────────────────────────────────────────────
+
+export async function getTrashSettings(): Promise<TrashSettings> {
+  try {
+    const data = await storage.getItem(TRASH_SETTINGS_KEY);
+    if (!data) return DEFAULT_TRASH_SETTINGS;
+    return { ...DEFAULT_TRASH_SETTINGS, ...JSON.parse(data) };
+  } catch {
+    return DEFAULT_TRASH_SETTINGS;
+  }
+}
+
+export async function updateTrashSettings(partial: Partial<TrashSettings>): Promise<TrashSettings> {
+  return withWriteLock([TRASH_SETTINGS_KEY], async () => {
+    const current = await getTrashSettings();
+    const updated = { ...current, ...partial };
+    await storage.setItem(TRASH_SETTINGS_KEY, JSON.stringify(updated));
+    return updated;
+  });
+}
+
+// ─── Undo ─────────────────────────────────────────────────────────────────────
+// The screen a trip is deleted from is usually gone by the time the user
+// could undo it, so deletions are announced to whichever screen offers undo.
+
+type TripTrashedListener = (trip: Trip) => void;
+
+const trashedListeners = new Set<TripTrashedListener>();
+
+export function onTripTrashed(listener: TripTrashedListener): () => void {
+  trashedListeners.add(listener);
+  return () => {
+    trashedListeners.delete(listener);
+  };
+}
+
+// Delete a trip on the user's behalf and offer to undo it
+export async function trashTrip(tripId: string): Promise<Trip | null> {
+  const trip = await deleteTrip(tripId);
+  if (trip) {
+    trashedListeners.forEach(listener => listener(trip));
+  }
+  return trip;
+}
+
+// ─── Retention ────────────────────────────────────────────────────────────────
+
+export function getPurgeTime(entry: TrashedTrip, settings: TrashSettings): number {
+  return entry.deletedAt + settings.retentionDays * DAY_MS;
+}
+
+// Whole days left before the trip is purged, rounded up
+export function getDaysUntilPurge(entry: TrashedTrip, settings: TrashSettings, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((getPurgeTime(entry, settings) - now) / DAY_MS));
+}
+
+// Resolves with the number of trips deleted for good
+export async function purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+  try {
+    const [trash, settings] = await Promise.all([getTrashedTrips(), getTrashSettings()]);
+    const expired = trash.filter(entry => getPurgeTime(entry, settings) <= now).map(entry => entry.trip.id);
+    if (expired.length > 0) {
+      await purgeTrips(expired);
+      console.log(`[Trash] Purged ${expired.length} trips deleted over ${settings.retentionDays} days ago`);
+    }
+    return expired.length;
+  } catch (error) {
+    console.error('[Trash] Failed to purge expired trips:', error);
+    return 0;
+  }
+}
+
+export async function emptyTrash(): Promise<number> {
+  const trash = await getTrashedTrips();
+  await purgeTrips(trash.map(entry => entry.trip.id));
+  return trash.length;
+}
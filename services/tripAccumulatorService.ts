@@ -0,0 +1,113 @@
+import { AppState } from 'react-native';
+import { Trip } from '../types/trip';
+import { modifyActiveTrip, isTripPaused, getMovingDuration, isMeasuredByObd } from './tripService';
+import { getRoute, appendRoutePoints } from './routeService';
+import {
+  calculateDistance,
+  metersToMiles,
+  isMoving,
+  createLocationFilterState,
+  filterLocation,
+  type LocationPoint,
+} from './locationService';
+
+/**
+ * Headless trip accumulator.
+ *
+ * Runs without any React tree mounted, so the background location task can
+ * keep adding miles to the persisted active trip while the UI is suspended
+ * or the app has been killed. The foreground hook owns accumulation while
+ * the app is active and reconciles with whatever this wrote when it resumes.
+ */
+
+export function isForegroundAccumulating(): boolean {
+  return AppState.currentState === 'active';
+}
+
+export async function accumulateLocations(points: LocationPoint[]): Promise<Trip | null> {
+  if (points.length === 0) return null;
+
+  // The whole batch runs under the active trip's write lock, so a foreground
+  // save or a trip being finished can't land between the read and the write
+  return modifyActiveTrip(trip => accumulateIntoTrip(trip, points));
+}
+
+async function accumulateIntoTrip(trip: Trip, points: LocationPoint[]): Promise<Trip> {
+  if (trip.status !== 'active') return trip;
+
+  // Paused trips don't accumulate; fixes are simply dropped
+  if (isTripPaused(trip)) return trip;
+
+  const route = await getRoute(trip.id);
+  const lastStored = route.length > 0 ? route[route.length - 1] : null;
+
+  // After a pause, start a fresh segment instead of bridging the stop
+  const lastPause = trip.pauses?.[trip.pauses.length - 1];
+  const resumedAt = lastPause?.endedAt ?? null;
+  const anchor = lastStored && (resumedAt === null || lastStored.timestamp >= resumedAt) ? lastStored : null;
+
+  let filterState = createLocationFilterState(anchor, trip.rejectedPointCount ?? 0);
+  let previous: LocationPoint | null = anchor;
+
+  // Background batches are not guaranteed to arrive in order
+  const ordered = [...points]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter(p => !lastStored || p.timestamp > lastStored.timestamp)
+    .filter(p => resumedAt === null || p.timestamp >= resumedAt);
+
+  let addedMeters = 0;
+  const accepted: LocationPoint[] = [];
+
+  for (const raw of ordered) {
+    const filtered = filterLocation(filterState, raw);
+    filterState = filtered.state;
+    const point = filtered.point;
+    if (!point) continue;
+
+    if (!previous) {
+      accepted.push(point);
+      previous = point;
+      continue;
+    }
+
+    if (isMoving(point, previous)) {
+      addedMeters += calculateDistance(
+        previous.latitude,
+        previous.longitude,
+        point.latitude,
+        point.longitude
+      );
+      accepted.push(point);
+      previous = point;
+    }
+  }
+
+  const rejectedPointCount = filterState.rejectedCount;
+  if (accepted.length === 0) {
+    if (rejectedPointCount !== (trip.rejectedPointCount ?? 0)) {
+      return { ...trip, rejectedPointCount, updatedAt: new Date() };
+    }
+    return trip;
+  }
+
+  await appendRoutePoints(trip.id, accepted);
+
+  // Trips measured over OBD-II get their distance from the car once the app is back
+  const addedMiles = isMeasuredByObd(trip) ? 0 : metersToMiles(addedMeters);
+  const now = new Date();
+  const calculatedDistance = trip.calculatedDistance + addedMiles;
+  const updated: Trip = {
+    ...trip,
+    duration: now.getTime() - trip.startTime.getTime(),
+    movingDuration: getMovingDuration(trip, now.getTime()),
+    calculatedDistance,
+    endOdometer: trip.startOdometer + calculatedDistance,
+    rejectedPointCount,
+    updatedAt: now,
+  };
+
+  console.log(
+    `[TripAccumulator] +${addedMiles.toFixed(3)} mi from ${accepted.length} point(s)`
+  );
+  return updated;
+}
@@ -0,0 +1,172 @@
+import type { Trip, Vehicle, TripFilters, SortOption } from '../types/trip';
+
+/**
+ * Serialization and query rules shared by both trip repositories
+ * (SQLite on native, the storage-backed fallback on web) so a query
+ * returns the same trips in the same order on every platform.
+ */
+
+const TRIP_DATE_KEYS = ['startTime', 'endTime', 'syncedAt', 'createdAt', 'updatedAt'];
+
+function reviveTripDates(key: string, value: unknown): unknown {
+  if (TRIP_DATE_KEYS.includes(key)) {
+    return value ? new Date(value as string) : null;
+  }
+  return value;
+}
+
+export function parseTrip(data: string): Trip {
+  return JSON.parse(data, reviveTripDates);
+}
+
+export function parseTrips(data: string): Trip[] {
+  return JSON.parse(data, reviveTripDates);
+}
+
+// A deleted trip waiting in the trash until it's restored or purged
+export interface TrashedTrip {
+  trip: Trip;
+  deletedAt: number; // epoch ms
+}
+
+export function parseTrash(data: string): TrashedTrip[] {
+  return JSON.parse(data, reviveTripDates);
+}
+
+function reviveVehicleDates(key: string, value: unknown): unknown {
+  if (key === 'createdAt') {
+    return new Date(value as string);
+  }
+  return value;
+}
+
+export function parseVehicle(data: string): Vehicle {
+  return JSON.parse(data, reviveVehicleDates);
+}
+
+export function parseVehicles(data: string): Vehicle[] {
+  return JSON.parse(data, reviveVehicleDates);
+}
+
+// Distance used for sorting: a user override when set, otherwise GPS
+export function getSortDistance(trip: Trip): number {
+  return trip.adjustedDistance || trip.calculatedDistance;
+}
+
+// Statuses a TripFilters status selects; null means any
+export function getFilterStatuses(filters: TripFilters): Trip['status'][] | null {
+  if (!filters.status || filters.status === 'all') return null;
+  if (filters.status === 'pending') return ['completed', 'edited'];
+  return [filters.status];
+}
+
+export function filterAndSortTrips(trips: Trip[], filters: TripFilters, sortBy: SortOption): Trip[] {
+  const statuses = getFilterStatuses(filters);
+  const query = filters.searchQuery?.toLowerCase();
+
+  const result = trips.filter(t =>
+    (!statuses || statuses.includes(t.status)) &&
+    (!filters.vehicleId || t.vehicleId === filters.vehicleId) &&
+    (!filters.dateFrom || t.startTime >= filters.dateFrom) &&
+    (!filters.dateTo || t.startTime <= filters.dateTo) &&
+    (!query || t.notes.toLowerCase().includes(query))
+  );
+
+  result.sort((a, b) => {
+    switch (sortBy) {
+      case 'date-desc':
+        return b.startTime.getTime() - a.startTime.getTime();
+      case 'date-asc':
+        return a.startTime.getTime() - b.startTime.getTime();
+      case 'distance-desc':
+        return getSortDistance(b) - getSortDistance(a);
+      case 'duration-desc':
+        return b.duration - a.duration;
+      default:
+        return 0;
+    }
+  });
+
+  return result;
+}
+
+// A vehicle's odometer at a point in time, kept as history alongside the current value
+export type OdometerReadingSource = 'trip' | 'server';
+
+export interface OdometerReading {
+  vehicleId: string;
+  odometer: number;
+  recordedAt: number; // epoch ms
+  source: OdometerReadingSource;
+}
+
+// Trips that replace others in one write, when a trip is split or merged
+export interface TripRewrite {
+  trips: Trip[];                  // saved as given
+  routes: Record<string, string>; // new route of each saved trip; one missing here is left without a route
+  removedTripIds: string[];       // deleted for good, routes included
+  serverDeletions: string[];      // removed trips the server has to be told about
+}
+
+/**
+ * Persistence for trips, vehicles, routes and odometer history.
+ * Routes are opaque strings here; routeService owns their encoding.
+ */
+export interface TripRepository {
+  initialize(): Promise<void>;
+  // Move the stored records under the data key new writes use (see encryptionService)
+  reencrypt(): Promise<void>;
+
+  getTrips(): Promise<Trip[]>; // oldest first
+  getTrip(tripId: string): Promise<Trip | null>;
+  queryTrips(filters: TripFilters, sortBy: SortOption): Promise<Trip[]>;
+  putTrip(trip: Trip): Promise<void>;
+  removeTrip(tripId: string): Promise<void>;
+  replaceTrips(trips: Trip[]): Promise<void>; // all at once, for migrations
+  rewriteTrips(rewrite: TripRewrite): Promise<void>;
+
+  // Deleted trips leave the trip list for the trash and can come back from it
+  getTrash(): Promise<TrashedTrip[]>; // most recently deleted first
+  moveToTrash(tripId: string, deletedAt: number): Promise<Trip | null>;
+  restoreFromTrash(tripId: string): Promise<Trip | null>;
+  removeFromTrash(tripIds: string[]): Promise<void>;
+
+  // Synced trips removed here that the next sync has to delete on the server
+  getServerDeletions(): Promise<string[]>;
+  addServerDeletions(tripIds: string[]): Promise<void>;
+  clearServerDeletions(tripIds: string[]): Promise<void>;
+
+  getActiveTrip(): Promise<Trip | null>;
+  setActiveTrip(trip: Trip | null): Promise<void>;
+  // Save the finished trip, record its vehicle's new odometer and clear the
+  // active trip together; resolves true when the vehicle was found and updated
+  finalizeTrip(trip: Trip, odometer: OdometerReading | null): Promise<boolean>;
+  // Save a trip added after the fact with its route, moving its vehicle's
+  // odometer to `odometer` if that's ahead of it, together; resolves true
+  // when the odometer moved
+  insertTrip(trip: Trip, route: string | null, odometer: OdometerReading | null): Promise<boolean>;
+
+  getVehicles(): Promise<Vehicle[]>;
+  replaceVehicles(vehicles: Vehicle[]): Promise<void>;
+  updateVehicle(vehicleId: string, changes: Partial<Vehicle>): Promise<Vehicle | null>;
+
+  getRoute(tripId: string): Promise<string | null>;
+  putRoute(tripId: string, data: string): Promise<void>;
+  removeRoute(tripId: string): Promise<void>;
+
+  addOdometerReading(reading: OdometerReading): Promise<void>;
+  getOdometerReadings(vehicleId: string): Promise<OdometerReading[]>; // oldest first
+}
+
+// Storage keys of the web fallback. Native builds kept trips under the
+// same keys before moving to SQLite and import them once from there.
+export const TRIP_STORAGE_KEYS = {
+  TRIPS: '@garageminder_trips',
+  VEHICLES: '@garageminder_vehicles',
+  ACTIVE_TRIP: '@garageminder_active_trip',
+  ROUTE_PREFIX: '@garageminder_route_',
+  ROUTE_SETTINGS: '@garageminder_route_settings', // shares the route prefix but is a setting
+  ODOMETER_READINGS: '@garageminder_odometer_readings',
+  TRASH: '@garageminder_trash',
+  SERVER_DELETIONS: '@garageminder_server_deletions',
+};
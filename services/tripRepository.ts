@@ -0,0 +1,605 @@
+import * as SQLite from 'expo-sqlite';
+import * as FileSystem from 'expo-file-system';
+import { storage } from './storageService';
+import { getDatabaseKeys } from './encryptionService';
+import type { Trip, Vehicle, TripFilters, SortOption } from '../types/trip';
+import {
+  parseTrip,
+  parseTrips,
+  parseVehicle,
+  parseVehicles,
+  getSortDistance,
+  getFilterStatuses,
+  TRIP_STORAGE_KEYS,
+  type TripRepository,
+  type OdometerReading,
+  type OdometerReadingSource,
+  type TrashedTrip,
+} from './tripRecords';
+
+/**
+ * SQLite trip repository (iOS/Android).
+ *
+ * Each trip is one row: the columns that filters and sorting need are
+ * indexed, the full record is kept as JSON in `data`. Saving a trip or the
+ * active trip rewrites a single row instead of the whole trip list.
+ * The database is encrypted with SQLCipher under a key derived from the
+ * app's data key (see encryptionService).
+ * tripRepository.web.ts is the storage-backed fallback for the web build.
+ */
+
+const DATABASE_NAME = 'garageminder-encrypted.db';
+const PLAINTEXT_DATABASE_NAME = 'garageminder.db'; // used before encryption
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+
+  CREATE TABLE IF NOT EXISTS trips (
+    id TEXT PRIMARY KEY NOT NULL,
+    vehicle_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    distance REAL NOT NULL,
+    duration INTEGER NOT NULL,
+    notes TEXT NOT NULL DEFAULT '',
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_trips_start_time ON trips (start_time);
+  CREATE INDEX IF NOT EXISTS idx_trips_vehicle ON trips (vehicle_id, start_time);
+  CREATE INDEX IF NOT EXISTS idx_trips_status ON trips (status, start_time);
+
+  CREATE TABLE IF NOT EXISTS active_trip (
+    slot INTEGER PRIMARY KEY NOT NULL CHECK (slot = 1),
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS vehicles (
+    id TEXT PRIMARY KEY NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS routes (
+    trip_id TEXT PRIMARY KEY NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS trash (
+    trip_id TEXT PRIMARY KEY NOT NULL,
+    deleted_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS server_deletions (
+    trip_id TEXT PRIMARY KEY NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS odometer_readings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    vehicle_id TEXT NOT NULL,
+    odometer REAL NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    source TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_odometer_readings_vehicle ON odometer_readings (vehicle_id, recorded_at);
+`;
+
+const SORT_ORDER: Record<SortOption, string> = {
+  'date-desc': 'start_time DESC',
+  'date-asc': 'start_time ASC',
+  'distance-desc': 'distance DESC, start_time DESC',
+  'duration-desc': 'duration DESC, start_time DESC',
+};
+
+interface DataRow {
+  data: string;
+}
+
+interface TripIdRow {
+  trip_id: string;
+}
+
+interface TrashRow {
+  deleted_at: number;
+  data: string;
+}
+
+interface OdometerReadingRow {
+  vehicle_id: string;
+  odometer: number;
+  recorded_at: number;
+  source: string;
+}
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+// Opened once; every call waits for the schema and the legacy import
+function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      databasePromise = null; // let the next call retry
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+function keyPragma(name: 'key' | 'rekey', hexKey: string): string {
+  return `PRAGMA ${name} = "x'${hexKey}'"`;
+}
+
+// Mid-rotation the database may already be under the incoming key
+async function openKeyedDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const { current, next } = await getDatabaseKeys();
+  let lastError: unknown = null;
+  for (const key of next ? [current, next] : [current]) {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    try {
+      await db.execAsync(keyPragma('key', key));
+      await db.getFirstAsync('SELECT count(*) FROM sqlite_master'); // fails on the wrong key
+      return db;
+    } catch (error) {
+      lastError = error;
+      await db.closeAsync();
+    }
+  }
+  throw lastError;
+}
+
+async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const db = await openKeyedDatabase();
+  await db.execAsync(SCHEMA);
+  await importPlaintextDatabase(db);
+
+  const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  if ((version?.user_version ?? 0) < SCHEMA_VERSION) {
+    await importLegacyStorage(db);
+  }
+  return db;
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// withExclusiveTransactionAsync opens a second connection, which wouldn't
+// have the SQLCipher key, so every write shares the keyed one. They run one
+// at a time: a lone statement must not land inside another caller's open
+// transaction and be committed or rolled back with it.
+function queueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => {});
+  return run;
+}
+
+function runTransaction(db: SQLite.SQLiteDatabase, task: () => Promise<void>): Promise<void> {
+  return queueWrite(() => db.withTransactionAsync(task));
+}
+
+function tripParams(trip: Trip): (string | number)[] {
+  return [
+    trip.id,
+    trip.vehicleId,
+    trip.status,
+    trip.startTime.getTime(),
+    getSortDistance(trip),
+    trip.duration,
+    trip.notes ?? '',
+    JSON.stringify(trip),
+  ];
+}
+
+const UPSERT_TRIP = `
+  INSERT OR REPLACE INTO trips (id, vehicle_id, status, start_time, distance, duration, notes, data)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+// Inside a transaction: move the vehicle to the reading and record it. False
+// when the vehicle is gone or, with onlyForward, already at or past it.
+async function applyOdometerReading(
+  db: SQLite.SQLiteDatabase,
+  odometer: OdometerReading,
+  onlyForward: boolean
+): Promise<boolean> {
+  const row = await db.getFirstAsync<DataRow>('SELECT data FROM vehicles WHERE id = ?', odometer.vehicleId);
+  if (!row) return false;
+  const current = parseVehicle(row.data);
+  if (onlyForward && odometer.odometer <= current.currentOdometer) return false;
+
+  const vehicle: Vehicle = { ...current, currentOdometer: odometer.odometer };
+  await db.runAsync('UPDATE vehicles SET data = ? WHERE id = ?', JSON.stringify(vehicle), vehicle.id);
+  await db.runAsync(
+    'INSERT INTO odometer_readings (vehicle_id, odometer, recorded_at, source) VALUES (?, ?, ?, ?)',
+    odometer.vehicleId,
+    odometer.odometer,
+    odometer.recordedAt,
+    odometer.source
+  );
+  return true;
+}
+
+async function insertVehicles(db: SQLite.SQLiteDatabase, vehicles: Vehicle[]): Promise<void> {
+  for (const [position, vehicle] of vehicles.entries()) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO vehicles (id, position, data) VALUES (?, ?, ?)',
+      vehicle.id,
+      position,
+      JSON.stringify(vehicle)
+    );
+  }
+}
+
+// ─── One-time import from the plaintext database ─────────────────────────────
+
+const TABLES = ['trips', 'active_trip', 'vehicles', 'routes', 'odometer_readings'];
+
+/**
+ * Copy everything out of the unencrypted database older versions kept and
+ * delete it. Its user_version comes along, so data it had already imported
+ * from AsyncStorage isn't imported again.
+ */
+async function importPlaintextDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
+  const path = `${SQLite.defaultDatabaseDirectory}/${PLAINTEXT_DATABASE_NAME}`;
+  const info = await FileSystem.getInfoAsync(`file://${path}`);
+  if (!info.exists) return;
+
+  await db.execAsync(`ATTACH DATABASE '${path.replace(/'/g, "''")}' AS plaintext KEY ''`);
+  try {
+    await runTransaction(db, async () => {
+      for (const table of TABLES) {
+        await db.execAsync(`INSERT OR REPLACE INTO main.${table} SELECT * FROM plaintext.${table}`);
+      }
+      const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA plaintext.user_version');
+      await db.execAsync(`PRAGMA main.user_version = ${version?.user_version ?? 0}`);
+    });
+  } finally {
+    await db.execAsync('DETACH DATABASE plaintext');
+  }
+
+  await SQLite.deleteDatabaseAsync(PLAINTEXT_DATABASE_NAME);
+  console.log('[TripRepository] Moved the trip database to encrypted storage');
+}
+
+// ─── One-time import from AsyncStorage ────────────────────────────────────────
+
+/**
+ * Copy trips, vehicles, the active trip and routes out of their AsyncStorage
+ * keys in one transaction, then drop the keys. If the app dies halfway the
+ * transaction rolls back and the keys are still there for the next launch.
+ */
+async function importLegacyStorage(db: SQLite.SQLiteDatabase): Promise<void> {
+  const keys = await storage.getAllKeys();
+  const routeKeys = keys.filter(
+    key => key.startsWith(TRIP_STORAGE_KEYS.ROUTE_PREFIX) && key !== TRIP_STORAGE_KEYS.ROUTE_SETTINGS
+  );
+  const [[, tripsData], [, vehiclesData], [, activeTripData]] = await storage.multiGet([
+    TRIP_STORAGE_KEYS.TRIPS,
+    TRIP_STORAGE_KEYS.VEHICLES,
+    TRIP_STORAGE_KEYS.ACTIVE_TRIP,
+  ]);
+  const routes = routeKeys.length > 0 ? await storage.multiGet(routeKeys) : [];
+
+  const trips = tripsData ? parseTrips(tripsData) : [];
+  const vehicles = vehiclesData ? parseVehicles(vehiclesData) : [];
+
+  await runTransaction(db, async () => {
+    for (const trip of trips) {
+      await db.runAsync(UPSERT_TRIP, tripParams(trip));
+    }
+    await insertVehicles(db, vehicles);
+    if (activeTripData) {
+      await db.runAsync('INSERT OR REPLACE INTO active_trip (slot, data) VALUES (1, ?)', activeTripData);
+    }
+    for (const [key, data] of routes) {
+      if (!data) continue;
+      await db.runAsync(
+        'INSERT OR REPLACE INTO routes (trip_id, data) VALUES (?, ?)',
+        key.slice(TRIP_STORAGE_KEYS.ROUTE_PREFIX.length),
+        data
+      );
+    }
+    await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  });
+
+  await storage.multiRemove([
+    TRIP_STORAGE_KEYS.TRIPS,
+    TRIP_STORAGE_KEYS.VEHICLES,
+    TRIP_STORAGE_KEYS.ACTIVE_TRIP,
+    ...routeKeys,
+  ]);
+
+  console.log(
+    `[TripRepository] Imported ${trips.length} trips, ${vehicles.length} vehicles and ${routes.length} routes from AsyncStorage`
+  );
+}
+
+// ─── Repository ───────────────────────────────────────────────────────────────
+
+export const tripRepository: TripRepository = {
+  async initialize() {
+    await getDatabase();
+  },
+
+  async reencrypt() {
+    const db = await getDatabase();
+    const { current, next } = await getDatabaseKeys();
+    // SQLCipher can't rekey a database in WAL mode
+    await queueWrite(async () => {
+      await db.execAsync('PRAGMA journal_mode = DELETE');
+      try {
+        await db.execAsync(keyPragma('rekey', next ?? current));
+      } finally {
+        await db.execAsync('PRAGMA journal_mode = WAL');
+      }
+    });
+  },
+
+  async getTrips() {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<DataRow>('SELECT data FROM trips ORDER BY start_time ASC');
+    return rows.map(row => parseTrip(row.data));
+  },
+
+  async getTrip(tripId) {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<DataRow>('SELECT data FROM trips WHERE id = ?', tripId);
+    return row ? parseTrip(row.data) : null;
+  },
+
+  async queryTrips(filters: TripFilters, sortBy: SortOption) {
+    const db = await getDatabase();
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+
+    const statuses = getFilterStatuses(filters);
+    if (statuses) {
+      where.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+    if (filters.vehicleId) {
+      where.push('vehicle_id = ?');
+      params.push(filters.vehicleId);
+    }
+    if (filters.dateFrom) {
+      where.push('start_time >= ?');
+      params.push(filters.dateFrom.getTime());
+    }
+    if (filters.dateTo) {
+      where.push('start_time <= ?');
+      params.push(filters.dateTo.getTime());
+    }
+    if (filters.searchQuery) {
+      const escaped = filters.searchQuery.toLowerCase().replace(/[\\%_]/g, char => `\\${char}`);
+      where.push("lower(notes) LIKE ? ESCAPE '\\'");
+      params.push(`%${escaped}%`);
+    }
+
+    const rows = await db.getAllAsync<DataRow>(
+      `SELECT data FROM trips ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY ${SORT_ORDER[sortBy]}`,
+      params
+    );
+    return rows.map(row => parseTrip(row.data));
+  },
+
+  async putTrip(trip) {
+    const db = await getDatabase();
+    await queueWrite(() => db.runAsync(UPSERT_TRIP, tripParams(trip)));
+  },
+
+  async removeTrip(tripId) {
+    const db = await getDatabase();
+    await queueWrite(() => db.runAsync('DELETE FROM trips WHERE id = ?', tripId));
+  },
+
+  async replaceTrips(trips) {
+    const db = await getDatabase();
+    await runTransaction(db, async () => {
+      await db.runAsync('DELETE FROM trips');
+      for (const trip of trips) {
+        await db.runAsync(UPSERT_TRIP, tripParams(trip));
+      }
+    });
+  },
+
+  async rewriteTrips({ trips, routes, removedTripIds, serverDeletions }) {
+    const db = await getDatabase();
+    await runTransaction(db, async () => {
+      for (const tripId of removedTripIds) {
+        await db.runAsync('DELETE FROM trips WHERE id = ?', tripId);
+        await db.runAsync('DELETE FROM routes WHERE trip_id = ?', tripId);
+      }
+      for (const trip of trips) {
+        await db.runAsync(UPSERT_TRIP, tripParams(trip));
+        const route = routes[trip.id];
+        if (route) {
+          await db.runAsync('INSERT OR REPLACE INTO routes (trip_id, data) VALUES (?, ?)', trip.id, route);
+        } else {
+          await db.runAsync('DELETE FROM routes WHERE trip_id = ?', trip.id);
+        }
+      }
+      for (const tripId of serverDeletions) {
+        await db.runAsync('INSERT OR IGNORE INTO server_deletions (trip_id) VALUES (?)', tripId);
+      }
+    });
+  },
+
+  async getTrash() {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<TrashRow>('SELECT deleted_at, data FROM trash ORDER BY deleted_at DESC');
+    return rows.map((row): TrashedTrip => ({ trip: parseTrip(row.data), deletedAt: row.deleted_at }));
+  },
+
+  async moveToTrash(tripId, deletedAt) {
+    const db = await getDatabase();
+    let trip: Trip | null = null;
+    await runTransaction(db, async () => {
+      const row = await db.getFirstAsync<DataRow>('SELECT data FROM trips WHERE id = ?', tripId);
+      if (!row) return;
+      trip = parseTrip(row.data);
+      await db.runAsync(
+        'INSERT OR REPLACE INTO trash (trip_id, deleted_at, data) VALUES (?, ?, ?)',
+        tripId,
+        deletedAt,
+        row.data
+      );
+      await db.runAsync('DELETE FROM trips WHERE id = ?', tripId);
+    });
+    return trip;
+  },
+
+  async restoreFromTrash(tripId) {
+    const db = await getDatabase();
+    let trip: Trip | null = null;
+    await runTransaction(db, async () => {
+      const row = await db.getFirstAsync<DataRow>('SELECT data FROM trash WHERE trip_id = ?', tripId);
+      if (!row) return;
+      trip = parseTrip(row.data);
+      await db.runAsync(UPSERT_TRIP, tripParams(trip));
+      await db.runAsync('DELETE FROM trash WHERE trip_id = ?', tripId);
+    });
+    return trip;
+  },
+
+  async removeFromTrash(tripIds) {
+    if (tripIds.length === 0) return;
+    const db = await getDatabase();
+    await queueWrite(() =>
+      db.runAsync(`DELETE FROM trash WHERE trip_id IN (${tripIds.map(() => '?').join(', ')})`, tripIds)
+    );
+  },
+
+  async getServerDeletions() {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<TripIdRow>('SELECT trip_id FROM server_deletions');
+    return rows.map(row => row.trip_id);
+  },
+
+  async addServerDeletions(tripIds) {
+    if (tripIds.length === 0) return;
+    const db = await getDatabase();
+    await runTransaction(db, async () => {
+      for (const tripId of tripIds) {
+        await db.runAsync('INSERT OR IGNORE INTO server_deletions (trip_id) VALUES (?)', tripId);
+      }
+    });
+  },
+
+  async clearServerDeletions(tripIds) {
+    if (tripIds.length === 0) return;
+    const db = await getDatabase();
+    await queueWrite(() =>
+      db.runAsync(`DELETE FROM server_deletions WHERE trip_id IN (${tripIds.map(() => '?').join(', ')})`, tripIds)
+    );
+  },
+
+  async getActiveTrip() {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<DataRow>('SELECT data FROM active_trip WHERE slot = 1');
+    return row ? parseTrip(row.data) : null;
+  },
+
+  async setActiveTrip(trip) {
+    const db = await getDatabase();
+    await queueWrite(() =>
+      trip
+        ? db.runAsync('INSERT OR REPLACE INTO active_trip (slot, data) VALUES (1, ?)', JSON.stringify(trip))
+        : db.runAsync('DELETE FROM active_trip')
+    );
+  },
+
+  async finalizeTrip(trip, odometer) {
+    const db = await getDatabase();
+    let odometerUpdated = false;
+    await runTransaction(db, async () => {
+      await db.runAsync(UPSERT_TRIP, tripParams(trip));
+      if (odometer) {
+        odometerUpdated = await applyOdometerReading(db, odometer, false);
+      }
+      await db.runAsync('DELETE FROM active_trip');
+    });
+    return odometerUpdated;
+  },
+
+  async insertTrip(trip, route, odometer) {
+    const db = await getDatabase();
+    let odometerUpdated = false;
+    await runTransaction(db, async () => {
+      await db.runAsync(UPSERT_TRIP, tripParams(trip));
+      if (route) {
+        await db.runAsync('INSERT OR REPLACE INTO routes (trip_id, data) VALUES (?, ?)', trip.id, route);
+      }
+      if (odometer) {
+        odometerUpdated = await applyOdometerReading(db, odometer, true);
+      }
+    });
+    return odometerUpdated;
+  },
+
+  async getVehicles() {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<DataRow>('SELECT data FROM vehicles ORDER BY position ASC');
+    return rows.map(row => parseVehicle(row.data));
+  },
+
+  async replaceVehicles(vehicles) {
+    const db = await getDatabase();
+    await runTransaction(db, async () => {
+      await db.runAsync('DELETE FROM vehicles');
+      await insertVehicles(db, vehicles);
+    });
+  },
+
+  async updateVehicle(vehicleId, changes) {
+    const db = await getDatabase();
+    let updated: Vehicle | null = null;
+    await runTransaction(db, async () => {
+      const row = await db.getFirstAsync<DataRow>('SELECT data FROM vehicles WHERE id = ?', vehicleId);
+      if (!row) return;
+      updated = { ...parseVehicle(row.data), ...changes };
+      await db.runAsync('UPDATE vehicles SET data = ? WHERE id = ?', JSON.stringify(updated), vehicleId);
+    });
+    return updated;
+  },
+
+  async getRoute(tripId) {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<DataRow>('SELECT data FROM routes WHERE trip_id = ?', tripId);
+    return row?.data ?? null;
+  },
+
+  async putRoute(tripId, data) {
+    const db = await getDatabase();
+    await queueWrite(() => db.runAsync('INSERT OR REPLACE INTO routes (trip_id, data) VALUES (?, ?)', tripId, data));
+  },
+
+  async removeRoute(tripId) {
+    const db = await getDatabase();
+    await queueWrite(() => db.runAsync('DELETE FROM routes WHERE trip_id = ?', tripId));
+  },
+
+  async addOdometerReading(reading) {
+    const db = await getDatabase();
+    await queueWrite(() =>
+      db.runAsync(
+        'INSERT INTO odometer_readings (vehicle_id, odometer, recorded_at, source) VALUES (?, ?, ?, ?)',
+        reading.vehicleId,
+        reading.odometer,
+        reading.recordedAt,
+        reading.source
+      )
+    );
+  },
+
+  async getOdometerReadings(vehicleId) {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<OdometerReadingRow>(
+      'SELECT vehicle_id, odometer, recorded_at, source FROM odometer_readings WHERE vehicle_id = ? ORDER BY recorded_at ASC',
+      vehicleId
+    );
+    return rows.map((row): OdometerReading => ({
+      vehicleId: row.vehicle_id,
+      odometer: row.odometer,
+      recordedAt: row.recorded_at,
+      source: row.source as OdometerReadingSource,
+    }));
+  },
+};
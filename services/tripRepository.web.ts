@@ -0,0 +1,247 @@
+import { storage } from './storageService';
+import type { Trip } from '../types/trip';
+import {
+  parseTrip,
+  parseTrips,
+  parseVehicles,
+  parseTrash,
+  filterAndSortTrips,
+  TRIP_STORAGE_KEYS,
+  type TripRepository,
+  type OdometerReading,
+  type TrashedTrip,
+} from './tripRecords';
+
+/**
+ * Storage-backed trip repository for react-native-web, where SQLite is not
+ * available. Trips and vehicles stay in one JSON array each under their
+ * original keys and queries run in memory.
+ */
+
+function routeKey(tripId: string): string {
+  return `${TRIP_STORAGE_KEYS.ROUTE_PREFIX}${tripId}`;
+}
+
+async function readTrips(): Promise<Trip[]> {
+  const data = await storage.getItem(TRIP_STORAGE_KEYS.TRIPS);
+  return data ? parseTrips(data) : [];
+}
+
+async function readTrash(): Promise<TrashedTrip[]> {
+  const data = await storage.getItem(TRIP_STORAGE_KEYS.TRASH);
+  return data ? parseTrash(data) : [];
+}
+
+async function writeTrash(trash: TrashedTrip[]): Promise<void> {
+  await storage.setItem(TRIP_STORAGE_KEYS.TRASH, JSON.stringify(trash));
+}
+
+async function readServerDeletions(): Promise<string[]> {
+  const data = await storage.getItem(TRIP_STORAGE_KEYS.SERVER_DELETIONS);
+  return data ? JSON.parse(data) : [];
+}
+
+async function readOdometerReadings(): Promise<OdometerReading[]> {
+  const data = await storage.getItem(TRIP_STORAGE_KEYS.ODOMETER_READINGS);
+  return data ? JSON.parse(data) : [];
+}
+
+export const tripRepository: TripRepository = {
+  async initialize() {
+    const data = await storage.getItem(TRIP_STORAGE_KEYS.TRIPS);
+    if (!data) {
+      await storage.setItem(TRIP_STORAGE_KEYS.TRIPS, JSON.stringify([]));
+    }
+  },
+
+  // Records live in storage, which reencryptStoredValues() covers
+  async reencrypt() {},
+
+  async getTrips() {
+    const trips = await readTrips();
+    return trips.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  },
+
+  async getTrip(tripId) {
+    const trips = await readTrips();
+    return trips.find(t => t.id === tripId) ?? null;
+  },
+
+  async queryTrips(filters, sortBy) {
+    return filterAndSortTrips(await readTrips(), filters, sortBy);
+  },
+
+  async putTrip(trip) {
+    const trips = await readTrips();
+    const index = trips.findIndex(t => t.id === trip.id);
+    if (index >= 0) {
+      trips[index] = trip;
+    } else {
+      trips.push(trip);
+    }
+    await storage.setItem(TRIP_STORAGE_KEYS.TRIPS, JSON.stringify(trips));
+  },
+
+  async removeTrip(tripId) {
+    const trips = await readTrips();
+    await storage.setItem(TRIP_STORAGE_KEYS.TRIPS, JSON.stringify(trips.filter(t => t.id !== tripId)));
+  },
+
+  async replaceTrips(trips) {
+    await storage.setItem(TRIP_STORAGE_KEYS.TRIPS, JSON.stringify(trips));
+  },
+
+  // No transactions here; the caller's write lock keeps other writers out meanwhile
+  async rewriteTrips({ trips, routes, removedTripIds, serverDeletions }) {
+    const replacedIds = new Set([...removedTripIds, ...trips.map(t => t.id)]);
+    const kept = (await readTrips()).filter(t => !replacedIds.has(t.id));
+    await storage.setItem(TRIP_STORAGE_KEYS.TRIPS, JSON.stringify([...kept, ...trips]));
+
+    for (const tripId of removedTripIds) {
+      await storage.removeItem(routeKey(tripId));
+    }
+    for (const trip of trips) {
+      const route = routes[trip.id];
+      if (route) {
+        await storage.setItem(routeKey(trip.id), route);
+      } else {
+        await storage.removeItem(routeKey(trip.id));
+      }
+    }
+
+    await this.addServerDeletions(serverDeletions);
+  },
+
+  async getTrash() {
+    const trash = await readTrash();
+    return trash.sort((a, b) => b.deletedAt - a.deletedAt);
+  },
+
+  async moveToTrash(tripId, deletedAt) {
+    const trips = await readTrips();
+    const trip = trips.find(t => t.id === tripId);
+    if (!trip) return null;
+
+    // Into the trash first: if the second write fails the trip is in both, not lost
+    const trash = await readTrash();
+    await writeTrash([...trash.filter(entry => entry.trip.id !== tripId), { trip, deletedAt }]);
+    await storage.setItem(TRIP_STORAGE_KEYS.TRIPS, JSON.stringify(trips.filter(t => t.id !== tripId)));
+    return trip;
+  },
+
+  async restoreFromTrash(tripId) {
+    const trash = await readTrash();
+    const entry = trash.find(e => e.trip.id === tripId);
+    if (!entry) return null;
+
+    await this.putTrip(entry.trip);
+    await writeTrash(trash.filter(e => e.trip.id !== tripId));
+    return entry.trip;
+  },
+
+  async removeFromTrash(tripIds) {
+    const trash = await readTrash();
+    await writeTrash(trash.filter(entry => !tripIds.includes(entry.trip.id)));
+  },
+
+  async getServerDeletions() {
+    return readServerDeletions();
+  },
+
+  async addServerDeletions(tripIds) {
+    if (tripIds.length === 0) return;
+    const pending = await readServerDeletions();
+    await storage.setItem(
+      TRIP_STORAGE_KEYS.SERVER_DELETIONS,
+      JSON.stringify([...new Set([...pending, ...tripIds])])
+    );
+  },
+
+  async clearServerDeletions(tripIds) {
+    const pending = await readServerDeletions();
+    await storage.setItem(
+      TRIP_STORAGE_KEYS.SERVER_DELETIONS,
+      JSON.stringify(pending.filter(id => !tripIds.includes(id)))
+    );
+  },
+
+  async getActiveTrip() {
+    const data = await storage.getItem(TRIP_STORAGE_KEYS.ACTIVE_TRIP);
+    return data ? parseTrip(data) : null;
+  },
+
+  async setActiveTrip(trip) {
+    if (trip) {
+      await storage.setItem(TRIP_STORAGE_KEYS.ACTIVE_TRIP, JSON.stringify(trip));
+    } else {
+      await storage.removeItem(TRIP_STORAGE_KEYS.ACTIVE_TRIP);
+    }
+  },
+
+  // No transactions here; the caller's write lock keeps other writers out meanwhile
+  async finalizeTrip(trip, odometer) {
+    await this.putTrip(trip);
+    const vehicle = odometer
+      ? await this.updateVehicle(odometer.vehicleId, { currentOdometer: odometer.odometer })
+      : null;
+    if (odometer && vehicle) await this.addOdometerReading(odometer);
+    await this.setActiveTrip(null);
+    return vehicle !== null;
+  },
+
+  async insertTrip(trip, route, odometer) {
+    await this.putTrip(trip);
+    if (route) await this.putRoute(trip.id, route);
+    if (!odometer) return false;
+
+    const vehicle = (await this.getVehicles()).find(v => v.id === odometer.vehicleId);
+    if (!vehicle || odometer.odometer <= vehicle.currentOdometer) return false;
+    await this.updateVehicle(odometer.vehicleId, { currentOdometer: odometer.odometer });
+    await this.addOdometerReading(odometer);
+    return true;
+  },
+
+  async getVehicles() {
+    const data = await storage.getItem(TRIP_STORAGE_KEYS.VEHICLES);
+    return data ? parseVehicles(data) : [];
+  },
+
+  async replaceVehicles(vehicles) {
+    await storage.setItem(TRIP_STORAGE_KEYS.VEHICLES, JSON.stringify(vehicles));
+  },
+
+  async updateVehicle(vehicleId, changes) {
+    const vehicles = await this.getVehicles();
+    const index = vehicles.findIndex(v => v.id === vehicleId);
+    if (index < 0) return null;
+
+    vehicles[index] = { ...vehicles[index], ...changes };
+    await storage.setItem(TRIP_STORAGE_KEYS.VEHICLES, JSON.stringify(vehicles));
+    return vehicles[index];
+  },
+
+  async getRoute(tripId) {
+    return storage.getItem(routeKey(tripId));
+  },
+
+  async putRoute(tripId, data) {
+    await storage.setItem(routeKey(tripId), data);
+  },
+
+  async removeRoute(tripId) {
+    await storage.removeItem(routeKey(tripId));
+  },
+
+  async addOdometerReading(reading) {
+    const readings = await readOdometerReadings();
+    readings.push(reading);
+    await storage.setItem(TRIP_STORAGE_KEYS.ODOMETER_READINGS, JSON.stringify(readings));
+  },
+
+  async getOdometerReadings(vehicleId) {
+    const readings = await readOdometerReadings();
+    return readings
+      .filter(r => r.vehicleId === vehicleId)
+      .sort((a, b) => a.recordedAt - b.recordedAt);
+  },
+};
@@ -0,0 +1,277 @@
+import { Trip, TripStatus } from '../types/trip';
+import { getTrips, rewriteTrips, getPausedDuration } from './tripService';
+import { getRoute, encodeFinishedRoute } from './routeService';
+import { calculateDistance, type LocationPoint } from './locationService';
+import { getTripEndOdometer } from './odometerTimelineService';
+
+/**
+ * Post-processing for recorded trips.
+ *
+ * The live tracker can only guess where one trip ends and the next begins.
+ * This looks at the stored route after the fact: stops inside a trip can be
+ * split out into separate legs, and back-to-back trips separated by a short
+ * gap can be merged. Both keep the vehicle's odometer chain unchanged, are
+ * written in one go, and leave the trips they produce pending sync.
+ */
+
+const STOP_RADIUS_METERS = 75;
+const MIN_STOP_DURATION = 3 * 60 * 1000; // 3 minutes
+const MERGE_MAX_GAP = 10 * 60 * 1000; // 10 minutes
+const MERGE_ODOMETER_TOLERANCE = 0.5; // miles
+
+export interface TripStop {
+  startedAt: number; // epoch ms of the first fix at the stop
+  endedAt: number;   // epoch ms of the last fix before driving on
+  latitude: number;
+  longitude: number;
+  startIndex: number; // route index where the stop begins
+  endIndex: number;   // route index where the next leg begins
+}
+
+export interface MergeCandidate {
+  first: Trip;
+  second: Trip;
+  gapMs: number;
+}
+
+export type SegmentationResult =
+  | { ok: true; trips: Trip[] }
+  | { ok: false; reason: string };
+
+// ─── Stop detection ───────────────────────────────────────────────────────────
+
+// A stop is a run of fixes that stays within STOP_RADIUS_METERS of where it
+// began for at least MIN_STOP_DURATION. Stationary stretches usually show up as
+// a single long gap between two nearby fixes, which this also catches.
+export function detectStops(points: LocationPoint[]): TripStop[] {
+  const stops: TripStop[] = [];
+  let i = 0;
+
+  while (i < points.length - 1) {
+    const anchor = points[i];
+    let j = i + 1;
+    while (
+      j < points.length &&
+      calculateDistance(anchor.latitude, anchor.longitude, points[j].latitude, points[j].longitude) <= STOP_RADIUS_METERS
+    ) {
+      j++;
+    }
+
+    const last = points[j - 1];
+    // Stops touching either end of the route are the trip's own start/finish
+    if (j - 1 > i && last.timestamp - anchor.timestamp >= MIN_STOP_DURATION && i > 0 && j < points.length) {
+      stops.push({
+        startedAt: anchor.timestamp,
+        endedAt: last.timestamp,
+        latitude: anchor.latitude,
+        longitude: anchor.longitude,
+        startIndex: i,
+        endIndex: j - 1,
+      });
+      i = j - 1;
+    } else {
+      i++;
+    }
+  }
+
+  return stops;
+}
+
+export async function detectTripStops(tripId: string): Promise<TripStop[]> {
+  return detectStops(await getRoute(tripId));
+}
+
+function getRouteMeters(points: LocationPoint[]): number {
+  let meters = 0;
+  for (let i = 1; i < points.length; i++) {
+    meters += calculateDistance(
+      points[i - 1].latitude,
+      points[i - 1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+  }
+  return meters;
+}
+
+// A split or merge changes what the server was sent, so the result has to be
+// synced again; trips never synced stay plain completed ones
+function getPendingStatus(trips: Trip[]): TripStatus {
+  return trips.every(t => t.status === 'completed') ? 'completed' : 'edited';
+}
+
+async function encodeRoutes(routes: [string, LocationPoint[]][]): Promise<Record<string, string>> {
+  const encoded: Record<string, string> = {};
+  for (const [tripId, points] of routes) {
+    if (points.length > 0) encoded[tripId] = await encodeFinishedRoute(points);
+  }
+  return encoded;
+}
+
+// ─── Split ────────────────────────────────────────────────────────────────────
+
+export async function splitTripAtStops(tripId: string, stops: TripStop[]): Promise<SegmentationResult> {
+  const trips = await getTrips();
+  const trip = trips.find(t => t.id === tripId);
+  if (!trip) return { ok: false, reason: 'Trip not found' };
+  if (trip.status === 'active' || !trip.endTime) return { ok: false, reason: 'Finish the trip before splitting it' };
+  if (stops.length === 0) return { ok: false, reason: 'No stops to split at' };
+
+  const route = await getRoute(tripId);
+  const ordered = [...stops].sort((a, b) => a.startIndex - b.startIndex);
+
+  // Leg k runs from the end of stop k-1 to the start of stop k
+  const legs = ordered.map((stop, k) => ({
+    points: route.slice(k === 0 ? 0 : ordered[k - 1].endIndex, stop.startIndex + 1),
+    startTime: k === 0 ? trip.startTime : new Date(ordered[k - 1].endedAt),
+    endTime: new Date(stop.startedAt),
+  }));
+  const lastStop = ordered[ordered.length - 1];
+  legs.push({
+    points: route.slice(lastStop.endIndex),
+    startTime: new Date(lastStop.endedAt),
+    endTime: trip.endTime,
+  });
+
+  // Share the trip's distance out by route length so the legs add up exactly
+  const legMeters = legs.map(leg => getRouteMeters(leg.points));
+  const totalMeters = legMeters.reduce((sum, m) => sum + m, 0);
+  const effectiveDistance = trip.adjustedDistance ?? trip.calculatedDistance;
+  const tripEndOdometer = getTripEndOdometer(trip);
+  const now = new Date();
+  const status = getPendingStatus([trip]);
+
+  let odometer = trip.startOdometer;
+  const legTrips: Trip[] = legs.map((leg, k) => {
+    const share = totalMeters > 0 ? legMeters[k] / totalMeters : 1 / legs.length;
+    const isLast = k === legs.length - 1;
+    const startOdometer = odometer;
+    const endOdometer = isLast ? tripEndOdometer : startOdometer + effectiveDistance * share;
+    odometer = endOdometer;
+
+    const start = leg.startTime.getTime();
+    const end = leg.endTime.getTime();
+    const pauses = trip.pauses?.filter(p => p.startedAt >= start && (p.endedAt ?? end) <= end);
+    const duration = end - start;
+
+    return {
+      ...trip,
+      id: k === 0 ? trip.id : `${trip.id}-leg${k + 1}`,
+      startTime: leg.startTime,
+      endTime: leg.endTime,
+      startOdometer,
+      endOdometer,
+      calculatedDistance: trip.calculatedDistance * share,
+      adjustedDistance: trip.adjustedDistance !== null ? trip.adjustedDistance * share : null,
+      duration,
+      pauses,
+      movingDuration: Math.max(0, duration - getPausedDuration({ ...trip, pauses }, end)),
+      trackingGaps: trip.trackingGaps?.filter(g => g.startedAt >= start && g.startedAt < end),
+      rejectedPointCount: k === 0 ? trip.rejectedPointCount : undefined,
+      status,
+      syncedAt: k === 0 ? trip.syncedAt : null, // later legs are new to the server
+      createdAt: k === 0 ? trip.createdAt : now,
+      updatedAt: now,
+    };
+  });
+
+  const routes = await encodeRoutes(legTrips.map((legTrip, k) => [legTrip.id, legs[k].points]));
+  await rewriteTrips(legTrips, routes, []);
+
+  console.log(`[TripSegmentation] Split ${trip.id} into ${legTrips.length} legs`);
+  return { ok: true, trips: legTrips };
+}
+
+// ─── Merge ────────────────────────────────────────────────────────────────────
+
+function getVehicleHistory(trips: Trip[], vehicleId: string): Trip[] {
+  return trips
+    .filter(t => t.vehicleId === vehicleId && t.status !== 'active' && t.endTime)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+// Back-to-back trips of the same vehicle whose odometer readings line up
+export function findMergeCandidates(trips: Trip[]): MergeCandidate[] {
+  const candidates: MergeCandidate[] = [];
+  const vehicleIds = new Set(trips.map(t => t.vehicleId));
+
+  for (const vehicleId of vehicleIds) {
+    const history = getVehicleHistory(trips, vehicleId);
+    for (let i = 1; i < history.length; i++) {
+      const first = history[i - 1];
+      const second = history[i];
+      const gapMs = second.startTime.getTime() - first.endTime!.getTime();
+      const odometerGap = Math.abs(second.startOdometer - getTripEndOdometer(first));
+
+      if (gapMs >= 0 && gapMs <= MERGE_MAX_GAP && odometerGap <= MERGE_ODOMETER_TOLERANCE) {
+        candidates.push({ first, second, gapMs });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+export async function mergeTrips(firstId: string, secondId: string): Promise<SegmentationResult> {
+  const trips = await getTrips();
+  const first = trips.find(t => t.id === firstId);
+  const second = trips.find(t => t.id === secondId);
+  if (!first || !second) return { ok: false, reason: 'Trip not found' };
+  if (first.vehicleId !== second.vehicleId) return { ok: false, reason: 'Trips belong to different vehicles' };
+
+  const history = getVehicleHistory(trips, first.vehicleId);
+  const firstIndex = history.findIndex(t => t.id === first.id);
+  if (firstIndex === -1 || history[firstIndex + 1]?.id !== second.id) {
+    return { ok: false, reason: 'Only consecutive trips can be merged' };
+  }
+
+  const endTime = second.endTime!;
+  const startMs = first.startTime.getTime();
+  const endMs = endTime.getTime();
+
+  // The gap between the trips becomes a pause so moving time stays honest
+  const pauses = [
+    ...(first.pauses ?? []),
+    { startedAt: first.endTime!.getTime(), endedAt: second.startTime.getTime() },
+    ...(second.pauses ?? []),
+  ];
+
+  // End on the second trip's reading so later trips stay continuous; any
+  // unlogged miles between the two become an adjustment
+  const endOdometer = getTripEndOdometer(second);
+  const calculatedDistance = first.calculatedDistance + second.calculatedDistance;
+  const odometerDistance = endOdometer - first.startOdometer;
+  const hasAdjustment = first.adjustedDistance !== null || second.adjustedDistance !== null
+    || Math.abs(odometerDistance - calculatedDistance) > 0.01;
+
+  const merged: Trip = {
+    ...first,
+    endTime,
+    endOdometer,
+    calculatedDistance,
+    adjustedDistance: hasAdjustment ? odometerDistance : null,
+    duration: endMs - startMs,
+    pauses,
+    movingDuration: Math.max(0, endMs - startMs - getPausedDuration({ ...first, pauses }, endMs)),
+    trackingGaps: [...(first.trackingGaps ?? []), ...(second.trackingGaps ?? [])],
+    autoStopFallback: first.autoStopFallback ?? second.autoStopFallback,
+    // A mix of OBD-II and GPS legs can't claim either source on its own
+    distanceSource: first.distanceSource === second.distanceSource ? first.distanceSource : undefined,
+    obdDistance: first.distanceSource === second.distanceSource ? first.obdDistance : undefined,
+    rejectedPointCount: (first.rejectedPointCount ?? 0) + (second.rejectedPointCount ?? 0),
+    classification: first.classification === second.classification ? first.classification : 'unclassified',
+    isAutoTracked: first.isAutoTracked && second.isAutoTracked,
+    notes: [first.notes, second.notes].filter(Boolean).join('\n'),
+    status: getPendingStatus([first, second]),
+    updatedAt: new Date(),
+  };
+
+  const route = [...(await getRoute(first.id)), ...(await getRoute(second.id))];
+  const routes = await encodeRoutes([[merged.id, route]]);
+
+  // The second trip is absorbed into the merged one — nothing to restore
+  await rewriteTrips([merged], routes, [second.id]);
+
+  console.log(`[TripSegmentation] Merged ${second.id} into ${first.id}`);
+  return { ok: true, trips: [merged] };
+}
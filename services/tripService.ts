@@ -1,95 +1,326 @@
-import { storage } from './storageService';
-import { Trip, Vehicle, TripStatus } from '../types/trip';
+import { storage, reencryptStoredValues } from './storageService';
+import { Trip, Vehicle, TripStatus, TripFilters, SortOption } from '../types/trip';
+import { deleteRoute, routeResource } from './routeService';
 import { getVehicles as getVehiclesFromVehicleService, syncVehiclesWithDiscrepancyCheck } from './vehicleService';
+import { tripRepository } from './tripRepository';
+import { runMigrations } from './migrationService';
+import { withWriteLock, withAllWritesLocked, WRITE_RESOURCES } from './writeQueue';
+import { beginKeyRotation, completeKeyRotation, isKeyRotationPending } from './encryptionService';
+import { getTripEndOdometer } from './odometerTimelineService';
+import type { TrashedTrip } from './tripRecords';
 
-const TRIPS_KEY = '@garageminder_trips';
-const VEHICLES_KEY = '@garageminder_vehicles';
-const ACTIVE_TRIP_KEY = '@garageminder_active_trip';
 const ACTIVE_VEHICLE_KEY = '@garageminder_active_vehicle';
 
-// Initialize storage (no longer creates demo vehicle - vehicles come from API)
-export async function initializeStorage(): Promise<void> {
-  // Just initialize storage, vehicles will be fetched from API after login
-  const existingTrips = await getTrips();
-  if (!existingTrips) {
-    await storage.setItem(TRIPS_KEY, JSON.stringify([]));
+let initialization: Promise<void> | null = null;
+
+// Initialize storage (no longer creates demo vehicle - vehicles come from API).
+// Opens the trip database, moving trips saved by older versions into it,
+// encrypts values still stored in plaintext and migrates stored records to
+// the current schema. Runs once; trip operations wait for it so nothing
+// reads or writes records mid-migration.
+export function initializeStorage(): Promise<void> {
+  if (!initialization) {
+    initialization = (async () => {
+      try {
+        // Importing trips saved by older versions clears their storage keys
+        await withAllWritesLocked(() => tripRepository.initialize());
+        await reencryptStorage();
+        // Settings writers don't wait for initialization, so hold them off too
+        await withAllWritesLocked(runMigrations);
+      } catch (error) {
+        console.error('[TripService] Failed to initialize trip storage:', error);
+      }
+    })();
   }
+  return initialization;
 }
 
-// Trip operations
-export async function getTrips(): Promise<Trip[]> {
-  const data = await storage.getItem(TRIPS_KEY);
-  if (!data) return [];
-  
-  return JSON.parse(data, (key, value) => {
-    if (key === 'startTime' || key === 'endTime' || key === 'syncedAt' || key === 'createdAt' || key === 'updatedAt') {
-      return value ? new Date(value) : null;
+// Bring every stored value under the data key new writes use: plaintext
+// left by older versions, and during a key rotation — including one the
+// app was killed in the middle of — everything under the outgoing key.
+async function reencryptStorage(): Promise<void> {
+  const rotating = await isKeyRotationPending();
+  await withAllWritesLocked(async () => {
+    if (rotating) await tripRepository.reencrypt();
+    const rewritten = await reencryptStoredValues();
+    if (rotating) await completeKeyRotation();
+    if (rewritten > 0) {
+      console.log(`[TripService] Encrypted ${rewritten} stored values`);
     }
-    return value;
   });
 }
 
+// Replace the data key, e.g. on logout, so values read under the old
+// session's key can't be decrypted with a copy of it
+export async function rotateStorageKey(): Promise<void> {
+  await initializeStorage();
+  await beginKeyRotation();
+  await reencryptStorage();
+}
+
+// Trip operations
+export async function getTrips(): Promise<Trip[]> {
+  await initializeStorage();
+  return tripRepository.getTrips();
+}
+
+export async function getTrip(tripId: string): Promise<Trip | null> {
+  await initializeStorage();
+  return tripRepository.getTrip(tripId);
+}
+
+// Filtering and sorting run in the database where the platform has one
+export async function queryTrips(filters: TripFilters, sortBy: SortOption): Promise<Trip[]> {
+  await initializeStorage();
+  return tripRepository.queryTrips(filters, sortBy);
+}
+
 export async function saveTrip(trip: Trip): Promise<void> {
-  const trips = await getTrips();
-  const index = trips.findIndex(t => t.id === trip.id);
-  
-  if (index >= 0) {
-    trips[index] = { ...trip, updatedAt: new Date() };
-  } else {
-    trips.push(trip);
+  await initializeStorage();
+  await withWriteLock([WRITE_RESOURCES.TRIPS], async () => {
+    const existing = await tripRepository.getTrip(trip.id);
+    await tripRepository.putTrip(existing ? { ...trip, updatedAt: new Date() } : trip);
+  });
+}
+
+// The server has a trip once it's been synced, even if it changed since
+function isKnownToServer(trip: Trip): boolean {
+  return trip.syncedAt !== null;
+}
+
+/**
+ * Save the trips a split or merge produced with their routes and delete the
+ * trips they replace, as one write. Replaced trips the server already has
+ * are queued so the next sync deletes them there too.
+ */
+export async function rewriteTrips(
+  trips: Trip[],
+  routes: Record<string, string>,
+  removedTripIds: string[]
+): Promise<void> {
+  await initializeStorage();
+  const routeLocks = [...trips.map(t => t.id), ...removedTripIds].map(routeResource);
+  await withWriteLock([WRITE_RESOURCES.TRIPS, ...routeLocks], async () => {
+    const removed = await Promise.all(removedTripIds.map(id => tripRepository.getTrip(id)));
+    await tripRepository.rewriteTrips({
+      trips,
+      routes,
+      removedTripIds,
+      serverDeletions: removed.filter((t): t is Trip => t !== null && isKnownToServer(t)).map(t => t.id),
+    });
+  });
+}
+
+export type TripPlacement =
+  | { ok: true; trip: Trip; isLatest: boolean } // isLatest: no later trip of its vehicle
+  | { ok: false; reason: string };
+
+/**
+ * Add a trip recorded after the fact (a manual entry, an import) with its
+ * route. `place` slots it into the vehicle's odometer history against the
+ * trips and vehicle as they are while the locks are held, so a trip
+ * finished meanwhile can't land in between. A trip that becomes the latest
+ * reading moves the vehicle's odometer forward in the same write.
+ */
+export async function insertTrip(
+  vehicleId: string,
+  place: (trips: Trip[], vehicle: Vehicle) => TripPlacement,
+  route: string | null = null
+): Promise<TripPlacement> {
+  await initializeStorage();
+  return withWriteLock([WRITE_RESOURCES.TRIPS, WRITE_RESOURCES.VEHICLES], async () => {
+    const vehicle = (await tripRepository.getVehicles()).find(v => v.id === vehicleId);
+    if (!vehicle) return { ok: false, reason: 'Vehicle not found' };
+
+    const placement = place(await tripRepository.getTrips(), vehicle);
+    if (!placement.ok) return placement;
+
+    const { trip, isLatest } = placement;
+    const odometer = isLatest && trip.endOdometer !== null
+      ? { vehicleId, odometer: Math.round(trip.endOdometer), recordedAt: Date.now(), source: 'trip' as const }
+      : null;
+    await tripRepository.insertTrip(trip, route, odometer);
+    return placement;
+  });
+}
+
+// Trash - deleted trips wait there until restored or purged (see trashService)
+
+// Only for callers holding the VEHICLES lock
+async function setOdometerFromTrips(vehicleId: string, odometer: number): Promise<void> {
+  const vehicle = await tripRepository.updateVehicle(vehicleId, { currentOdometer: odometer });
+  if (vehicle) {
+    await tripRepository.addOdometerReading({ vehicleId, odometer, recordedAt: Date.now(), source: 'trip' });
   }
-  
-  await storage.setItem(TRIPS_KEY, JSON.stringify(trips));
 }
 
-export async function deleteTrip(tripId: string): Promise<void> {
-  const trips = await getTrips();
-  const filtered = trips.filter(t => t.id !== tripId);
-  await storage.setItem(TRIPS_KEY, JSON.stringify(filtered));
+// A removed trip that set its vehicle's current reading takes the vehicle
+// back to the reading before it. Readings set later by another trip or the
+// server, or a trip in progress that started from it, are left alone.
+async function rollBackOdometer(removed: Trip): Promise<void> {
+  const vehicle = (await tripRepository.getVehicles()).find(v => v.id === removed.vehicleId);
+  const removedEnd = Math.round(getTripEndOdometer(removed));
+  if (!vehicle || Math.round(vehicle.currentOdometer) !== removedEnd) return;
+
+  const activeTrip = await tripRepository.getActiveTrip();
+  if (activeTrip?.vehicleId === vehicle.id) return;
+
+  const remaining = (await tripRepository.getTrips()).filter(t => t.vehicleId === vehicle.id && t.status !== 'active');
+  const previous = Math.max(
+    Math.round(removed.startOdometer),
+    ...remaining.map(t => Math.round(getTripEndOdometer(t)))
+  );
+  if (previous < removedEnd) {
+    await setOdometerFromTrips(vehicle.id, previous);
+    console.log(`[TripService] Rolled ${vehicle.id} odometer back to ${previous} after removing ${removed.id}`);
+  }
 }
 
-export async function getActiveTrip(): Promise<Trip | null> {
-  const data = await storage.getItem(ACTIVE_TRIP_KEY);
-  if (!data) return null;
-  
-  return JSON.parse(data, (key, value) => {
-    if (key === 'startTime' || key === 'endTime' || key === 'syncedAt' || key === 'createdAt' || key === 'updatedAt') {
-      return value ? new Date(value) : null;
+// A restored trip that ends past its vehicle's reading moves it forward again
+async function restoreOdometer(restored: Trip): Promise<void> {
+  const vehicle = (await tripRepository.getVehicles()).find(v => v.id === restored.vehicleId);
+  const restoredEnd = Math.round(getTripEndOdometer(restored));
+  if (vehicle && restoredEnd > vehicle.currentOdometer) {
+    await setOdometerFromTrips(vehicle.id, restoredEnd);
+  }
+}
+
+// Deleting moves the trip to the trash; its route stays until it's purged
+export async function deleteTrip(tripId: string): Promise<Trip | null> {
+  await initializeStorage();
+  return withWriteLock([WRITE_RESOURCES.TRIPS, WRITE_RESOURCES.VEHICLES], async () => {
+    const trip = await tripRepository.moveToTrash(tripId, Date.now());
+    if (trip) await rollBackOdometer(trip);
+    return trip;
+  });
+}
+
+export async function restoreTrip(tripId: string): Promise<Trip | null> {
+  await initializeStorage();
+  return withWriteLock([WRITE_RESOURCES.TRIPS, WRITE_RESOURCES.VEHICLES], async () => {
+    const trip = await tripRepository.restoreFromTrash(tripId);
+    if (trip) await restoreOdometer(trip);
+    return trip;
+  });
+}
+
+export async function getTrashedTrips(): Promise<TrashedTrip[]> {
+  await initializeStorage();
+  return tripRepository.getTrash();
+}
+
+// Delete for good, from the trip list or the trash, routes included. Trips
+// the server has are queued so the next sync deletes them there too.
+export async function purgeTrips(tripIds: string[]): Promise<void> {
+  if (tripIds.length === 0) return;
+  await initializeStorage();
+  await withWriteLock([WRITE_RESOURCES.TRIPS], async () => {
+    const trash = await tripRepository.getTrash();
+    const purged = await Promise.all(
+      tripIds.map(async id => (await tripRepository.getTrip(id)) ?? trash.find(e => e.trip.id === id)?.trip ?? null)
+    );
+    await tripRepository.addServerDeletions(
+      purged.filter((t): t is Trip => t !== null && isKnownToServer(t)).map(t => t.id)
+    );
+    for (const tripId of tripIds) {
+      await tripRepository.removeTrip(tripId);
     }
-    return value;
+    await tripRepository.removeFromTrash(tripIds);
   });
+  for (const tripId of tripIds) {
+    await deleteRoute(tripId);
+  }
+}
+
+export async function getActiveTrip(): Promise<Trip | null> {
+  await initializeStorage();
+  return tripRepository.getActiveTrip();
 }
 
+// Start (or clear) the active trip unconditionally
 export async function setActiveTrip(trip: Trip | null): Promise<void> {
-  if (trip) {
-    await storage.setItem(ACTIVE_TRIP_KEY, JSON.stringify(trip));
-  } else {
-    await storage.removeItem(ACTIVE_TRIP_KEY);
-  }
+  await initializeStorage();
+  await withWriteLock([WRITE_RESOURCES.ACTIVE_TRIP], () => tripRepository.setActiveTrip(trip));
+}
+
+// Save progress on the active trip. Skipped once that trip has been finished
+// or replaced, so a late write can't bring a finalized trip back.
+export async function updateActiveTrip(trip: Trip): Promise<boolean> {
+  await initializeStorage();
+  return withWriteLock([WRITE_RESOURCES.ACTIVE_TRIP], async () => {
+    const stored = await tripRepository.getActiveTrip();
+    if (stored?.id !== trip.id) return false;
+    await tripRepository.setActiveTrip(trip);
+    return true;
+  });
+}
+
+// Read-modify-write of the active trip; `modify` returns the trip to store,
+// or the one it was given to leave it as is
+export async function modifyActiveTrip(
+  modify: (trip: Trip) => Promise<Trip>
+): Promise<Trip | null> {
+  await initializeStorage();
+  return withWriteLock([WRITE_RESOURCES.ACTIVE_TRIP], async () => {
+    const trip = await tripRepository.getActiveTrip();
+    if (!trip) return null;
+    const updated = await modify(trip);
+    if (updated !== trip) await tripRepository.setActiveTrip(updated);
+    return updated;
+  });
+}
+
+/**
+ * Store a finished trip, move its vehicle's odometer to `endOdometer` and
+ * clear the active trip as one write. Resolves true if the odometer moved.
+ */
+export async function completeActiveTrip(trip: Trip, endOdometer: number | null): Promise<boolean> {
+  await initializeStorage();
+  const odometer = endOdometer === null ? null : {
+    vehicleId: trip.vehicleId,
+    odometer: Math.round(endOdometer),
+    recordedAt: Date.now(),
+    source: 'trip' as const,
+  };
+  return withWriteLock(
+    [WRITE_RESOURCES.TRIPS, WRITE_RESOURCES.ACTIVE_TRIP, WRITE_RESOURCES.VEHICLES],
+    () => tripRepository.finalizeTrip(trip, odometer)
+  );
+}
+
+// Pause helpers
+export function isTripPaused(trip: Trip): boolean {
+  const lastPause = trip.pauses?.[trip.pauses.length - 1];
+  return !!lastPause && lastPause.endedAt === null;
+}
+
+export function getPausedDuration(trip: Trip, at: number = Date.now()): number {
+  return (trip.pauses ?? []).reduce(
+    (sum, pause) => sum + Math.max(0, (pause.endedAt ?? at) - pause.startedAt),
+    0
+  );
+}
+
+// Wall-clock duration minus time spent paused
+export function getMovingDuration(trip: Trip, at: number = Date.now()): number {
+  return Math.max(0, at - trip.startTime.getTime() - getPausedDuration(trip, at));
+}
+
+// The car (OBD-II) is measuring this trip's distance; GPS only records the route
+export function isMeasuredByObd(trip: Trip): boolean {
+  return trip.distanceSource === 'obd' && !trip.obdDistance?.lostAt;
 }
 
 // Vehicle operations - DEPRECATED: Use vehicleService.ts instead
 // These are kept for backward compatibility only
 export async function getVehicles(): Promise<Vehicle[]> {
-  const data = await storage.getItem(VEHICLES_KEY);
-  if (!data) return [];
-  
-  return JSON.parse(data, (key, value) => {
-    if (key === 'createdAt') {
-      return new Date(value);
-    }
-    return value;
-  });
+  return tripRepository.getVehicles();
 }
 
 export async function updateVehicleOdometer(vehicleId: string, newOdometer: number): Promise<void> {
-  const vehicles = await getVehicles();
-  const vehicle = vehicles.find(v => v.id === vehicleId);
-  
-  if (vehicle) {
-    vehicle.currentOdometer = newOdometer;
-    await storage.setItem(VEHICLES_KEY, JSON.stringify(vehicles));
-  }
+  await withWriteLock([WRITE_RESOURCES.VEHICLES], () =>
+    tripRepository.updateVehicle(vehicleId, { currentOdometer: newOdometer })
+  );
 }
 
 export async function getActiveVehicle(): Promise<Vehicle | null> {
@@ -101,7 +332,7 @@ export async function getActiveVehicle(): Promise<Vehicle | null> {
 }
 
 export async function setActiveVehicle(vehicleId: string): Promise<void> {
-  await storage.setItem(ACTIVE_VEHICLE_KEY, vehicleId);
+  await withWriteLock([ACTIVE_VEHICLE_KEY], () => storage.setItem(ACTIVE_VEHICLE_KEY, vehicleId));
 }
 
 // Sync trips: update local trip status and push odometer to server via vehicleService
@@ -145,8 +376,13 @@ export async function syncTrips(tripIds: string[]): Promise<{
   }
 
   try {
-    // Push to server and check for discrepancies
-    const syncResult = await syncVehiclesWithDiscrepancyCheck(vehicleOdometers);
+    // Push to server and check for discrepancies, along with trips deleted here since the last sync
+    const deletedTripIds = await tripRepository.getServerDeletions();
+    const syncResult = await syncVehiclesWithDiscrepancyCheck(vehicleOdometers, deletedTripIds);
+    // Deletions the server didn't confirm stay queued for the next sync
+    await withWriteLock([WRITE_RESOURCES.TRIPS], () =>
+      tripRepository.clearServerDeletions(syncResult.deletedTripIds)
+    );
 
     // Mark trips as synced locally
     for (const tripId of tripIds) {
@@ -1,8 +1,10 @@
 import { storage } from './storageService';
 import { api } from './apiClient';
 import { Vehicle } from '../types/trip';
+import { tripRepository } from './tripRepository';
+import { withWriteLock, WRITE_RESOURCES } from './writeQueue';
+import type { OdometerReading, OdometerReadingSource } from './tripRecords';
 
-const VEHICLES_KEY = '@garageminder_vehicles';
 const ACTIVE_VEHICLE_KEY = '@garageminder_active_vehicle';
 
 // API Vehicle Response Interface (from API documentation)
@@ -32,15 +34,7 @@ interface ApiVehicle {
  * Get vehicles from local storage (the ONLY read source for UI)
  */
 export async function getVehicles(): Promise<Vehicle[]> {
-  const data = await storage.getItem(VEHICLES_KEY);
-  if (!data) return [];
-  
-  return JSON.parse(data, (key, value) => {
-    if (key === 'createdAt') {
-      return new Date(value);
-    }
-    return value;
-  });
+  return tripRepository.getVehicles();
 }
 
 /**
@@ -66,7 +60,7 @@ export async function getActiveVehicle(): Promise<Vehicle | null> {
  * Set active vehicle (local only)
  */
 export async function setActiveVehicle(vehicleId: string): Promise<void> {
-  await storage.setItem(ACTIVE_VEHICLE_KEY, vehicleId);
+  await withWriteLock([ACTIVE_VEHICLE_KEY], () => storage.setItem(ACTIVE_VEHICLE_KEY, vehicleId));
 }
 
 /**
@@ -78,24 +72,43 @@ export async function updateVehicleOdometer(vehicleId: string, newOdometer: numb
   
   console.log(`[VehicleService] Updating odometer locally for ${vehicleId} to ${odometerInt}`);
   
-  const vehicles = await getVehicles();
-  const vehicle = vehicles.find(v => v.id === vehicleId);
-  
-  if (!vehicle) {
-    throw new Error('Vehicle not found');
-  }
+  await withWriteLock([WRITE_RESOURCES.VEHICLES], async () => {
+    const vehicle = await tripRepository.updateVehicle(vehicleId, { currentOdometer: odometerInt });
+    
+    if (!vehicle) {
+      throw new Error('Vehicle not found');
+    }
 
-  vehicle.currentOdometer = odometerInt;
-  await storage.setItem(VEHICLES_KEY, JSON.stringify(vehicles));
+    await recordOdometerReading(vehicleId, odometerInt, 'trip');
+  });
   console.log(`[VehicleService] Local odometer updated: ${vehicleId} → ${odometerInt}`);
 }
 
+/**
+ * Odometer history for a vehicle, oldest first
+ */
+export async function getOdometerReadings(vehicleId: string): Promise<OdometerReading[]> {
+  return tripRepository.getOdometerReadings(vehicleId);
+}
+
+async function recordOdometerReading(
+  vehicleId: string,
+  odometer: number,
+  source: OdometerReadingSource
+): Promise<void> {
+  try {
+    await tripRepository.addOdometerReading({ vehicleId, odometer, recordedAt: Date.now(), source });
+  } catch (error) {
+    console.warn('[VehicleService] Failed to record odometer reading:', error);
+  }
+}
+
 /**
  * Clear local vehicle cache (on logout)
  */
 export async function clearVehicleCache(): Promise<void> {
-  await storage.removeItem(VEHICLES_KEY);
-  await storage.removeItem(ACTIVE_VEHICLE_KEY);
+  await withWriteLock([WRITE_RESOURCES.VEHICLES], () => tripRepository.replaceVehicles([]));
+  await withWriteLock([ACTIVE_VEHICLE_KEY], () => storage.removeItem(ACTIVE_VEHICLE_KEY));
 }
 
 // ============================================================================
@@ -137,15 +150,26 @@ export async function fetchVehiclesFromAPI(): Promise<Vehicle[]> {
       createdAt: new Date(),
     }));
 
-    // Save to local storage
-    await storage.setItem(VEHICLES_KEY, JSON.stringify(vehicles));
+    // Save to local storage, noting server odometers that moved
+    await withWriteLock([WRITE_RESOURCES.VEHICLES], async () => {
+      const previous = await getVehicles();
+      await tripRepository.replaceVehicles(vehicles);
+      for (const vehicle of vehicles) {
+        const cached = previous.find(v => v.id === vehicle.id);
+        if (cached?.currentOdometer !== vehicle.currentOdometer) {
+          await recordOdometerReading(vehicle.id, vehicle.currentOdometer, 'server');
+        }
+      }
+    });
     console.log('[VehicleService] Vehicles cached locally');
 
     // Set first vehicle as active if none is set
-    const activeVehicle = await storage.getItem(ACTIVE_VEHICLE_KEY);
-    if (!activeVehicle && vehicles.length > 0) {
-      await storage.setItem(ACTIVE_VEHICLE_KEY, vehicles[0].id);
-    }
+    await withWriteLock([ACTIVE_VEHICLE_KEY], async () => {
+      const activeVehicle = await storage.getItem(ACTIVE_VEHICLE_KEY);
+      if (!activeVehicle && vehicles.length > 0) {
+        await storage.setItem(ACTIVE_VEHICLE_KEY, vehicles[0].id);
+      }
+    });
 
     return vehicles;
   } catch (error: any) {
@@ -209,10 +233,16 @@ export async function syncVehicles(): Promise<Vehicle[]> {
  * If the server odometer is higher than what we're pushing (e.g. web app was updated),
  * returns discrepancy info so the UI can prompt the user.
  * 
+ * Synced trips deleted on this device go along as `deleted_trip_ids`. The
+ * server answers with the `deleted_trip_ids` it deleted; only those come
+ * back as confirmed, so a server that ignores the field leaves them queued.
+ *
  * @param localOdometers Map of vehicleId → local odometer value to push
+ * @param deletedTripIds Synced trips deleted on this device, for the server to delete too
  */
 export async function syncVehiclesWithDiscrepancyCheck(
-  localOdometers: Map<string, number>
+  localOdometers: Map<string, number>,
+  deletedTripIds: string[] = []
 ): Promise<{
   vehicles: Vehicle[];
   discrepancies: Array<{
@@ -221,6 +251,7 @@ export async function syncVehiclesWithDiscrepancyCheck(
     localOdometer: number;
     serverOdometer: number;
   }>;
+  deletedTripIds: string[]; // the ones the server confirmed
 }> {
   const discrepancies: Array<{
     vehicleId: string;
@@ -278,12 +309,28 @@ export async function syncVehiclesWithDiscrepancyCheck(
     .filter(([id]) => !discrepancies.find(d => d.vehicleId === id))
     .map(([id, odometer]) => ({ id, odometer }));
 
-  if (vehiclesToPush.length > 0) {
+  let confirmedDeletions: string[] = [];
+  if (vehiclesToPush.length > 0 || deletedTripIds.length > 0) {
     try {
-      const pushPayload = { vehicles: vehiclesToPush };
-      console.log('[VehicleService] Sync push (non-discrepant):', vehiclesToPush.length, 'vehicles');
+      const pushPayload = { vehicles: vehiclesToPush, deleted_trip_ids: deletedTripIds };
+      console.log(
+        '[VehicleService] Sync push (non-discrepant):',
+        vehiclesToPush.length,
+        'vehicles,',
+        deletedTripIds.length,
+        'deleted trips'
+      );
       const pushResult = await api.post('/sync/push', pushPayload);
       console.log('[VehicleService] Sync push result:', pushResult);
+      const deleted = pushResult?.deleted_trip_ids;
+      if (Array.isArray(deleted)) {
+        confirmedDeletions = deletedTripIds.filter(id => deleted.includes(id));
+      }
+      if (confirmedDeletions.length < deletedTripIds.length) {
+        console.warn(
+          `[VehicleService] Server confirmed ${confirmedDeletions.length} of ${deletedTripIds.length} trip deletions; keeping the rest queued`
+        );
+      }
     } catch (pushError: any) {
       console.error('[VehicleService] Sync push failed:', pushError?.message);
       throw pushError;
@@ -293,7 +340,7 @@ export async function syncVehiclesWithDiscrepancyCheck(
   // Step 4: Pull fresh data and update local cache
   const freshVehicles = await fetchVehiclesFromAPI();
 
-  return { vehicles: freshVehicles, discrepancies };
+  return { vehicles: freshVehicles, discrepancies, deletedTripIds: confirmedDeletions };
 }
 
 /**
@@ -0,0 +1,118 @@
+import type { Vehicle } from '../types/trip';
+import { getVehicles } from './vehicleService';
+import { getObdSettings, isObdConfigured, readObdVin } from './obdService';
+import { getConnectedBondedDevices } from './bluetoothConnectionService';
+import {
+  getDeviceMappings,
+  addDeviceMapping,
+  updateDeviceMapping,
+  type BluetoothDeviceMapping,
+} from './bluetoothService';
+import {
+  decodeVin,
+  matchVehiclesByVin,
+  getConfidentVinMatch,
+  type DecodedVin,
+  type VinMatch,
+} from './vinService';
+
+/**
+ * Identify the car from its VIN (read over OBD-II or typed in) and use that
+ * to set up AutoStart: the car's Bluetooth is whichever paired device is
+ * connected while the user is sitting in it.
+ */
+
+export interface VinLookup {
+  decoded: DecodedVin;
+  matches: VinMatch[];
+  match: VinMatch | null; // confident enough to act on without asking
+}
+
+export type VinLookupResult =
+  | { ok: true; lookup: VinLookup }
+  | { ok: false; reason: string };
+
+export interface DeviceMappingSuggestion {
+  device: { id: string; name: string };
+  mapping: BluetoothDeviceMapping | null; // existing mapping, to another vehicle or disabled
+}
+
+function getVehicleDisplayName(vehicle: Vehicle): string {
+  return `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+}
+
+export async function lookupVin(vin: string): Promise<VinLookupResult> {
+  const result = decodeVin(vin);
+  if (!result.ok) return result;
+
+  const matches = matchVehiclesByVin(result.decoded, await getVehicles());
+  return { ok: true, lookup: { decoded: result.decoded, matches, match: getConfidentVinMatch(matches) } };
+}
+
+export async function readVinFromObd(): Promise<{ ok: true; vin: string } | { ok: false; reason: string }> {
+  const settings = await getObdSettings();
+  if (!isObdConfigured(settings)) {
+    return { ok: false, reason: 'Set up an OBD-II adapter in Settings first' };
+  }
+  const vin = await readObdVin();
+  if (!vin) {
+    return { ok: false, reason: 'The car did not report its VIN — enter it from the windshield or door sticker instead' };
+  }
+  return { ok: true, vin };
+}
+
+/**
+ * Connected paired devices that could be this vehicle's Bluetooth, skipping
+ * the OBD-II adapter and anything already mapped to the vehicle.
+ */
+export async function getDeviceMappingSuggestions(vehicleId: string): Promise<DeviceMappingSuggestion[]> {
+  const [devices, mappings, obdSettings] = await Promise.all([
+    getConnectedBondedDevices(),
+    getDeviceMappings(),
+    getObdSettings(),
+  ]);
+
+  return devices
+    .filter(device => device.address !== obdSettings.adapterAddress)
+    .map(device => ({
+      device: { id: device.address, name: device.name },
+      mapping: mappings.find(m => m.deviceId === device.address) ?? null,
+    }))
+    .filter(({ mapping }) => !mapping || mapping.vehicleId !== vehicleId || !mapping.enabled);
+}
+
+export async function linkDeviceToVehicle(
+  suggestion: DeviceMappingSuggestion,
+  vehicle: Vehicle
+): Promise<void> {
+  const vehicleName = getVehicleDisplayName(vehicle);
+  if (suggestion.mapping) {
+    await updateDeviceMapping(suggestion.device.id, { vehicleId: vehicle.id, vehicleName, enabled: true });
+  } else {
+    await addDeviceMapping({
+      deviceId: suggestion.device.id,
+      deviceName: suggestion.device.name,
+      vehicleId: vehicle.id,
+      vehicleName,
+      enabled: true,
+    });
+  }
+  console.log('[VinMatch] Linked', suggestion.device.name, 'to', vehicleName);
+}
+
+/**
+ * Create the mapping without asking when nothing is ambiguous: a VIN whose
+ * check digit adds up, one confident vehicle match and exactly one connected
+ * device that isn't mapped yet. Devices already mapped to another vehicle
+ * are never taken over silently.
+ */
+export async function autoLinkVinMatch(lookup: VinLookup): Promise<DeviceMappingSuggestion | null> {
+  // A failed check digit means a mistyped VIN; the user links by hand instead
+  if (!lookup.match || lookup.decoded.checkDigitValid === false) return null;
+
+  const suggestions = await getDeviceMappingSuggestions(lookup.match.vehicle.id);
+  if (suggestions.length !== 1 || suggestions[0].mapping) return null;
+
+  await linkDeviceToVehicle(suggestions[0], lookup.match.vehicle);
+  return suggestions[0];
+}
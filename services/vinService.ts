@@ -0,0 +1,343 @@
+import type { Vehicle } from '../types/trip';
+
+/**
+ * Offline VIN decoding and vehicle matching.
+ *
+ * Decodes the parts of a 17-character VIN that don't need a lookup service:
+ * the manufacturer (WMI, positions 1–3), the country it was built for, the
+ * model year (position 10) and, for North American VINs, the check digit
+ * (position 9). The result is matched against the user's vehicles by VIN
+ * first, then by make and model year.
+ */
+
+export interface DecodedVin {
+  vin: string;
+  wmi: string;
+  makes: string[];              // empty when the WMI isn't in the table
+  manufacturer: string | null;
+  country: string | null;
+  region: string;
+  modelYear: number | null;
+  checkDigitValid: boolean | null; // null where the check digit isn't mandatory
+}
+
+export type VinMatchConfidence = 'exact' | 'likely' | 'possible';
+
+export interface VinMatch {
+  vehicle: Vehicle;
+  confidence: VinMatchConfidence;
+  reason: string;
+}
+
+export type VinDecodeResult =
+  | { ok: true; decoded: DecodedVin }
+  | { ok: false; reason: string };
+
+const VIN_LENGTH = 17;
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// ─── Tables ───────────────────────────────────────────────────────────────────
+
+interface WmiEntry {
+  manufacturer: string;
+  makes: string[];
+}
+
+const WMI_TABLE: Record<string, WmiEntry> = {
+  // North America
+  '1FA': { manufacturer: 'Ford', makes: ['Ford'] },
+  '1FB': { manufacturer: 'Ford', makes: ['Ford'] },
+  '1FC': { manufacturer: 'Ford', makes: ['Ford'] },
+  '1FD': { manufacturer: 'Ford', makes: ['Ford'] },
+  '1FM': { manufacturer: 'Ford', makes: ['Ford'] },
+  '1FT': { manufacturer: 'Ford', makes: ['Ford'] },
+  '1LN': { manufacturer: 'Ford', makes: ['Lincoln'] },
+  '1ZV': { manufacturer: 'Ford', makes: ['Ford'] },
+  '2FA': { manufacturer: 'Ford Canada', makes: ['Ford'] },
+  '2FM': { manufacturer: 'Ford Canada', makes: ['Ford'] },
+  '3FA': { manufacturer: 'Ford Mexico', makes: ['Ford'] },
+  '3FM': { manufacturer: 'Ford Mexico', makes: ['Ford'] },
+  '1G1': { manufacturer: 'General Motors', makes: ['Chevrolet'] },
+  '1GC': { manufacturer: 'General Motors', makes: ['Chevrolet'] },
+  '1GN': { manufacturer: 'General Motors', makes: ['Chevrolet'] },
+  '1GT': { manufacturer: 'General Motors', makes: ['GMC'] },
+  '1GK': { manufacturer: 'General Motors', makes: ['GMC'] },
+  '1G4': { manufacturer: 'General Motors', makes: ['Buick'] },
+  '1G6': { manufacturer: 'General Motors', makes: ['Cadillac'] },
+  '1GY': { manufacturer: 'General Motors', makes: ['Cadillac'] },
+  '2G1': { manufacturer: 'General Motors Canada', makes: ['Chevrolet'] },
+  '3GN': { manufacturer: 'General Motors Mexico', makes: ['Chevrolet'] },
+  '3GC': { manufacturer: 'General Motors Mexico', makes: ['Chevrolet'] },
+  '3GT': { manufacturer: 'General Motors Mexico', makes: ['GMC'] },
+  'KL7': { manufacturer: 'GM Korea', makes: ['Chevrolet', 'Buick'] },
+  '1C3': { manufacturer: 'Stellantis', makes: ['Chrysler', 'Dodge'] },
+  '1C4': { manufacturer: 'Stellantis', makes: ['Jeep', 'Chrysler', 'Dodge'] },
+  '1C6': { manufacturer: 'Stellantis', makes: ['Ram'] },
+  '1J4': { manufacturer: 'Stellantis', makes: ['Jeep'] },
+  '1J8': { manufacturer: 'Stellantis', makes: ['Jeep'] },
+  '2C3': { manufacturer: 'Stellantis Canada', makes: ['Chrysler', 'Dodge'] },
+  '2C4': { manufacturer: 'Stellantis Canada', makes: ['Chrysler', 'Dodge'] },
+  '3C4': { manufacturer: 'Stellantis Mexico', makes: ['Chrysler', 'Dodge', 'Jeep'] },
+  '3C6': { manufacturer: 'Stellantis Mexico', makes: ['Ram'] },
+  '1HG': { manufacturer: 'Honda', makes: ['Honda'] },
+  '19X': { manufacturer: 'Honda', makes: ['Honda'] },
+  '19U': { manufacturer: 'Honda', makes: ['Acura'] },
+  '2HG': { manufacturer: 'Honda Canada', makes: ['Honda'] },
+  '2HK': { manufacturer: 'Honda Canada', makes: ['Honda'] },
+  '5FN': { manufacturer: 'Honda', makes: ['Honda'] },
+  '5J6': { manufacturer: 'Honda', makes: ['Honda'] },
+  '5J8': { manufacturer: 'Honda', makes: ['Acura'] },
+  '4T1': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  '4T3': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  '4T4': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  '5TD': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  '5TF': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  '2T1': { manufacturer: 'Toyota Canada', makes: ['Toyota'] },
+  '2T2': { manufacturer: 'Toyota Canada', makes: ['Lexus'] },
+  '2T3': { manufacturer: 'Toyota Canada', makes: ['Toyota'] },
+  '1N4': { manufacturer: 'Nissan', makes: ['Nissan'] },
+  '1N6': { manufacturer: 'Nissan', makes: ['Nissan'] },
+  '5N1': { manufacturer: 'Nissan', makes: ['Nissan'] },
+  '3N1': { manufacturer: 'Nissan Mexico', makes: ['Nissan'] },
+  '4S3': { manufacturer: 'Subaru', makes: ['Subaru'] },
+  '4S4': { manufacturer: 'Subaru', makes: ['Subaru'] },
+  '5YJ': { manufacturer: 'Tesla', makes: ['Tesla'] },
+  '7SA': { manufacturer: 'Tesla', makes: ['Tesla'] },
+  '5NP': { manufacturer: 'Hyundai', makes: ['Hyundai'] },
+  '5NM': { manufacturer: 'Hyundai', makes: ['Hyundai'] },
+  '5XY': { manufacturer: 'Kia / Hyundai', makes: ['Kia', 'Hyundai'] },
+  '1VW': { manufacturer: 'Volkswagen', makes: ['Volkswagen'] },
+  '3VW': { manufacturer: 'Volkswagen Mexico', makes: ['Volkswagen'] },
+  '4JG': { manufacturer: 'Mercedes-Benz', makes: ['Mercedes-Benz'] },
+  '5UX': { manufacturer: 'BMW', makes: ['BMW'] },
+  '4US': { manufacturer: 'BMW', makes: ['BMW'] },
+  '1YV': { manufacturer: 'Mazda', makes: ['Mazda'] },
+  '3MZ': { manufacturer: 'Mazda Mexico', makes: ['Mazda'] },
+  // Asia
+  'JHM': { manufacturer: 'Honda', makes: ['Honda'] },
+  'JHL': { manufacturer: 'Honda', makes: ['Honda'] },
+  'JH4': { manufacturer: 'Honda', makes: ['Acura'] },
+  'JTD': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  'JTE': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  'JTM': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  'JTN': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  'JT2': { manufacturer: 'Toyota', makes: ['Toyota'] },
+  'JTH': { manufacturer: 'Toyota', makes: ['Lexus'] },
+  'JTJ': { manufacturer: 'Toyota', makes: ['Lexus'] },
+  'JN1': { manufacturer: 'Nissan', makes: ['Nissan'] },
+  'JN8': { manufacturer: 'Nissan', makes: ['Nissan'] },
+  'JNK': { manufacturer: 'Nissan', makes: ['Infiniti'] },
+  'JM1': { manufacturer: 'Mazda', makes: ['Mazda'] },
+  'JM3': { manufacturer: 'Mazda', makes: ['Mazda'] },
+  'JF1': { manufacturer: 'Subaru', makes: ['Subaru'] },
+  'JF2': { manufacturer: 'Subaru', makes: ['Subaru'] },
+  'JA3': { manufacturer: 'Mitsubishi', makes: ['Mitsubishi'] },
+  'JA4': { manufacturer: 'Mitsubishi', makes: ['Mitsubishi'] },
+  'JS1': { manufacturer: 'Suzuki', makes: ['Suzuki'] },
+  'JS3': { manufacturer: 'Suzuki', makes: ['Suzuki'] },
+  'KMH': { manufacturer: 'Hyundai', makes: ['Hyundai'] },
+  'KM8': { manufacturer: 'Hyundai', makes: ['Hyundai'] },
+  'KMT': { manufacturer: 'Hyundai', makes: ['Genesis'] },
+  'KNA': { manufacturer: 'Kia', makes: ['Kia'] },
+  'KND': { manufacturer: 'Kia', makes: ['Kia'] },
+  'LRW': { manufacturer: 'Tesla China', makes: ['Tesla'] },
+  'LVS': { manufacturer: 'Ford China', makes: ['Ford'] },
+  'LYV': { manufacturer: 'Volvo China', makes: ['Volvo'] },
+  // Europe
+  'SAJ': { manufacturer: 'Jaguar Land Rover', makes: ['Jaguar'] },
+  'SAL': { manufacturer: 'Jaguar Land Rover', makes: ['Land Rover'] },
+  'SCC': { manufacturer: 'Lotus', makes: ['Lotus'] },
+  'SHH': { manufacturer: 'Honda UK', makes: ['Honda'] },
+  'SJN': { manufacturer: 'Nissan UK', makes: ['Nissan'] },
+  'TMB': { manufacturer: 'Škoda', makes: ['Skoda'] },
+  'VF1': { manufacturer: 'Renault', makes: ['Renault'] },
+  'VF3': { manufacturer: 'Peugeot', makes: ['Peugeot'] },
+  'VF7': { manufacturer: 'Citroën', makes: ['Citroen'] },
+  'VSS': { manufacturer: 'SEAT', makes: ['SEAT'] },
+  'WAU': { manufacturer: 'Audi', makes: ['Audi'] },
+  'WA1': { manufacturer: 'Audi', makes: ['Audi'] },
+  'WBA': { manufacturer: 'BMW', makes: ['BMW'] },
+  'WBS': { manufacturer: 'BMW M', makes: ['BMW'] },
+  'WBY': { manufacturer: 'BMW', makes: ['BMW'] },
+  'WDB': { manufacturer: 'Mercedes-Benz', makes: ['Mercedes-Benz'] },
+  'WDC': { manufacturer: 'Mercedes-Benz', makes: ['Mercedes-Benz'] },
+  'WDD': { manufacturer: 'Mercedes-Benz', makes: ['Mercedes-Benz'] },
+  'W1K': { manufacturer: 'Mercedes-Benz', makes: ['Mercedes-Benz'] },
+  'W1N': { manufacturer: 'Mercedes-Benz', makes: ['Mercedes-Benz'] },
+  'WMW': { manufacturer: 'MINI', makes: ['MINI'] },
+  'WP0': { manufacturer: 'Porsche', makes: ['Porsche'] },
+  'WP1': { manufacturer: 'Porsche', makes: ['Porsche'] },
+  'WVW': { manufacturer: 'Volkswagen', makes: ['Volkswagen'] },
+  'WVG': { manufacturer: 'Volkswagen', makes: ['Volkswagen'] },
+  'WF0': { manufacturer: 'Ford Germany', makes: ['Ford'] },
+  'W0L': { manufacturer: 'Opel', makes: ['Opel', 'Vauxhall'] },
+  'YV1': { manufacturer: 'Volvo', makes: ['Volvo'] },
+  'YV4': { manufacturer: 'Volvo', makes: ['Volvo'] },
+  'ZAR': { manufacturer: 'Alfa Romeo', makes: ['Alfa Romeo'] },
+  'ZFA': { manufacturer: 'Fiat', makes: ['Fiat'] },
+  'ZFF': { manufacturer: 'Ferrari', makes: ['Ferrari'] },
+  'ZHW': { manufacturer: 'Lamborghini', makes: ['Lamborghini'] },
+};
+
+// First one or two characters → country; checked two-character prefixes first
+const COUNTRY_PREFIXES: [RegExp, string][] = [
+  [/^[145]/, 'United States'],
+  [/^2/, 'Canada'],
+  [/^3[A-W]/, 'Mexico'],
+  [/^7[A-E]/, 'New Zealand'],
+  [/^6/, 'Australia'],
+  [/^9[A-E3-9]/, 'Brazil'],
+  [/^J/, 'Japan'],
+  [/^K[L-R]/, 'South Korea'],
+  [/^L/, 'China'],
+  [/^M[A-E]/, 'India'],
+  [/^S[A-M]/, 'United Kingdom'],
+  [/^T[A-H]/, 'Switzerland'],
+  [/^T[J-P]/, 'Czech Republic'],
+  [/^T[R-V]/, 'Hungary'],
+  [/^V[F-R]/, 'France'],
+  [/^V[S-W]/, 'Spain'],
+  [/^W/, 'Germany'],
+  [/^Y[S-W]/, 'Sweden'],
+  [/^Z[A-R]/, 'Italy'],
+];
+
+function getRegion(first: string): string {
+  if (/[A-H]/.test(first)) return 'Africa';
+  if (/[J-R]/.test(first)) return 'Asia';
+  if (/[S-Z]/.test(first)) return 'Europe';
+  if (/[1-5]/.test(first)) return 'North America';
+  if (/[6-7]/.test(first)) return 'Oceania';
+  return 'South America';
+}
+
+// Position 10; the cycle repeats every 30 years (A = 1980 and 2010)
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const MAKE_ALIASES: Record<string, string> = {
+  chevy: 'chevrolet',
+  vw: 'volkswagen',
+  mercedes: 'mercedesbenz',
+  benz: 'mercedesbenz',
+  dodgeram: 'ram',
+};
+
+// ─── Decoding ─────────────────────────────────────────────────────────────────
+
+export function normalizeVin(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function calculateCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, character, index) => {
+    const value = /\d/.test(character) ? Number(character) : TRANSLITERATION[character] ?? 0;
+    return total + value * CHECK_DIGIT_WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * Model year from position 10. North American VINs put a letter in position 7
+ * from 2010 on, which settles the 30-year cycle; elsewhere the most recent
+ * year that isn't in the future is assumed.
+ */
+function decodeModelYear(vin: string, now: Date): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index < 0) return null;
+
+  const early = 1980 + index;
+  const late = 2010 + index;
+  if (/[1-5]/.test(vin[0])) {
+    return /[A-Z]/.test(vin[6]) ? late : early;
+  }
+  return late <= now.getFullYear() + 1 ? late : early;
+}
+
+export function decodeVin(value: string, now: Date = new Date()): VinDecodeResult {
+  const vin = normalizeVin(value);
+  if (vin.length !== VIN_LENGTH) {
+    return { ok: false, reason: `A VIN has 17 characters — this one has ${vin.length}` };
+  }
+  if (!VIN_PATTERN.test(vin)) {
+    return { ok: false, reason: 'A VIN never contains the letters I, O or Q' };
+  }
+
+  const wmi = vin.slice(0, 3);
+  const entry = WMI_TABLE[wmi] ?? null;
+  const country = COUNTRY_PREFIXES.find(([pattern]) => pattern.test(vin))?.[1] ?? null;
+  // Mandatory for vehicles sold in North America
+  const checkDigitValid = /[1-5]/.test(vin[0]) ? calculateCheckDigit(vin) === vin[8] : null;
+
+  return {
+    ok: true,
+    decoded: {
+      vin,
+      wmi,
+      makes: entry?.makes ?? [],
+      manufacturer: entry?.manufacturer ?? null,
+      country,
+      region: getRegion(vin[0]),
+      modelYear: decodeModelYear(vin, now),
+      checkDigitValid,
+    },
+  };
+}
+
+export function formatDecodedVin(decoded: DecodedVin): string {
+  const make = decoded.makes.length > 0 ? decoded.makes.join(' / ') : 'Unknown make';
+  const year = decoded.modelYear ?? 'Unknown year';
+  return `${year} ${make} · ${decoded.country ?? decoded.region}`;
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+function normalizeMake(make: string): string {
+  const key = make.normalize('NFD').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return MAKE_ALIASES[key] ?? key;
+}
+
+/**
+ * The user's vehicles that could be the decoded one, best match first.
+ * A vehicle whose own VIN is on file only matches that exact VIN.
+ */
+export function matchVehiclesByVin(decoded: DecodedVin, vehicles: Vehicle[]): VinMatch[] {
+  const makes = decoded.makes.map(normalizeMake);
+  const matches: VinMatch[] = [];
+
+  for (const vehicle of vehicles) {
+    if (vehicle.vin) {
+      if (normalizeVin(vehicle.vin) === decoded.vin) {
+        matches.push({ vehicle, confidence: 'exact', reason: 'VIN on file matches' });
+      }
+      continue;
+    }
+
+    if (!makes.includes(normalizeMake(vehicle.make))) continue;
+
+    if (decoded.modelYear === vehicle.year) {
+      matches.push({ vehicle, confidence: 'likely', reason: `${vehicle.make}, model year ${vehicle.year}` });
+    } else if (decoded.modelYear === null || Math.abs(decoded.modelYear - vehicle.year) <= 1) {
+      // Model years and registration years are often one apart
+      matches.push({ vehicle, confidence: 'possible', reason: `${vehicle.make}, year close to ${decoded.modelYear ?? 'unknown'}` });
+    }
+  }
+
+  const rank: Record<VinMatchConfidence, number> = { exact: 0, likely: 1, possible: 2 };
+  return matches.sort((a, b) => rank[a.confidence] - rank[b.confidence]);
+}
+
+// A single exact match, or a single likely match when nothing matched exactly
+export function getConfidentVinMatch(matches: VinMatch[]): VinMatch | null {
+  const exact = matches.filter(m => m.confidence === 'exact');
+  if (exact.length > 0) return exact.length === 1 ? exact[0] : null;
+  const likely = matches.filter(m => m.confidence === 'likely');
+  return likely.length === 1 ? likely[0] : null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Serialized writes.
+ *
+ * The GPS callback, the background location task, AutoStart and the UI can
+ * all write the same records at once. Every read-modify-write goes through
+ * withWriteLock(), which queues it behind earlier writes to the same
+ * resources so none of them works from a stale read or lands out of order.
+ *
+ * Resources are plain names: a storage key for settings stored under one
+ * key, or one of WRITE_RESOURCES for records kept in the trip repository.
+ * A task that takes several resources waits for all of them and holds them
+ * together, which is how multi-record updates stay consistent.
+ *
+ * withAllWritesLocked() is for jobs that rewrite the whole store, like
+ * re-encrypting or migrating it: it waits for every queued write and holds
+ * off new ones until it's done. That only holds if every write to
+ * storageService goes through one of the two, so all of them do.
+ *
+ * Locks are not re-entrant: a task must not call anything that takes one
+ * of its own resources again, or it waits for itself.
+ */
+
+export const WRITE_RESOURCES = {
+  TRIPS: 'trips',
+  ACTIVE_TRIP: 'active_trip',
+  VEHICLES: 'vehicles',
+};
+
+const queues = new Map<string, Promise<unknown>>();
+let barrier: Promise<unknown> = Promise.resolve();
+
+export function withWriteLock<T>(resources: string[], task: () => Promise<T>): Promise<T> {
+  const names = [...new Set(resources)];
+  // A failed write must not block the ones queued behind it
+  const previous = [barrier, ...names.map(name => queues.get(name) ?? Promise.resolve())]
+    .map(queued => queued.catch(() => {}));
+
+  const run = Promise.all(previous).then(task);
+  const settled = run.catch(() => {});
+  names.forEach(name => queues.set(name, settled));
+
+  // Drop finished queues so the map doesn't grow with every key ever written
+  settled.then(() => {
+    names.forEach(name => {
+      if (queues.get(name) === settled) queues.delete(name);
+    });
+  });
+
+  return run;
+}
+
+export function withAllWritesLocked<T>(task: () => Promise<T>): Promise<T> {
+  const previous = [barrier, ...queues.values()].map(queued => queued.catch(() => {}));
+  const run = Promise.all(previous).then(task);
+  barrier = run.catch(() => {});
+  return run;
+}
@@ -0,0 +1,34 @@
+// The package ships no typings; only the parts the native data key store uses
+declare module 'react-native-crypto-js' {
+  interface WordArray {
+    sigBytes: number;
+    toString(encoder?: Encoder): string;
+  }
+
+  interface Encoder {
+    parse(text: string): WordArray;
+    stringify(words: WordArray): string;
+  }
+
+  interface CipherParams {
+    ciphertext: WordArray;
+  }
+
+  interface CipherOptions {
+    iv: WordArray;
+  }
+
+  const CryptoJS: {
+    enc: {
+      Hex: Encoder;
+      Base64: Encoder;
+      Utf8: Encoder;
+    };
+    AES: {
+      encrypt(message: string, key: WordArray, options: CipherOptions): CipherParams;
+      decrypt(params: CipherParams, key: WordArray, options: CipherOptions): WordArray;
+    };
+  };
+
+  export default CryptoJS;
+}
@@ -2,6 +2,46 @@ export type TripStatus = 'active' | 'completed' | 'synced' | 'edited';
 
 export type TripClassification = 'personal' | 'business' | 'unclassified';
 
+// Where a trip's data came from; trips without a source were GPS-tracked
+export type TripSource = 'gps' | 'imported' | 'manual';
+
+export type TrackingGapReason = 'app_restart';
+
+// A stretch of an active trip during which no GPS fixes were recorded
+export interface TrackingGap {
+  startedAt: number; // last fix before the gap (epoch ms)
+  endedAt: number;   // when tracking resumed (epoch ms)
+  reason: TrackingGapReason;
+}
+
+export type AutoStopFallbackReason = 'bluetooth_off';
+
+// An auto-tracked trip that stopped relying on the car's Bluetooth to end
+// and was left to the stationary auto-stop instead
+export interface AutoStopFallback {
+  at: number; // when the decision was made (epoch ms)
+  reason: AutoStopFallbackReason;
+}
+
+// What measured an active/tracked trip's distance; trips without one used GPS
+export type TripDistanceSource = 'gps' | 'obd';
+
+// Odometer deltas (PID A6) where the car reports them, otherwise integrated speed
+export type ObdDistanceMethod = 'odometer' | 'speed';
+
+export interface ObdTripDistance {
+  adapterName: string;
+  method: ObdDistanceMethod;
+  lostAt: number | null;       // when the adapter stopped answering and GPS took over (epoch ms)
+  milesAtLoss: number | null;  // OBD distance up to lostAt
+}
+
+// A user-initiated pause (e.g. a lunch stop) during an active trip
+export interface TripPause {
+  startedAt: number;      // epoch ms
+  endedAt: number | null; // null while the trip is still paused
+}
+
 export interface Trip {
   id: string;
   vehicleId: string;
@@ -12,9 +52,17 @@ export interface Trip {
   calculatedDistance: number; // GPS calculated
   adjustedDistance: number | null; // User override
   duration: number; // milliseconds
+  movingDuration?: number; // milliseconds, duration minus pauses
   status: TripStatus;
   classification: TripClassification;  // Personal, Business, or Unclassified
   isAutoTracked: boolean;              // true if started via BT AutoStart
+  source?: TripSource;                 // defaults to 'gps'
+  distanceSource?: TripDistanceSource; // defaults to 'gps'
+  obdDistance?: ObdTripDistance;       // set when distanceSource is 'obd'
+  trackingGaps?: TrackingGap[];        // periods without GPS (e.g. app killed mid-trip)
+  autoStopFallback?: AutoStopFallback; // set when Bluetooth went off mid-trip
+  pauses?: TripPause[];                // user pauses, excluded from movingDuration
+  rejectedPointCount?: number;         // GPS fixes dropped by the noise filter
   notes: string;
   syncedAt: Date | null;
   createdAt: Date;